@@ -7,6 +7,8 @@ import MultipleLightsScene from './scenes/04-MultipleLights';
 import MultiPassLightingsScene from './scenes/05-MultiPassLighting';
 import TexturedMaterialsScene from './scenes/06-TexturedMaterials';
 import ShadowMappingScene from './scenes/07-ShadowMapping';
+import DeferredLightingScene from './scenes/08-DeferredLighting';
+import ClusteredLightingScene from './scenes/09-ClusteredLighting';
 
 // First thing we need is to get the canvas on which we draw our scenes
 const canvas: HTMLCanvasElement = document.querySelector("#app");
@@ -22,7 +24,9 @@ const scenes = {
     "Multiple Lights": MultipleLightsScene,
     "Multi-Pass Lighting": MultiPassLightingsScene,
     "Textured Materials": TexturedMaterialsScene,
-    "Shadow Mapping": ShadowMappingScene
+    "Shadow Mapping": ShadowMappingScene,
+    "Deferred Lighting": DeferredLightingScene,
+    "Clustered Lighting": ClusteredLightingScene
 };
 const initialScene = "Shadow Mapping";
 
@@ -41,4 +45,24 @@ for(let name in scenes){
 selector.value = initialScene;
 selector.addEventListener("change", ()=>{
     game.startScene(selector.value);
+});
+
+// This button reloads the shaders of the current scene (the same as pressing "R" while the canvas is focused)
+const reloadShadersButton: HTMLButtonElement = document.querySelector("#reload-shaders");
+reloadShadersButton.addEventListener("click", ()=>{
+    game.reloadShaders();
+});
+
+// Scenes can also be written as JSON scene descriptions (see "static/scenes")
+// The file "scenes/index.json" maps scene names to their description files, so we add a scene for each of them
+game.loader.load({
+    ["scenes/index.json"]:{url:'scenes/index.json', type:'json', success:(name, data: {[name: string]: string})=>{
+        for(let name in data){
+            game.addScene(name, ShadowMappingScene.FromDescription(data[name]));
+            let option = document.createElement("option");
+            option.text = name;
+            option.value = name;
+            selector.add(option);
+        }
+    }}
 });
\ No newline at end of file
@@ -0,0 +1,315 @@
+import Loader from './loader';
+import Mesh from './mesh';
+import Frustum, { CullingStats } from './frustum';
+import * as MeshUtils from './mesh-utils';
+import Camera from './camera';
+import RenderTarget from './render-target';
+import ShaderProgram from './shader-program';
+import ShaderVariantCache from './shader-variants';
+import UniformBuffer, { UniformBlockSchema } from './uniform-buffer';
+import FullscreenPass from './fullscreen-pass';
+import { SceneNode } from './scene-graph';
+import { Light, PointLight, SpotLight, LightRadius } from './lights';
+import { vec3, mat4 } from 'gl-matrix';
+
+// This file contains a deferred renderer
+// In the multi-pass scenes, every object is drawn once for each light so the cost is (objects x lights)
+// A deferred renderer splits the work into two steps:
+// 1- The geometry pass: every object is drawn once and its material properties and normal are stored in a G-buffer (a render target with multiple color attachments)
+// 2- The lighting pass: every light is drawn once and it reads the G-buffer to light the pixels it covers, so the cost becomes (objects + lights)
+// Ambient and directional lights cover the whole screen so they are drawn as a full screen triangle
+// Point and spot lights only reach a limited distance so they are drawn as spheres (light volumes) that only cover the pixels they can light
+// The downsides are the memory needed for the G-buffer, no MSAA and no transparent objects (they need to be drawn forward after the lighting pass)
+
+// The material properties are the same as the textured materials in the other scenes
+export interface DeferredMaterial {
+    albedo: WebGLTexture,
+    albedo_tint: vec3,
+    specular: WebGLTexture,
+    specular_tint: vec3
+    roughness: WebGLTexture,
+    roughness_scale: number,
+    ambient_occlusion: WebGLTexture,
+    emissive: WebGLTexture,
+    emissive_tint: vec3
+};
+
+// This will represent an object in 3D space (its transformation is stored in the scene node that holds it)
+export interface DeferredObject {
+    mesh: Mesh,
+    material: DeferredMaterial
+};
+
+// What the renderer shows: the lit scene or one of the G-buffer channels (for debugging)
+export type GBufferView = 'lit' | 'albedo' | 'specular' | 'roughness' | 'normal' | 'emissive' | 'ambient_occlusion' | 'depth' | 'position';
+
+export default class DeferredRenderer {
+    gl: WebGL2RenderingContext;
+    gbuffer: RenderTarget;
+    shaders: ShaderVariantCache;
+    cameraBuffer: UniformBuffer; // The camera data (see common/camera.glsl)
+    lightBuffers: {[type in Light['type']]: UniformBuffer}; // All the lights of the same type share a buffer (it is updated before drawing each light)
+    sampler: WebGLSampler; // The sampler used for the material textures
+    gbufferSampler: WebGLSampler; // The sampler used for the G-buffer textures
+    volume: Mesh; // A unit sphere that is scaled to the light radius to draw the light volumes
+    fullscreen: FullscreenPass; // Draws the lights that cover the whole screen (we don't use its state handling since the light volumes need face culling and blending)
+
+    useLightVolumes: boolean = true; // If false, point and spot lights are drawn as full screen triangles too (useful to compare the performance)
+    lightThreshold: number = 1/256; // The light intensity below which a point or spot light is ignored (this defines the light radius)
+    culling: boolean = true; // If true, the geometry pass only draws the objects inside the view frustum
+    cullingStats: CullingStats = { drawn: 0, culled: 0 }; // The draws of the last geometry pass
+    frustum: Frustum = new Frustum(); // The view frustum of the camera (updated every geometry pass)
+
+    // The formats of the G-buffer attachments (in the same order as the outputs of deferred/gbuffer.frag)
+    // RGB10_A2 gives the normal more precision than RGBA8 and it can be rendered to without any extensions
+    static readonly GBufferFormats = {
+        albedo_ao: WebGL2RenderingContext.RGBA8,
+        specular_roughness: WebGL2RenderingContext.RGBA8,
+        normal: WebGL2RenderingContext.RGB10_A2,
+        emissive: WebGL2RenderingContext.RGBA8
+    };
+
+    // The names shown for each view (can be used as the options of a Selector)
+    static readonly Views: {[view in GBufferView]: string} = {
+        lit: 'Lit',
+        albedo: 'Albedo',
+        specular: 'Specular',
+        roughness: 'Roughness',
+        normal: 'Normal',
+        emissive: 'Emissive',
+        ambient_occlusion: 'Ambient Occlusion',
+        depth: 'Depth',
+        position: 'Position'
+    };
+
+    // The layouts of the uniform blocks in the shaders (they must match the blocks in common/camera.glsl and deferred/light.frag)
+    static readonly CameraSchema: UniformBlockSchema = { VP: 'mat4', cam_position: 'vec3' };
+    static readonly LightSchemas: {[type in Light['type']]: UniformBlockSchema} = {
+        ambient: { skyColor: 'vec3', groundColor: 'vec3', skyDirection: 'vec3' },
+        directional: { color: 'vec3', direction: 'vec3' },
+        point: { color: 'vec3', position: 'vec3', attenuation_quadratic: 'float', attenuation_linear: 'float', attenuation_constant: 'float', radius: 'float' },
+        spot: { color: 'vec3', position: 'vec3', direction: 'vec3', attenuation_quadratic: 'float', attenuation_linear: 'float', attenuation_constant: 'float', inner_cone: 'float', outer_cone: 'float', radius: 'float' }
+    };
+
+    // The sphere is made of flat triangles that lie inside the real sphere, so we scale it up a bit to make sure it contains the whole light
+    private static readonly VolumeScale = 1.05;
+
+    // Requests the shaders needed by the renderer (call it from the "load" function of the scene)
+    public static load(loader: Loader){
+        loader.load({
+            ["deferred/gbuffer.vert"]:{url:'shaders/deferred/gbuffer.vert', type:'shader'},
+            ["deferred/gbuffer.frag"]:{url:'shaders/deferred/gbuffer.frag', type:'shader'},
+            ["deferred/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["deferred/volume.vert"]:{url:'shaders/deferred/volume.vert', type:'shader'},
+            ["deferred/light.frag"]:{url:'shaders/deferred/light.frag', type:'shader'},
+            ["deferred/debug.frag"]:{url:'shaders/deferred/debug.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the renderer (see DeferredRenderer.load)
+    constructor(gl: WebGL2RenderingContext, loader: Loader){
+        this.gl = gl;
+
+        this.shaders = new ShaderVariantCache(gl);
+        this.shaders.register('gbuffer', { vertex: loader.resources['deferred/gbuffer.vert'], fragment: loader.resources['deferred/gbuffer.frag'] });
+        this.shaders.register('light', { vertex: loader.resources['deferred/fullscreen.vert'], fragment: loader.resources['deferred/light.frag'] });
+        this.shaders.register('light-volume', { vertex: loader.resources['deferred/volume.vert'], fragment: loader.resources['deferred/light.frag'] });
+        this.shaders.register('debug', { vertex: loader.resources['deferred/fullscreen.vert'], fragment: loader.resources['deferred/debug.frag'] });
+
+        // The G-buffer is resized to match the viewport every frame (so we start with any size)
+        const formats = DeferredRenderer.GBufferFormats;
+        this.gbuffer = new RenderTarget(gl, [1, 1], {
+            color: [formats.albedo_ao, formats.specular_roughness, formats.normal, formats.emissive],
+            depth: gl.DEPTH_COMPONENT24 // The depth is a texture since the lighting pass reads it to reconstruct the world position
+        });
+
+        this.cameraBuffer = new UniformBuffer(gl, DeferredRenderer.CameraSchema);
+        this.lightBuffers = {
+            ambient: new UniformBuffer(gl, DeferredRenderer.LightSchemas.ambient),
+            directional: new UniformBuffer(gl, DeferredRenderer.LightSchemas.directional),
+            point: new UniformBuffer(gl, DeferredRenderer.LightSchemas.point),
+            spot: new UniformBuffer(gl, DeferredRenderer.LightSchemas.spot)
+        };
+
+        this.sampler = gl.createSampler();
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_S, gl.REPEAT);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_T, gl.REPEAT);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+
+        // The G-buffer is read with texelFetch so filtering is never used, but a depth texture with a linear (or mipmap) filter is incomplete and would read as 0
+        this.gbufferSampler = gl.createSampler();
+        gl.samplerParameteri(this.gbufferSampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.gbufferSampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.gbufferSampler, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.samplerParameteri(this.gbufferSampler, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+        this.volume = MeshUtils.Sphere(gl, 16);
+        this.fullscreen = new FullscreenPass(gl);
+    }
+
+    public dispose(){
+        this.shaders.dispose();
+        this.gbuffer.dispose();
+        this.cameraBuffer.dispose();
+        for(const type in this.lightBuffers) this.lightBuffers[type as Light['type']].dispose();
+        this.gl.deleteSampler(this.sampler);
+        this.gl.deleteSampler(this.gbufferSampler);
+        this.volume.dispose();
+        this.fullscreen.dispose();
+    }
+
+    // Draws the objects in the scene graph to the currently bound frame buffer (the canvas or a render target)
+    // The output only gets the color, its depth buffer is not written
+    public render(root: SceneNode<DeferredObject>, camera: Camera, lights: Light[], view: GBufferView = 'lit'){
+        // The G-buffer must have the same size as the output since the lighting pass reads the texel under each pixel
+        const viewport: Int32Array = this.gl.getParameter(this.gl.VIEWPORT);
+        this.gbuffer.resize([viewport[2], viewport[3]]);
+
+        // Send the VP and camera position once for the whole frame
+        this.cameraBuffer.setValues({ VP: camera.ViewProjectionMatrix, cam_position: camera.position });
+        this.cameraBuffer.upload();
+
+        this.geometryPass(root, camera);
+
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
+        // The G-buffer is bound to the units 0-4 for all the lights
+        const textures = [this.gbuffer.colorTexture(0), this.gbuffer.colorTexture(1), this.gbuffer.colorTexture(2), this.gbuffer.colorTexture(3), this.gbuffer.depthTexture];
+        textures.forEach((texture, unit) => {
+            this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+            this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+            this.gl.bindSampler(unit, this.gbufferSampler);
+        });
+        const VP_inverse = mat4.invert(mat4.create(), camera.ViewProjectionMatrix);
+
+        this.gl.disable(this.gl.DEPTH_TEST);
+        if(view == 'lit'){
+            this.lightingPass(lights, VP_inverse);
+        } else {
+            const program = this.shaders.getVariant('debug', { VIEW: view });
+            program.use();
+            this.setGBufferUniforms(program, VP_inverse);
+            program.set('near', camera.near);
+            program.set('far', camera.far);
+            this.fullscreen.draw();
+        }
+        this.gl.enable(this.gl.DEPTH_TEST);
+    }
+
+    private geometryPass(root: SceneNode<DeferredObject>, camera: Camera){
+        this.gbuffer.bind();
+        // The clear color doesn't matter since the lighting pass ignores the pixels where the depth is still 1
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
+        this.gl.enable(this.gl.DEPTH_TEST);
+        this.gl.enable(this.gl.CULL_FACE); // Face culling is also needed to draw the light volumes (see lightingPass)
+        this.gl.cullFace(this.gl.BACK);
+        this.gl.disable(this.gl.BLEND);
+
+        const program = this.shaders.getVariant('gbuffer');
+        program.use();
+        program.bindUniformBlock('Camera', this.cameraBuffer);
+        this.frustum.update(camera.ViewProjectionMatrix);
+        this.cullingStats = { drawn: 0, culled: 0 };
+        Frustum.Cull(root, this.culling ? this.frustum : null, this.cullingStats).forEach((node)=>{
+            const obj = node.data;
+
+            // Send the model matrix (and its inverse for the normals) of the object
+            program.setUniformMatrix4fv("M", false, node.worldMatrix);
+            program.setUniformMatrix4fv("M_it", true, node.inverseWorldMatrix);
+
+            // Send material properties and bind the textures
+            program.set('material', {
+                albedo_tint: obj.material.albedo_tint,
+                specular_tint: obj.material.specular_tint,
+                emissive_tint: obj.material.emissive_tint,
+                roughness_scale: obj.material.roughness_scale
+            });
+            program.setTexture('material.albedo', 0, this.gl.TEXTURE_2D, obj.material.albedo, this.sampler);
+            program.setTexture('material.specular', 1, this.gl.TEXTURE_2D, obj.material.specular, this.sampler);
+            program.setTexture('material.roughness', 2, this.gl.TEXTURE_2D, obj.material.roughness, this.sampler);
+            program.setTexture('material.emissive', 3, this.gl.TEXTURE_2D, obj.material.emissive, this.sampler);
+            program.setTexture('material.ambient_occlusion', 4, this.gl.TEXTURE_2D, obj.material.ambient_occlusion, this.sampler);
+
+            obj.mesh.draw(this.gl.TRIANGLES);
+        });
+        this.gbuffer.unbind();
+    }
+
+    private lightingPass(lights: Light[], VP_inverse: mat4){
+        // Every light adds its contribution to the output (output = src_color + dest_color)
+        this.gl.enable(this.gl.BLEND);
+        this.gl.blendEquation(this.gl.FUNC_ADD);
+        this.gl.blendFunc(this.gl.ONE, this.gl.ONE);
+
+        // The emissive color is added once before the lights
+        const emissive = this.shaders.getVariant('light', { LIGHT: 'emissive' });
+        emissive.use();
+        this.setGBufferUniforms(emissive, VP_inverse);
+        this.fullscreen.draw();
+
+        for(const light of lights){
+            if(!light.enabled) continue;
+
+            const buffer = this.lightBuffers[light.type];
+            let radius = Infinity;
+            if(light.type == 'ambient'){
+                buffer.setValues({
+                    skyColor: light.skyColor,
+                    groundColor: light.groundColor,
+                    skyDirection: vec3.normalize(vec3.create(), light.skyDirection)
+                });
+            } else {
+                buffer.set('color', light.color);
+                if(light.type == 'directional' || light.type == 'spot'){
+                    buffer.set('direction', vec3.normalize(vec3.create(), light.direction));
+                }
+                if(light.type == 'point' || light.type == 'spot'){
+                    radius = LightRadius(light, this.lightThreshold);
+                    if(radius <= 0) continue; // The light is too dim to be seen
+                    buffer.setValues({
+                        position: light.position,
+                        attenuation_quadratic: light.attenuation_quadratic,
+                        attenuation_linear: light.attenuation_linear,
+                        attenuation_constant: light.attenuation_constant,
+                        radius: isFinite(radius) ? radius : 1e30 // A huge radius disables the fade out in the shader
+                    });
+                }
+                if(light.type == 'spot'){
+                    buffer.setValues({ inner_cone: light.inner_cone, outer_cone: light.outer_cone });
+                }
+            }
+            buffer.upload();
+
+            // For simplicity, spot lights use a sphere too (a cone would cover fewer pixels)
+            const useVolume = this.useLightVolumes && isFinite(radius);
+            const program = this.shaders.getVariant(useVolume ? 'light-volume' : 'light', { LIGHT: light.type });
+            program.use();
+            this.setGBufferUniforms(program, VP_inverse);
+            if('Camera' in program.UniformBlocks) program.bindUniformBlock('Camera', this.cameraBuffer);
+            program.bindUniformBlock('Light', buffer);
+
+            if(useVolume){
+                const position = (light as PointLight | SpotLight).position;
+                const scale = radius * DeferredRenderer.VolumeScale;
+                program.setUniformMatrix4fv('M', false, mat4.fromRotationTranslationScale(mat4.create(), [0, 0, 0, 1], position, [scale, scale, scale]));
+                // We draw the back faces only, so each pixel is shaded once even if the camera is inside the volume
+                // The depth test is disabled so the back faces are not hidden by the objects in front of them
+                this.gl.cullFace(this.gl.FRONT);
+                this.volume.draw(this.gl.TRIANGLES);
+                this.gl.cullFace(this.gl.BACK);
+            } else {
+                this.fullscreen.draw();
+            }
+        }
+
+        this.gl.disable(this.gl.BLEND);
+    }
+
+    // Connects the G-buffer textures (bound to the units 0-4 by "render") and sends the inverse VP used to reconstruct the world positions
+    // Some variants don't read all of them (e.g. the emissive pass) so we skip the uniforms that were removed by the compiler
+    private setGBufferUniforms(program: ShaderProgram, VP_inverse: mat4){
+        const samplers = ['gbuffer_albedo_ao', 'gbuffer_specular_roughness', 'gbuffer_normal', 'gbuffer_emissive', 'gbuffer_depth'];
+        samplers.forEach((name, unit) => { if(program.hasUniform(name)) program.setUniform1i(name, unit); });
+        if(program.hasUniform('VP_inverse')) program.setUniformMatrix4fv('VP_inverse', false, VP_inverse);
+    }
+}
@@ -86,7 +86,7 @@ interface CheckBoxProps {
 
 export const CheckBox: StatelessComponent<CheckBoxProps> = (props: StatelessProps<CheckBoxProps>) => {
     let {value, onchange, children, ...rest} = props;
-    return <input type="checkbox" checked={value?true:undefined} onchange={(ev: InputEvent)=>{onchange((ev.target as HTMLInputElement).checked)}}/>         
+    return <input type="checkbox" checked={value?true:undefined} onchange={(ev: InputEvent)=>{onchange((ev.target as HTMLInputElement).checked)}} {...rest}/>         
 }
 
 interface NumberInputProps {
@@ -97,5 +97,5 @@ interface NumberInputProps {
 
 export const NumberInput: StatelessComponent<NumberInputProps> = (props: StatelessProps<NumberInputProps>) => {
     let {value, onchange, children, ...rest} = props;
-    return <input type="number" value={value.toString()} onchange={(ev: InputEvent)=>{onchange(Number.parseFloat((ev.target as HTMLInputElement).value))}}/>         
+    return <input type="number" value={value.toString()} onchange={(ev: InputEvent)=>{onchange(Number.parseFloat((ev.target as HTMLInputElement).value))}} {...rest}/>         
 }
\ No newline at end of file
@@ -0,0 +1,278 @@
+import Loader from './loader';
+import * as TextureUtils from './texture-utils';
+import RenderTarget from './render-target';
+import ShaderProgram from './shader-program';
+import ShaderVariantCache from './shader-variants';
+import UniformBuffer, { UniformBlockSchema } from './uniform-buffer';
+import FullscreenPass from './fullscreen-pass';
+import { HDRImage } from './rgbe';
+import { vec3, mat4 } from 'gl-matrix';
+
+// This file contains the environment lighting (also called image based lighting or IBL)
+// The hemispherical ambient light only has two colors, but in reality, light arrives from every direction (the sky, the sun, the buildings around us, ...)
+// An environment map is an HDR image of everything around a point so we can use it to light the objects and draw it behind them as a skybox
+// Integrating the whole environment for every pixel is too expensive, so we precompute everything when the environment is created:
+// - The diffuse light only depends on the normal and it is very smooth, so we store it as 9 spherical harmonics coefficients (computed on the CPU)
+// - The specular light depends on the reflection direction and the roughness, so we prefilter the environment for a few roughness values and store them in the mip levels of a cube map
+// - The rest of the specular integral only depends on the view angle and the roughness so it is stored in a 2D lookup table (the BRDF LUT)
+// The lit shaders read them using the functions in common/environment.glsl
+
+export interface EnvironmentMapOptions {
+    size?: number, // The face size of the environment cube map (used for the skybox)
+    specularSize?: number, // The face size of the first mip level of the prefiltered specular map
+    specularLevels?: number, // The number of prefiltered mip levels (the roughness goes from 0 to 1 over them)
+    samples?: number, // The number of samples used to prefilter each texel
+    lutSize?: number // The size of the BRDF lookup table
+};
+
+// Projects the irradiance of an equirectangular image on the first 9 spherical harmonics basis functions
+// The coefficients are convolved with the cosine lobe (Ramamoorthi and Hanrahan, "An Efficient Representation for Irradiance Environment Maps")
+// and divided by PI so that evaluating them gives the light reflected by a white lambertian surface
+export function IrradianceSH(image: HDRImage): vec3[] {
+    const sh = Array.from({length: 9}, () => [0, 0, 0]);
+    const {width, height, data} = image;
+    const texelArea = (2 * Math.PI / width) * (Math.PI / height); // The solid angle of a texel at the equator (it shrinks by the cosine of the latitude)
+    for(let y = 0; y < height; y++){
+        const latitude = ((y + 0.5) / height - 0.5) * Math.PI; // The rows are stored from the bottom (-90 degrees) to the top (90 degrees)
+        const solidAngle = texelArea * Math.cos(latitude);
+        for(let x = 0; x < width; x++){
+            const longitude = ((x + 0.5) / width - 0.5) * 2 * Math.PI; // (this matches the sampling in ibl/equirectangular.frag)
+            const dx = Math.cos(latitude) * Math.cos(longitude), dy = Math.sin(latitude), dz = Math.cos(latitude) * Math.sin(longitude);
+            // The basis functions in the same order as common/environment.glsl
+            const basis = [
+                0.282095,
+                0.488603 * dy, 0.488603 * dz, 0.488603 * dx,
+                1.092548 * dx * dy, 1.092548 * dy * dz, 0.315392 * (3 * dz * dz - 1), 1.092548 * dx * dz, 0.546274 * (dx * dx - dy * dy)
+            ];
+            const i = 4 * (y * width + x);
+            for(let k = 0; k < 9; k++){
+                const weight = basis[k] * solidAngle;
+                sh[k][0] += data[i] * weight;
+                sh[k][1] += data[i + 1] * weight;
+                sh[k][2] += data[i + 2] * weight;
+            }
+        }
+    }
+    // The convolution with the cosine lobe scales each band (PI, 2PI/3 and PI/4) then we divide by PI
+    const bandScales = [1, 2/3, 2/3, 2/3, 1/4, 1/4, 1/4, 1/4, 1/4];
+    return sh.map((coefficient, k) => vec3.scale(vec3.create(), coefficient as vec3, bandScales[k]));
+}
+
+export default class EnvironmentMap {
+    gl: WebGL2RenderingContext;
+    shaders: ShaderVariantCache;
+    cubemap: WebGLTexture; // The environment as a cube map (with mip levels so that the prefiltering can read blurred versions of it)
+    specular: WebGLTexture; // The prefiltered specular map
+    brdf: WebGLTexture; // The BRDF lookup table
+    sh: vec3[]; // The irradiance spherical harmonics (see IrradianceSH)
+    buffer: UniformBuffer; // The environment data read by the shaders (see common/environment.glsl)
+    sampler: WebGLSampler; // A trilinear sampler for the cube maps
+    lutSampler: WebGLSampler; // A bilinear sampler for the lookup table
+    fullscreen: FullscreenPass;
+    size: number;
+    specularLevels: number;
+
+    intensity: number = 1; // Multiplies the environment light (and the skybox)
+
+    static readonly Schema: UniformBlockSchema = { environment_sh: ['vec3', 9], environment_intensity: 'float', environment_max_lod: 'float' };
+
+    // The matrices that map the screen coordinates (x, y, 1) of each cube face to a direction (the columns are the face right, up and forward)
+    // They follow the order of the cube map targets (+X, -X, +Y, -Y, +Z, -Z) and the orientation defined by the OpenGL specification
+    static readonly CubeFaces: number[][] = [
+        [ 0, 0,-1,   0,-1, 0,   1, 0, 0],
+        [ 0, 0, 1,   0,-1, 0,  -1, 0, 0],
+        [ 1, 0, 0,   0, 0, 1,   0, 1, 0],
+        [ 1, 0, 0,   0, 0,-1,   0,-1, 0],
+        [ 1, 0, 0,   0,-1, 0,   0, 0, 1],
+        [-1, 0, 0,   0,-1, 0,   0, 0,-1]
+    ];
+
+    // Requests the shaders needed by the environment map (call it from the "load" function of the scene)
+    public static load(loader: Loader){
+        loader.load({
+            ["ibl/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["ibl/equirectangular.frag"]:{url:'shaders/ibl/equirectangular.frag', type:'shader'},
+            ["ibl/prefilter.frag"]:{url:'shaders/ibl/prefilter.frag', type:'shader'},
+            ["ibl/brdf.frag"]:{url:'shaders/ibl/brdf.frag', type:'shader'},
+            ["ibl/skybox.vert"]:{url:'shaders/ibl/skybox.vert', type:'shader'},
+            ["ibl/skybox.frag"]:{url:'shaders/ibl/skybox.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the environment map (see EnvironmentMap.load)
+    // The image is an equirectangular HDR image (see the "hdr" resource type in Loader)
+    constructor(gl: WebGL2RenderingContext, loader: Loader, image: HDRImage, options: EnvironmentMapOptions = {}){
+        this.gl = gl;
+        this.size = options.size ?? 512;
+        const specularSize = options.specularSize ?? 128;
+        this.specularLevels = Math.min(options.specularLevels ?? 6, Math.floor(Math.log2(specularSize)) + 1);
+        const samples = options.samples ?? 256;
+        const lutSize = options.lutSize ?? 128;
+
+        // The precomputed maps are rendered into half float textures
+        if(!TextureUtils.IsFloatRenderable(gl, gl.RGBA16F)){
+            throw new Error("Environment maps need to render to floating point textures but this device doesn't support it (EXT_color_buffer_float is missing)");
+        }
+
+        this.shaders = new ShaderVariantCache(gl);
+        this.shaders.register('equirectangular', { vertex: loader.resources['ibl/fullscreen.vert'], fragment: loader.resources['ibl/equirectangular.frag'] });
+        this.shaders.register('prefilter', { vertex: loader.resources['ibl/fullscreen.vert'], fragment: loader.resources['ibl/prefilter.frag'], defines: { SAMPLES: samples } });
+        this.shaders.register('brdf', { vertex: loader.resources['ibl/fullscreen.vert'], fragment: loader.resources['ibl/brdf.frag'], defines: { SAMPLES: samples } });
+        this.shaders.register('skybox', { vertex: loader.resources['ibl/skybox.vert'], fragment: loader.resources['ibl/skybox.frag'] });
+
+        this.sampler = gl.createSampler();
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+
+        this.lutSampler = gl.createSampler();
+        gl.samplerParameteri(this.lutSampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.lutSampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.lutSampler, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.samplerParameteri(this.lutSampler, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+
+        this.fullscreen = new FullscreenPass(gl);
+
+        this.sh = IrradianceSH(image);
+        this.buffer = new UniformBuffer(gl, EnvironmentMap.Schema);
+        this.buffer.setValues({ environment_sh: this.sh, environment_max_lod: this.specularLevels - 1 });
+
+        // The render target has no attachments of its own, we attach the faces and levels we draw into
+        // The full screen triangles must not be culled, depth tested or blended (we restore these states when we are done)
+        const target = new RenderTarget(gl, [1, 1]);
+        this.fullscreen.begin();
+        target.bind();
+        try {
+            this.cubemap = this.createCubemap(target, image);
+            this.specular = this.prefilter(target, specularSize);
+            this.brdf = this.integrateBRDF(target, lutSize);
+        } finally {
+            target.unbind();
+            target.dispose();
+            this.fullscreen.end();
+        }
+    }
+
+    // Converts the equirectangular image to a cube map since cube maps are faster to sample and have no distortion near the poles
+    private createCubemap(target: RenderTarget, image: HDRImage): WebGLTexture {
+        const gl = this.gl;
+        // Upload the image (half floats are enough for colors and, unlike 32-bit floats, they can always be filtered linearly)
+        // We don't need mipmaps since the cube map faces are close to the image resolution
+        const equirectangular = TextureUtils.LoadFloatImage(gl, image, gl.RGBA16F, false);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT); // The longitude wraps around
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+        const cubemap = this.allocateCubemap(this.size, 0);
+        const program = this.shaders.getVariant('equirectangular');
+        program.use();
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, equirectangular);
+        gl.bindSampler(0, null);
+        program.setUniform1i('equirectangular', 0);
+        this.drawFaces(target, program, cubemap, 0, this.size);
+        gl.deleteTexture(equirectangular);
+
+        // The mip levels are used by the prefiltering (and can be used to blur the skybox)
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, cubemap);
+        gl.generateMipmap(gl.TEXTURE_CUBE_MAP);
+        return cubemap;
+    }
+
+    // Convolves the environment with the GGX lobe, each mip level is for a roughness from 0 (level 0) to 1 (the last level)
+    private prefilter(target: RenderTarget, size: number): WebGLTexture {
+        const gl = this.gl;
+        const specular = this.allocateCubemap(size, this.specularLevels);
+        const program = this.shaders.getVariant('prefilter');
+        program.use();
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.cubemap);
+        gl.bindSampler(0, this.sampler);
+        program.setUniform1i('environment', 0);
+        program.setUniform1f('source_size', this.size);
+        for(let level = 0; level < this.specularLevels; level++){
+            program.setUniform1f('roughness', this.specularLevels > 1 ? level / (this.specularLevels - 1) : 0);
+            this.drawFaces(target, program, specular, level, Math.max(1, size >> level));
+        }
+        gl.bindSampler(0, null);
+        return specular;
+    }
+
+    private integrateBRDF(target: RenderTarget, size: number): WebGLTexture {
+        const gl = this.gl;
+        const lut = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, lut);
+        gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RG16F, size, size);
+        const program = this.shaders.getVariant('brdf');
+        program.use();
+        target.attachTexture(gl.COLOR_ATTACHMENT0, lut, [size, size]);
+        this.fullscreen.draw();
+        return lut;
+    }
+
+    private allocateCubemap(size: number, levels: number): WebGLTexture {
+        return TextureUtils.RenderCubeTexture(this.gl, size, this.gl.RGBA16F, levels); // (0 levels means a full mip chain)
+    }
+
+    // Draws the 6 faces of the given level of the cube map (the program must be in use)
+    private drawFaces(target: RenderTarget, program: ShaderProgram, cubemap: WebGLTexture, level: number, size: number){
+        const gl = this.gl;
+        for(let face = 0; face < 6; face++){
+            target.attachCubeFace(gl.COLOR_ATTACHMENT0, cubemap, face, size, level);
+            program.setUniformMatrix3fv('face', false, EnvironmentMap.CubeFaces[face]);
+            this.fullscreen.draw();
+        }
+    }
+
+    // Binds the prefiltered map and the lookup table to the 2 units starting from firstUnit and connects them and the uniform block to the program
+    public bind(program: ShaderProgram, firstUnit: number){
+        const gl = this.gl;
+        this.buffer.set('environment_intensity', this.intensity);
+        this.buffer.upload();
+        gl.activeTexture(gl.TEXTURE0 + firstUnit);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.specular);
+        gl.bindSampler(firstUnit, this.sampler);
+        gl.activeTexture(gl.TEXTURE0 + firstUnit + 1);
+        gl.bindTexture(gl.TEXTURE_2D, this.brdf);
+        gl.bindSampler(firstUnit + 1, this.lutSampler);
+        // The phong variants don't read the lookup table so we skip the uniforms that were removed by the compiler
+        ['environment_specular', 'environment_brdf'].forEach((name, index) => { if(program.hasUniform(name)) program.setUniform1i(name, firstUnit + index); });
+        program.bindUniformBlock('Environment', this.buffer);
+    }
+
+    // Draws the environment behind everything that was drawn before (the camera buffer should have the same camera, see common/camera.glsl)
+    // The lod can be used to blur the background (0 is the sharpest)
+    public drawSkybox(cameraBuffer: UniformBuffer, VP: mat4, lod: number = 0){
+        const gl = this.gl;
+        this.buffer.set('environment_intensity', this.intensity);
+        this.buffer.upload();
+        const program = this.shaders.getVariant('skybox');
+        program.use();
+        program.bindUniformBlock('Camera', cameraBuffer);
+        program.bindUniformBlock('Environment', this.buffer);
+        program.setUniformMatrix4fv('VP_inverse', false, mat4.invert(mat4.create(), VP));
+        program.setUniform1f('lod', lod);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.cubemap);
+        gl.bindSampler(0, this.sampler);
+        program.setUniform1i('skybox', 0);
+        // The skybox is on the far plane so it must pass the depth test where the depth is 1 without writing the depth
+        const depthFunc: number = gl.getParameter(gl.DEPTH_FUNC);
+        gl.depthFunc(gl.LEQUAL);
+        gl.depthMask(false);
+        this.fullscreen.draw();
+        gl.depthMask(true);
+        gl.depthFunc(depthFunc);
+    }
+
+    public dispose(){
+        this.shaders.dispose();
+        this.buffer.dispose();
+        this.gl.deleteTexture(this.cubemap);
+        this.gl.deleteTexture(this.specular);
+        this.gl.deleteTexture(this.brdf);
+        this.gl.deleteSampler(this.sampler);
+        this.gl.deleteSampler(this.lutSampler);
+        this.fullscreen.dispose();
+    }
+}
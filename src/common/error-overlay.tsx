@@ -0,0 +1,46 @@
+import { createElement } from 'tsx-create-element';
+import { ShaderCompileError, ShaderDiagnostic } from './shader-errors';
+
+// This shows the shader errors on top of the canvas (so we don't have to open the console to know why the canvas is black)
+// For each diagnostic, we show the message and the source lines around it with the offending line highlighted
+export default class ErrorOverlay {
+    element: HTMLElement;
+    private shown: readonly ShaderCompileError[] = [];
+
+    constructor(element: HTMLElement){
+        this.element = element;
+        this.element.style.display = 'none';
+    }
+
+    // Replaces the shown errors (an empty list hides the overlay)
+    public show(errors: readonly ShaderCompileError[]){
+        // The game calls this every frame so we only rebuild the elements if the errors changed
+        if(errors.length == this.shown.length && errors.every((error, index) => error === this.shown[index])) return;
+        this.shown = errors;
+        this.element.innerHTML = "";
+        this.element.style.display = errors.length > 0 ? 'block' : 'none';
+        for(const error of errors) this.element.appendChild(ErrorOverlay.render(error));
+    }
+
+    public hide(){ this.show([]); }
+
+    private static render(error: ShaderCompileError): HTMLElement {
+        const title = error.stage == 'link' ? `Failed to link the program (${error.sourceName})` : `Failed to compile the ${error.stage} shader "${error.sourceName}"`;
+        return <div className="error">
+            <div className="error-title">{title}</div>
+            {error.diagnostics.map(diagnostic => ErrorOverlay.renderDiagnostic(diagnostic))}
+        </div>;
+    }
+
+    private static renderDiagnostic(diagnostic: ShaderDiagnostic): HTMLElement {
+        const location = diagnostic.line > 0 ? `${diagnostic.file}:${diagnostic.line}: ` : '';
+        return <div className={`error-diagnostic ${diagnostic.severity}`}>
+            <div className="error-message">{`${diagnostic.severity.toUpperCase()}: ${location}${diagnostic.message}`}</div>
+            {diagnostic.excerpt.length == 0 ? [] : <pre className="error-excerpt">
+                {diagnostic.excerpt.map(line => <div className={line.file == diagnostic.file && line.line == diagnostic.line ? 'error-line highlighted' : 'error-line'}>
+                    {`${line.line.toString().padStart(5)} | ${line.text}`}
+                </div>)}
+            </pre>}
+        </div>;
+    }
+}
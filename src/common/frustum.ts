@@ -0,0 +1,101 @@
+import { vec3, vec4, mat4 } from 'gl-matrix';
+import Mesh, { Bounds } from './mesh';
+import { SceneNode } from './scene-graph';
+
+// This file contains a view frustum which is used to skip drawing the objects that can't be seen (frustum culling)
+// The frustum is the volume that a view projection (VP) matrix maps into the clip space cube, so any VP matrix works (the camera, a shadow cascade, a cube face, ...)
+// The 6 planes are extracted from the rows of the VP matrix (Gribb & Hartmann): a point is inside if -w <= x, y, z <= w after the transformation,
+// so "w + x >= 0" is the left plane, "w - x >= 0" is the right plane and so on
+// Each plane is stored as (normal, distance) and a point p is in front of the plane (inside) if dot(normal, p) + distance >= 0
+// The tests are conservative: an object is only culled if it is fully outside one of the planes (an object near a corner may pass while being outside)
+// Usage: call "update" with the VP matrix then test the objects with "intersects" (or collect the visible nodes of a scene graph with "Cull")
+
+// Counts the draws of a frame (reset it at the start of the frame and show it to see how much the culling saves)
+export interface CullingStats {
+    drawn: number,
+    culled: number
+};
+
+export default class Frustum {
+    planes: vec4[] = Array.from({length: 6}, () => vec4.create());
+
+    constructor(VP?: mat4){
+        if(VP) this.update(VP);
+    }
+
+    // Extracts the planes from a VP matrix
+    public update(VP: mat4){
+        // gl-matrix stores the matrices in column-major order so the row "i" is (VP[i], VP[4+i], VP[8+i], VP[12+i])
+        const row = (i: number) => [VP[i], VP[4 + i], VP[8 + i], VP[12 + i]];
+        const w = row(3);
+        for(let axis = 0; axis < 3; axis++){
+            const r = row(axis);
+            for(let side = 0; side < 2; side++){
+                const sign = side == 0 ? 1 : -1;
+                const plane = this.planes[2 * axis + side];
+                vec4.set(plane, w[0] + sign * r[0], w[1] + sign * r[1], w[2] + sign * r[2], w[3] + sign * r[3]);
+                // Normalize the plane so that the distance of a point from it is in world units (needed for the sphere test)
+                const length = Math.hypot(plane[0], plane[1], plane[2]);
+                if(length > 0) vec4.scale(plane, plane, 1 / length);
+            }
+        }
+    }
+
+    // Whether the sphere is (at least partially) inside the frustum
+    public intersectsSphere(center: vec3, radius: number): boolean {
+        for(const plane of this.planes){
+            if(plane[0] * center[0] + plane[1] * center[1] + plane[2] * center[2] + plane[3] < -radius) return false;
+        }
+        return true;
+    }
+
+    // Whether the axis aligned box is (at least partially) inside the frustum
+    public intersectsBox(min: vec3, max: vec3): boolean {
+        for(const plane of this.planes){
+            // The corner of the box that is farthest along the plane normal is the last one to leave the plane
+            const x = plane[0] >= 0 ? max[0] : min[0];
+            const y = plane[1] >= 0 ? max[1] : min[1];
+            const z = plane[2] >= 0 ? max[2] : min[2];
+            if(plane[0] * x + plane[1] * y + plane[2] * z + plane[3] < 0) return false;
+        }
+        return true;
+    }
+
+    // Whether the bounds of a mesh (in its local space) transformed by the model matrix M are (at least partially) inside the frustum
+    // The sphere is tested first since it is cheap, then the box which is tighter for long and flat meshes
+    public intersects(bounds: Bounds, M: mat4): boolean {
+        if(bounds == null) return true; // Unknown bounds are always drawn
+        const center = vec3.transformMat4(vec3.create(), bounds.center, M);
+        // The sphere grows with the largest scale of the matrix
+        const scale = Math.sqrt(Math.max(
+            M[0] * M[0] + M[1] * M[1] + M[2] * M[2],
+            M[4] * M[4] + M[5] * M[5] + M[6] * M[6],
+            M[8] * M[8] + M[9] * M[9] + M[10] * M[10]
+        ));
+        if(!this.intersectsSphere(center, bounds.radius * scale)) return false;
+        // The world box of the transformed local box (Arvo): each axis of the world box is the sum of the extents of the local box along that axis
+        const extents = vec3.sub(vec3.create(), bounds.max, bounds.min);
+        vec3.scale(extents, extents, 0.5);
+        const half = vec3.create();
+        for(let i = 0; i < 3; i++){
+            half[i] = Math.abs(M[i]) * extents[0] + Math.abs(M[4 + i]) * extents[1] + Math.abs(M[8 + i]) * extents[2];
+        }
+        return this.intersectsBox(vec3.sub(vec3.create(), center, half), vec3.add(vec3.create(), center, half));
+    }
+
+    // Returns the nodes of the scene graph that hold a mesh inside the frustum (every node that holds a mesh if the frustum is null) and adds them to the stats
+    public static Cull<T extends {mesh: Mesh}>(root: SceneNode<T>, frustum: Frustum, stats?: CullingStats): SceneNode<T>[] {
+        const visible: SceneNode<T>[] = [];
+        let culled = 0;
+        root.traverse((node)=>{
+            if(!node.data) return;
+            if(frustum == null || frustum.intersects(node.data.mesh.bounds, node.worldMatrix)) visible.push(node);
+            else culled++;
+        });
+        if(stats){
+            stats.drawn += visible.length;
+            stats.culled += culled;
+        }
+        return visible;
+    }
+}
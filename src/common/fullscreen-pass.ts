@@ -0,0 +1,39 @@
+// This file contains a helper for the screen space passes (tone mapping, SSAO, post processing effects, ...)
+// These passes draw one triangle that covers the whole screen and the fragment shader computes the color of each pixel
+// The vertex shader "common/fullscreen.vert" generates the triangle from gl_VertexID, so it has no vertex attributes
+// Usage: call "begin" to disable the states that would affect the passes, "draw" once for each pass, then "end" to restore the states
+
+export default class FullscreenPass {
+    gl: WebGL2RenderingContext;
+    private vao: WebGLVertexArrayObject; // The full screen triangle has no vertex attributes but we still need a VAO to draw it
+    private saved: number[][] = []; // The states disabled by each "begin" (restored by "end")
+
+    constructor(gl: WebGL2RenderingContext){
+        this.gl = gl;
+        this.vao = gl.createVertexArray();
+    }
+
+    // Disables the depth test, face culling and blending (and any other given states) if they are enabled
+    public begin(...states: number[]){
+        const gl = this.gl;
+        const enabled = [gl.DEPTH_TEST, gl.CULL_FACE, gl.BLEND, ...states].filter(state => gl.isEnabled(state));
+        enabled.forEach(state => gl.disable(state));
+        this.saved.push(enabled);
+    }
+
+    // Enables the states disabled by the last "begin"
+    public end(){
+        this.saved.pop()?.forEach(state => this.gl.enable(state));
+    }
+
+    // Draws the full screen triangle with the program in use
+    public draw(){
+        this.gl.bindVertexArray(this.vao);
+        this.gl.drawArrays(this.gl.TRIANGLES, 0, 3);
+        this.gl.bindVertexArray(null);
+    }
+
+    public dispose(){
+        this.gl.deleteVertexArray(this.vao);
+    }
+}
@@ -1,10 +1,18 @@
 import Loader from './loader'; // Used to load files from the web server
 import Input from './input'; // Used to manage the user input
+import ShaderProgram from './shader-program';
+import { ShaderCompileError } from './shader-errors';
+import ErrorOverlay from './error-overlay'; // Used to show the shader errors on the page
+import Camera from './camera';
+import PostProcessStack from './post-processing'; // Used to apply screen space effects after the scene is drawn
+import * as PostEffects from './post-effects';
 
 //This is the abstract base of all scenes
 export abstract class Scene {
     game: Game;
     gl: WebGL2RenderingContext;
+    camera?: Camera; // The camera that the scene draws with (the post processing effects that read the depth need it)
+    shaderPrograms: Set<ShaderProgram> = new Set(); // The shader programs created while the scene starts or draws (the game collects them to reload and check them)
     public constructor(game: Game){
         this.game = game;
         this.gl = game.gl;
@@ -27,6 +35,10 @@ export default class Game {
     nextScene: Scene = null; // The scene that will replace the current scene after its files have been loaded
     nextSceneReady: boolean = false; // Whether the files requested by the next scene has been loaded or not 
     lastTick: number; // The time of the last frame in milliseconds (used to calculate delta time)
+    overlay: ErrorOverlay; // Shows the shader errors on top of the canvas
+    failedScene: Scene = null; // A scene that was stopped since some of its shader programs failed (it will be started again after reloading the shaders)
+    postProcessing: PostProcessStack = null; // The effects applied to the image of every scene (created once its shaders are loaded)
+    shaderPrograms: Set<ShaderProgram> = new Set(); // The shader programs created by the game itself (the post processing stack)
 
     constructor(canvas: HTMLCanvasElement){
         this.canvas = canvas;
@@ -40,6 +52,17 @@ export default class Game {
             stencil: true // this will tell the browser that we want a stencil buffer
         }); // This command loads the WebGL2 context which we will use to draw
         this.input = new Input(this.canvas);
+        this.overlay = new ErrorOverlay(document.querySelector('#errors'));
+        // The post processing stack is shared by all the scenes, so its controls have their own panel (the scenes clear theirs when they end)
+        PostProcessStack.load(this.loader);
+        PostEffects.LoadEffects(this.loader);
+        this.loader.wait().then(()=>{
+            ShaderProgram.Collect(this.shaderPrograms, ()=>{
+                this.postProcessing = new PostProcessStack(this.gl, this.loader);
+                this.postProcessing.effects = PostEffects.CreateEffects(this.postProcessing, this.loader);
+            });
+            this.postProcessing.setupControls(document.querySelector('#post-processing'));
+        });
         this.lastTick = performance.now();
         this.loop(performance.now()); // Start the game loop
     }
@@ -63,17 +86,74 @@ export default class Game {
         }
     }
 
+    // Reads the shader files again and rebuilds the shader programs of the current scene and the game (so the current scene continues without restarting)
+    // Programs whose new version fails to compile or link keep their old version
+    public async reloadShaders(){
+        await this.loader.reload(...this.loader.resourcesOfType('shader'));
+        const scene = this.currentScene ?? this.failedScene;
+        let failed = 0;
+        for(const program of [...this.livePrograms(scene?.shaderPrograms), ...this.livePrograms(this.shaderPrograms)]){
+            if(!program.rebuild()) failed++;
+        }
+        if(failed > 0) console.warn(`Reloaded the shaders: ${failed} programs failed to rebuild (they kept their old version)`);
+        // If the scene was stopped because of its shaders, we try to start it again with the new shaders
+        if(this.failedScene != null && this.currentScene == null && this.nextScene == null){
+            this.runScene(this.failedScene);
+        } else if(this.currentScene != null) {
+            this.checkShaders();
+        }
+    }
+
+    // Starts a scene and collects the shader programs it creates
+    private runScene(scene: Scene){
+        this.currentScene = scene;
+        this.failedScene = null;
+        scene.shaderPrograms.clear(); // The programs of the last run were disposed by "end"
+        ShaderProgram.Collect(scene.shaderPrograms, () => scene.start()); // Tell the scene to initialize its objects
+        this.checkShaders(); // We refuse to run the scene if some of its shader programs failed
+    }
+
+    // Returns the programs of the set that are not disposed yet
+    private livePrograms(programs: Set<ShaderProgram>): ShaderProgram[] {
+        if(programs == null) return [];
+        return ShaderProgram.Live.filter(program => programs.has(program));
+    }
+
+    // Shows the shader errors of the current scene and the game, and stops the scene if one of its programs can't be used
+    // (a program that failed to rebuild is still usable since it keeps its old version)
+    // A failed program of the post processing stack is only shown since the scene can still be drawn without its effect
+    private checkShaders(){
+        const scenePrograms = this.livePrograms(this.currentScene?.shaderPrograms);
+        const errors: ShaderCompileError[] = [];
+        for(const program of [...scenePrograms, ...this.livePrograms(this.shaderPrograms)]) errors.push(...program.Errors);
+        this.overlay.show(errors);
+        if(this.currentScene == null) return;
+        if(scenePrograms.some(program => !program.Linked)){
+            console.error("The scene was stopped since some of its shader programs failed to build (fix them then reload the shaders)");
+            this.currentScene.end();
+            this.failedScene = this.currentScene;
+            this.currentScene = null;
+        }
+    }
+
     private loop(time: DOMHighResTimeStamp){
         requestAnimationFrame((time) => this.loop(time)); // Tell the browser to call this function again when the next frame needs to be drawn
         if(this.nextScene != null && this.nextSceneReady){ // If there is a next scene and it is ready, replace the current scene with it.
             if(this.currentScene != null) this.currentScene.end(); // If there was an old scene, tell it to free its memory
-            this.currentScene = this.nextScene;
+            const scene = this.nextScene;
             this.nextScene = null;
-            this.currentScene.start(); // Tell the scene to initialize its objects
+            this.runScene(scene);
         }
         if(this.currentScene != null){
-            this.currentScene.draw(time-this.lastTick); // Tell the scene to draw itself
+            // If an effect is enabled, the scene draws to the offscreen target of the post processing stack then the effects draw the result to the canvas
+            const postProcessing = this.postProcessing?.active ? this.postProcessing : null;
+            const scene = this.currentScene;
+            postProcessing?.begin();
+            ShaderProgram.Collect(scene.shaderPrograms, () => scene.draw(time-this.lastTick)); // Tell the scene to draw itself
+            ShaderProgram.Collect(this.shaderPrograms, () => postProcessing?.end(time-this.lastTick, scene.camera ?? null));
+            this.checkShaders(); // Some programs are only built when they are first needed (e.g. shader variants) so we check again after drawing
         }
+        if(this.input.isKeyJustDown("r")) this.reloadShaders(); // Press "R" to reload the shaders (useful while editing them)
         this.input.update(); // Update some information about the user input
         this.lastTick = time;
     }
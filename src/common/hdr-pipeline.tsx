@@ -0,0 +1,221 @@
+import { createElement } from 'tsx-create-element';
+import { CheckBox, Selector, NumberInput } from './dom-utils';
+import Loader from './loader';
+import RenderTarget from './render-target';
+import ShaderVariantCache from './shader-variants';
+import * as TextureUtils from './texture-utils';
+import FullscreenPass from './fullscreen-pass';
+
+// This file contains an HDR (high dynamic range) pipeline
+// The canvas stores 8 bits per channel so every color above 1 is clipped (a light with the color (10, 8, 2) would look the same as (1, 1, 1))
+// Instead, the scene is drawn into a half float (RGBA16F) render target, then a tone mapping operator compresses the colors to the range [0, 1] while drawing to the canvas
+// Before tone mapping, the colors are multiplied by the exposure which can be set manually or computed automatically from the average luminance of the image (like a camera or our eyes)
+// Usage: call "begin" before drawing the scene and "end" after it
+// If the device can't render to float textures, "begin" and "end" do nothing so the scene is drawn directly to the canvas (in LDR, the colors above 1 are clipped)
+
+export type ToneMappingOperator = 'none' | 'reinhard' | 'aces' | 'uncharted2';
+export type ExposureMode = 'manual' | 'auto';
+
+export default class HDRPipeline {
+    gl: WebGL2RenderingContext;
+    shaders: ShaderVariantCache;
+    target: RenderTarget; // The HDR color and the depth of the scene (resized to the canvas size every frame)
+    luminanceTarget: RenderTarget; // The log luminance with a full mip chain (to find the average luminance)
+    adaptationTargets: RenderTarget[]; // Two 1x1 targets for the adapted luminance (we read the previous frame from one and write to the other)
+    sampler: WebGLSampler; // A bilinear sampler for the HDR image
+    depthSampler: WebGLSampler; // A nearest sampler for the depth (depth textures can't be filtered)
+    fullscreen: FullscreenPass;
+    supported: boolean; // False if the device can't render to float textures (the pipeline is skipped and its controls are disabled)
+
+    operator: ToneMappingOperator = 'aces';
+    exposureMode: ExposureMode = 'auto';
+    exposure: number = 0; // In stops (each stop doubles the brightness), for the automatic exposure, it is added to the computed exposure
+    key: number = 0.18; // The automatic exposure maps the average luminance to this value (0.18 is middle grey)
+    adaptationSpeed: number = 1.5; // How fast the automatic exposure adapts to changes in brightness (higher is faster)
+    minLuminance: number = 0.03; // The automatic exposure won't brighten images darker than this
+    maxLuminance: number = 8; // or darken images brighter than this
+    whitePoint: number = 4; // The luminance that Reinhard's operator maps to white
+    srgb: boolean = true; // If true, the output is encoded with the sRGB transfer function
+
+    private adapted: number = 0; // The index of the adaptation target that has the latest adapted luminance
+    private adaptationValid: boolean = false; // The first measurement is used as is (there is nothing to adapt from)
+
+    // The size of the log luminance texture (the HDR image is downsampled to it before its mips are generated)
+    static readonly LuminanceSize = 256;
+
+    // The names shown for each option (can be used as the options of a Selector)
+    static readonly Operators: {[operator in ToneMappingOperator]: string} = {
+        none: 'None (Clip)',
+        reinhard: 'Reinhard',
+        aces: 'ACES Filmic',
+        uncharted2: 'Uncharted 2'
+    };
+    static readonly ExposureModes: {[mode in ExposureMode]: string} = {
+        manual: 'Manual',
+        auto: 'Automatic'
+    };
+
+    // Requests the shaders needed by the pipeline (call it from the "load" function of the scene)
+    public static load(loader: Loader){
+        loader.load({
+            ["hdr/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["hdr/luminance.frag"]:{url:'shaders/hdr/luminance.frag', type:'shader'},
+            ["hdr/adapt.frag"]:{url:'shaders/hdr/adapt.frag', type:'shader'},
+            ["hdr/tonemap.frag"]:{url:'shaders/hdr/tonemap.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the pipeline (see HDRPipeline.load)
+    constructor(gl: WebGL2RenderingContext, loader: Loader){
+        this.gl = gl;
+
+        this.supported = TextureUtils.IsFloatRenderable(gl, gl.RGBA16F);
+        if(!this.supported){
+            console.warn("The HDR pipeline needs to render to floating point textures but this device doesn't support it (EXT_color_buffer_float is missing), the scene will be drawn without tone mapping");
+            return;
+        }
+
+        this.shaders = new ShaderVariantCache(gl);
+        this.shaders.register('luminance', { vertex: loader.resources['hdr/fullscreen.vert'], fragment: loader.resources['hdr/luminance.frag'] });
+        this.shaders.register('adapt', { vertex: loader.resources['hdr/fullscreen.vert'], fragment: loader.resources['hdr/adapt.frag'] });
+        this.shaders.register('tonemap', { vertex: loader.resources['hdr/fullscreen.vert'], fragment: loader.resources['hdr/tonemap.frag'] });
+
+        // The depth is a texture so that effects that need it (e.g. depth of field) can read it
+        this.target = new RenderTarget(gl, [gl.drawingBufferWidth, gl.drawingBufferHeight], { color: [gl.RGBA16F], depth: gl.DEPTH_COMPONENT24 });
+        this.luminanceTarget = new RenderTarget(gl, [HDRPipeline.LuminanceSize, HDRPipeline.LuminanceSize], { color: [{ format: gl.R16F, levels: 0 }] });
+        this.adaptationTargets = [0, 1].map(() => new RenderTarget(gl, [1, 1], { color: [gl.R16F] }));
+
+        this.sampler = gl.createSampler();
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+
+        this.depthSampler = gl.createSampler();
+        gl.samplerParameteri(this.depthSampler, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.samplerParameteri(this.depthSampler, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+        this.fullscreen = new FullscreenPass(gl);
+    }
+
+    // Starts drawing the scene into the HDR target (the target is resized to match the canvas)
+    public begin(){
+        if(!this.supported) return;
+        this.target.resize([this.gl.drawingBufferWidth, this.gl.drawingBufferHeight]);
+        this.target.bind();
+    }
+
+    // Stops drawing into the HDR target and draws the tone mapped image to the frame buffer that was bound before "begin"
+    // The depth is copied too (so the frame buffer has the depth of the scene as if the scene was drawn directly to it)
+    // The delta time (in milliseconds) is used to adapt the automatic exposure
+    public end(deltaTime: number){
+        if(!this.supported) return;
+        this.target.unbind();
+
+        const gl = this.gl;
+        this.fullscreen.begin();
+        const depthFunc: number = gl.getParameter(gl.DEPTH_FUNC);
+        const depthMask: boolean = gl.getParameter(gl.DEPTH_WRITEMASK);
+
+        if(this.exposureMode == 'auto') this.measureLuminance(deltaTime);
+        else this.adaptationValid = false; // So that switching back to the automatic exposure starts from the current image
+
+        const program = this.shaders.getVariant('tonemap', { TONEMAP: this.operator, AUTO_EXPOSURE: this.exposureMode == 'auto', SRGB: this.srgb });
+        program.use();
+        this.bindTexture(0, this.target.colorTexture(), this.sampler);
+        program.setUniform1i('hdr', 0);
+        program.setUniform1f('exposure', this.exposure);
+        if(this.exposureMode == 'auto'){
+            this.bindTexture(1, this.adaptationTargets[this.adapted].colorTexture(), null);
+            program.setUniform1i('adapted_luminance', 1);
+            program.setUniform1f('key', this.key);
+        }
+        if(this.operator == 'reinhard') program.setUniform1f('white_point', this.whitePoint);
+        this.bindTexture(2, this.target.depthTexture, this.depthSampler);
+        program.setUniform1i('depth', 2);
+        // The depth is only written while the depth test is enabled, so we enable it with a test that always passes
+        gl.enable(gl.DEPTH_TEST);
+        gl.depthFunc(gl.ALWAYS);
+        gl.depthMask(true);
+        this.fullscreen.draw();
+        gl.disable(gl.DEPTH_TEST);
+        gl.depthFunc(depthFunc);
+        gl.depthMask(depthMask);
+
+        this.fullscreen.end();
+    }
+
+    // Finds the average luminance of the HDR image and moves the adapted luminance towards it
+    private measureLuminance(deltaTime: number){
+        const gl = this.gl;
+
+        // Downsample the log luminance into a square texture then average it using the mip chain
+        const luminanceProgram = this.shaders.getVariant('luminance');
+        luminanceProgram.use();
+        this.bindTexture(0, this.target.colorTexture(), this.sampler);
+        luminanceProgram.setUniform1i('hdr', 0);
+        this.luminanceTarget.bind();
+        this.fullscreen.draw();
+        this.luminanceTarget.unbind();
+        const logLuminance = this.luminanceTarget.colorTexture();
+        gl.bindTexture(gl.TEXTURE_2D, logLuminance);
+        gl.generateMipmap(gl.TEXTURE_2D);
+
+        // Blend the previous adapted luminance with the new average (an exponential decay so the result doesn't depend on the frame rate)
+        const previous = this.adaptationTargets[this.adapted];
+        const next = this.adaptationTargets[1 - this.adapted];
+        const adaptProgram = this.shaders.getVariant('adapt');
+        adaptProgram.use();
+        this.bindTexture(0, logLuminance, null);
+        adaptProgram.setUniform1i('log_luminance', 0);
+        this.bindTexture(1, previous.colorTexture(), null);
+        adaptProgram.setUniform1i('previous', 1);
+        adaptProgram.setUniform1f('last_level', Math.log2(HDRPipeline.LuminanceSize));
+        adaptProgram.setUniform1f('blend', this.adaptationValid ? 1 - Math.exp(-this.adaptationSpeed * deltaTime / 1000) : 1);
+        adaptProgram.setUniform1f('min_luminance', this.minLuminance);
+        adaptProgram.setUniform1f('max_luminance', this.maxLuminance);
+        next.bind();
+        this.fullscreen.draw();
+        next.unbind();
+        this.adapted = 1 - this.adapted;
+        this.adaptationValid = true;
+    }
+
+    private bindTexture(unit: number, texture: WebGLTexture, sampler: WebGLSampler){
+        this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+        this.gl.bindSampler(unit, sampler);
+    }
+
+    // The rows of controls for the tone mapping and the exposure (the scenes that use the pipeline add them to their controls)
+    // They are disabled if the pipeline is not supported
+    public controls(): HTMLElement[] {
+        const disabled = this.supported ? undefined : true; // (like "checked", the attribute is only left out when undefined)
+        return [
+            <div className="control-row">
+                <label className="control-label">Tone Mapping</label>
+                <Selector options={HDRPipeline.Operators} value={this.operator} disabled={disabled} onchange={(v)=>{ this.operator = v; }}/>
+                <CheckBox value={this.srgb} disabled={disabled} onchange={(v)=>{ this.srgb = v; }}/>
+                <label className="control-label">sRGB Output</label>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Exposure</label>
+                <Selector options={HDRPipeline.ExposureModes} value={this.exposureMode} disabled={disabled} onchange={(v)=>{ this.exposureMode = v; }}/>
+                <NumberInput value={this.exposure} disabled={disabled} onchange={(v)=>{ this.exposure = v; }}/>
+                <label className="control-label">Adaptation Speed</label>
+                <NumberInput value={this.adaptationSpeed} disabled={disabled} onchange={(v)=>{ this.adaptationSpeed = v; }}/>
+            </div>
+        ];
+    }
+
+    public dispose(){
+        if(!this.supported) return;
+        this.shaders.dispose();
+        this.target.dispose();
+        this.luminanceTarget.dispose();
+        this.adaptationTargets.forEach(target => target.dispose());
+        this.gl.deleteSampler(this.sampler);
+        this.gl.deleteSampler(this.depthSampler);
+        this.fullscreen.dispose();
+    }
+}
@@ -0,0 +1,252 @@
+import Camera from './camera';
+import ShaderProgram from './shader-program';
+import UniformBuffer, { UniformBlockSchema } from './uniform-buffer';
+import { Light, PointLight, SpotLight, LightRadius } from './lights';
+import { vec3, vec4 } from 'gl-matrix';
+
+// This file contains the light clustering used by clustered forward shading
+// Forward shaders usually loop over a fixed array of lights (e.g. NUM_POINT_LIGHTS in multiple-lights/lights.frag) so every pixel pays for every light
+// Instead, we split the view frustum into a grid of clusters (also called froxels: frustum voxels) and on the CPU we find the lights that can reach each cluster
+// Then each pixel finds its cluster and only loops over the lights in it
+// The grid is split evenly on the screen (x and y) and exponentially along the depth (z) so that the near clusters (which are small on the screen) are not too long
+// The data is sent to the shaders in textures (see common/clustered-lights.glsl):
+// - The light texture (RGBA32F) has a row for each light and 4 texels per row (see LightTexelsPerLight)
+// - The cluster texture (RG32UI) has a texel for each cluster with the offset and the count of its lights in the index texture
+// - The index texture (R32UI) holds the light indices of all the clusters one after the other
+// The grid parameters are stored in a uniform block
+
+type Dimensions = [number, number, number];
+
+export interface LightClustersOptions {
+    dimensions?: Dimensions, // The number of clusters along x, y and z
+    maxLights?: number // The maximum number of point and spot lights that can be clustered
+};
+
+// The result of assigning the lights to the clusters
+export interface ClusterAssignment {
+    lights: (PointLight | SpotLight)[], // The clustered lights (the indices refer to this list)
+    radii: number[], // The radius of each light
+    offsets: Uint32Array, // For each cluster: the offset of its first light index and the number of lights (2 values per cluster)
+    indices: Uint32Array // The light indices of all the clusters
+};
+
+// The index of a cluster in the cluster list (x first, then y then z)
+export function ClusterIndex(dimensions: Dimensions, x: number, y: number, z: number): number {
+    return x + dimensions[0] * (y + dimensions[1] * z);
+}
+
+// The slice that contains the given depth (it is not clamped to the grid)
+// For perspective cameras, the slices are exponential (each slice is longer than the one before it by the same factor), otherwise they are uniform
+export function DepthSlice(camera: Camera, slices: number, depth: number): number {
+    if(camera.type == 'perspective') return Math.floor(Math.log(depth / camera.near) / Math.log(camera.far / camera.near) * slices);
+    return Math.floor((depth - camera.near) / (camera.far - camera.near) * slices);
+}
+
+// Finds the clusters that each point or spot light can reach
+// Each light is treated as a sphere (the radius is where its intensity drops below the threshold) and we find the box of clusters that contains it
+// This is conservative (some clusters in the corners of the box don't really touch the sphere) but it is simple and the shader discards them using the radius anyway
+export function AssignLights(camera: Camera, lights: Light[], dimensions: Dimensions, threshold: number, maxLights: number = Infinity): ClusterAssignment {
+    const [countX, countY, countZ] = dimensions;
+    const clusterCount = countX * countY * countZ;
+    const V = camera.ViewMatrix, P = camera.ProjectionMatrix;
+    const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+
+    const clustered: (PointLight | SpotLight)[] = [];
+    const radii: number[] = [];
+    const boxes: number[][] = []; // [minX, maxX, minY, maxY, minZ, maxZ] for each clustered light
+    const counts = new Uint32Array(clusterCount);
+
+    for(const light of lights){
+        if(!light.enabled || (light.type != 'point' && light.type != 'spot')) continue;
+        if(clustered.length >= maxLights){
+            console.warn(`Only ${maxLights} lights can be clustered, the rest are ignored`);
+            break;
+        }
+        const radius = LightRadius(light, threshold);
+        if(radius <= 0) continue;
+
+        // Move the light to the view space where the camera looks along -z
+        const center = vec3.transformMat4(vec3.create(), light.position, V);
+        const depth = -center[2];
+        if(depth + radius < camera.near || depth - radius > camera.far) continue; // The light is closer than the near plane (behind the camera) or farther than the far plane
+
+        const minZ = clamp(DepthSlice(camera, countZ, Math.max(camera.near, depth - radius)), countZ - 1);
+        const maxZ = clamp(DepthSlice(camera, countZ, Math.min(camera.far, depth + radius)), countZ - 1);
+
+        // To find the clusters on the screen, we project the corners of the box around the sphere and take their bounds
+        // If the sphere crosses the near plane, some corners would be behind the camera so we just use the whole screen
+        let minX = 0, maxX = countX - 1, minY = 0, maxY = countY - 1;
+        if(isFinite(radius) && depth - radius > camera.near){
+            let left = Infinity, right = -Infinity, bottom = Infinity, top = -Infinity;
+            for(const dx of [-radius, radius]) for(const dy of [-radius, radius]) for(const dz of [-radius, radius]){
+                const corner = vec4.transformMat4(vec4.create(), [center[0] + dx, center[1] + dy, center[2] + dz, 1], P);
+                const x = corner[0] / corner[3], y = corner[1] / corner[3];
+                left = Math.min(left, x); right = Math.max(right, x);
+                bottom = Math.min(bottom, y); top = Math.max(top, y);
+            }
+            if(right < -1 || left > 1 || top < -1 || bottom > 1) continue; // The light is outside the screen
+            minX = clamp(Math.floor((0.5 * left + 0.5) * countX), countX - 1);
+            maxX = clamp(Math.floor((0.5 * right + 0.5) * countX), countX - 1);
+            minY = clamp(Math.floor((0.5 * bottom + 0.5) * countY), countY - 1);
+            maxY = clamp(Math.floor((0.5 * top + 0.5) * countY), countY - 1);
+        }
+
+        clustered.push(light);
+        radii.push(radius);
+        boxes.push([minX, maxX, minY, maxY, minZ, maxZ]);
+        for(let z = minZ; z <= maxZ; z++) for(let y = minY; y <= maxY; y++) for(let x = minX; x <= maxX; x++)
+            counts[ClusterIndex(dimensions, x, y, z)]++;
+    }
+
+    // Now that we know how many lights each cluster has, we can give each cluster a range in the index list (a prefix sum of the counts)
+    const offsets = new Uint32Array(2 * clusterCount);
+    let total = 0;
+    for(let cluster = 0; cluster < clusterCount; cluster++){
+        offsets[2 * cluster] = total;
+        total += counts[cluster];
+    }
+    // Then we fill the ranges (the count of each cluster is increased as we add its lights)
+    const indices = new Uint32Array(total);
+    boxes.forEach(([minX, maxX, minY, maxY, minZ, maxZ], light) => {
+        for(let z = minZ; z <= maxZ; z++) for(let y = minY; y <= maxY; y++) for(let x = minX; x <= maxX; x++){
+            const cluster = ClusterIndex(dimensions, x, y, z);
+            indices[offsets[2 * cluster] + offsets[2 * cluster + 1]++] = light;
+        }
+    });
+
+    return { lights: clustered, radii, offsets, indices };
+}
+
+export default class LightClusters {
+    gl: WebGL2RenderingContext;
+    dimensions: Dimensions;
+    maxLights: number;
+    lightThreshold: number = 1/256; // The light intensity below which a light is ignored (this defines the light radius)
+
+    lightTexture: WebGLTexture;
+    clusterTexture: WebGLTexture;
+    indexTexture: WebGLTexture;
+    buffer: UniformBuffer; // The grid parameters (see LightClusters.Schema)
+
+    assignment: ClusterAssignment = null; // The result of the last update (can be used to show statistics)
+
+    private lightData: Float32Array;
+
+    static readonly DefaultDimensions: Dimensions = [16, 9, 24];
+    static readonly LightTexelsPerLight = 4;
+    static readonly IndexTextureWidth = 1024; // The index list is stored in rows of this width since the texture width is limited
+
+    // The layout of the uniform block in common/clustered-lights.glsl
+    static readonly Schema: UniformBlockSchema = {
+        cluster_counts: 'ivec3',
+        logarithmic_depth: 'bool',
+        view_forward: 'vec3',
+        depth_scale: 'float',
+        depth_bias: 'float',
+        screen_size: 'vec2'
+    };
+
+    constructor(gl: WebGL2RenderingContext, options: LightClustersOptions = {}){
+        this.gl = gl;
+        this.dimensions = options.dimensions ?? LightClusters.DefaultDimensions;
+        this.maxLights = options.maxLights ?? 1024;
+        this.lightData = new Float32Array(this.maxLights * LightClusters.LightTexelsPerLight * 4);
+
+        const [countX, countY, countZ] = this.dimensions;
+        this.lightTexture = LightClusters.createTexture(gl, gl.RGBA32F, LightClusters.LightTexelsPerLight, this.maxLights);
+        this.clusterTexture = LightClusters.createTexture(gl, gl.RG32UI, countX * countY, countZ);
+        this.indexTexture = gl.createTexture(); // The size of the index texture changes every frame so it is allocated in "update"
+
+        this.buffer = new UniformBuffer(gl, LightClusters.Schema);
+    }
+
+    // Float and integer textures can't be filtered so we must use NEAREST (otherwise they will be incomplete and read as 0)
+    private static createTexture(gl: WebGL2RenderingContext, format: number, width: number, height: number): WebGLTexture {
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texStorage2D(gl.TEXTURE_2D, 1, format, width, height);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        return texture;
+    }
+
+    public dispose(){
+        this.gl.deleteTexture(this.lightTexture);
+        this.gl.deleteTexture(this.clusterTexture);
+        this.gl.deleteTexture(this.indexTexture);
+        this.buffer.dispose();
+    }
+
+    // Assigns the lights to the clusters of the camera frustum and uploads the result (call it once per frame after moving the camera and the lights)
+    // The screen size is the size of the viewport we will draw to
+    public update(camera: Camera, lights: Light[], screenSize: [number, number]){
+        const gl = this.gl;
+        const assignment = AssignLights(camera, lights, this.dimensions, this.lightThreshold, this.maxLights);
+        this.assignment = assignment;
+
+        // Pack the light data (4 texels per light):
+        // 0: color, type (0 = point, 1 = spot)
+        // 1: position, radius
+        // 2: direction, cos(inner_cone)
+        // 3: attenuation (quadratic, linear, constant), cos(outer_cone)
+        const data = this.lightData;
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false); // The image loaders flip the rows but our data is not an image
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+        assignment.lights.forEach((light, index) => {
+            const offset = index * LightClusters.LightTexelsPerLight * 4;
+            const spot = light.type == 'spot';
+            const direction = spot ? vec3.normalize(vec3.create(), (light as SpotLight).direction) : [0, 0, 0];
+            const radius = assignment.radii[index];
+            data.set([
+                light.color[0], light.color[1], light.color[2], spot ? 1 : 0,
+                light.position[0], light.position[1], light.position[2], isFinite(radius) ? radius : 1e30, // A huge radius disables the fade out in the shader
+                direction[0], direction[1], direction[2], spot ? Math.cos((light as SpotLight).inner_cone) : 0,
+                light.attenuation_quadratic, light.attenuation_linear, light.attenuation_constant, spot ? Math.cos((light as SpotLight).outer_cone) : 0
+            ], offset);
+        });
+        if(assignment.lights.length > 0){
+            gl.bindTexture(gl.TEXTURE_2D, this.lightTexture);
+            gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, LightClusters.LightTexelsPerLight, assignment.lights.length, gl.RGBA, gl.FLOAT, data, 0);
+        }
+
+        const [countX, countY, countZ] = this.dimensions;
+        gl.bindTexture(gl.TEXTURE_2D, this.clusterTexture);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, countX * countY, countZ, gl.RG_INTEGER, gl.UNSIGNED_INT, assignment.offsets);
+
+        // The index list is reshaped into rows (the last row is padded with zeros)
+        const width = LightClusters.IndexTextureWidth;
+        const height = Math.max(1, Math.ceil(assignment.indices.length / width));
+        const indices = new Uint32Array(width * height);
+        indices.set(assignment.indices);
+        gl.bindTexture(gl.TEXTURE_2D, this.indexTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32UI, width, height, 0, gl.RED_INTEGER, gl.UNSIGNED_INT, indices);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+        // The shader computes the slice from the depth as: floor(f(depth) * depth_scale + depth_bias) where f is log for perspective cameras (see DepthSlice)
+        const logarithmic = camera.type == 'perspective';
+        const [near, far] = logarithmic ? [Math.log(camera.near), Math.log(camera.far)] : [camera.near, camera.far];
+        this.buffer.setValues({
+            cluster_counts: this.dimensions,
+            logarithmic_depth: logarithmic,
+            view_forward: vec3.normalize(vec3.create(), camera.direction),
+            depth_scale: countZ / (far - near),
+            depth_bias: -countZ * near / (far - near),
+            screen_size: screenSize
+        });
+        this.buffer.upload();
+    }
+
+    // Binds the textures to the given texture units (3 units starting from firstUnit) and connects the uniform block of the program
+    public bind(program: ShaderProgram, firstUnit: number){
+        const gl = this.gl;
+        [this.lightTexture, this.clusterTexture, this.indexTexture].forEach((texture, index) => {
+            gl.activeTexture(gl.TEXTURE0 + firstUnit + index);
+            gl.bindTexture(gl.TEXTURE_2D, texture);
+            gl.bindSampler(firstUnit + index, null);
+        });
+        // Some variants don't read all the textures (e.g. the heatmap doesn't need the light data) so we skip the uniforms that were removed by the compiler
+        ['cluster_lights', 'cluster_ranges', 'cluster_indices'].forEach((name, index) => { if(program.hasUniform(name)) program.setUniform1i(name, firstUnit + index); });
+        program.bindUniformBlock('Clusters', this.buffer);
+    }
+}
@@ -0,0 +1,56 @@
+import { vec3 } from 'gl-matrix';
+
+// This file contains the light types shared by the renderers (see deferred-renderer.ts and light-clusters.ts)
+// They are the same as the ones in the multi-pass scenes (shadows are not supported yet)
+
+export interface AmbientLight {
+    type: 'ambient',
+    enabled: boolean,
+    skyColor: vec3,
+    groundColor: vec3,
+    skyDirection: vec3
+};
+
+export interface DirectionalLight {
+    type: 'directional',
+    enabled: boolean,
+    color: vec3,
+    direction: vec3
+};
+
+export interface PointLight {
+    type: 'point',
+    enabled: boolean,
+    color: vec3,
+    position: vec3,
+    attenuation_quadratic: number,
+    attenuation_linear: number,
+    attenuation_constant: number
+};
+
+export interface SpotLight {
+    type: 'spot',
+    enabled: boolean,
+    color: vec3,
+    position: vec3,
+    direction: vec3,
+    attenuation_quadratic: number,
+    attenuation_linear: number,
+    attenuation_constant: number,
+    inner_cone: number,
+    outer_cone: number
+};
+
+// This union type: it can be any of the specified types
+export type Light = AmbientLight | DirectionalLight | PointLight | SpotLight;
+
+// The distance at which the light intensity drops below the threshold (Infinity if the light never fades out)
+// We solve: intensity / (constant + linear * d + quadratic * d^2) = threshold
+export function LightRadius(light: PointLight | SpotLight, threshold: number): number {
+    const intensity = Math.max(light.color[0], light.color[1], light.color[2]);
+    const a = light.attenuation_quadratic, b = light.attenuation_linear, c = light.attenuation_constant - intensity / threshold;
+    if(c >= 0) return 0; // The light is below the threshold everywhere
+    if(a > 0) return (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+    if(b > 0) return -c / b;
+    return Infinity;
+}
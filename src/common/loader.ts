@@ -1,20 +1,27 @@
 import { reject, resolve } from "q";
+import { LoadShaderSource } from './shader-preprocessor';
+import { DecodeRGBE } from './rgbe';
 
 export interface ResourceInfo {
     url: string,
-    type: 'text' | 'json' | 'image',
+    type: 'text' | 'json' | 'image' | 'shader' | 'arraybuffer' | 'hdr',
     success?: (name: string, data: any, resource: ResourceInfo, loader: Loader)=>void
     failure?: (name: string, resource: ResourceInfo, loader: Loader)=>void
 };
 
+// The request options (init) are used when reloading to skip the browser cache
 const loadFunctions = {
-    'text': async (url: string): Promise<any> => {
-        let response = await fetch(url);
+    'text': async (url: string, init?: RequestInit): Promise<any> => {
+        let response = await fetch(url, init);
         let data = await response.text();
         return data;
     },
-    'json': async (url: string): Promise<any> => {
-        let response = await fetch(url);
+    // A shader is read as text together with all the files it includes (see shader-preprocessor.ts)
+    'shader': async (url: string, init?: RequestInit): Promise<any> => {
+        return LoadShaderSource(url, (url) => loadFunctions['text'](url, init));
+    },
+    'json': async (url: string, init?: RequestInit): Promise<any> => {
+        let response = await fetch(url, init);
         let data = await response.json();
         return data;
     },
@@ -26,6 +33,17 @@ const loadFunctions = {
             image.onerror = reject;
             image.src = url;
         });
+    },
+    // Binary files are read as an ArrayBuffer (the scene decodes them however it needs)
+    'arraybuffer': async (url: string, init?: RequestInit): Promise<any> => {
+        let response = await fetch(url, init);
+        if(!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        let data = await response.arrayBuffer();
+        return data;
+    },
+    // A Radiance HDR image (.hdr) is read as binary data and decoded into floats (see rgbe.ts)
+    'hdr': async (url: string, init?: RequestInit): Promise<any> => {
+        return DecodeRGBE(await loadFunctions['arraybuffer'](url, init));
     }
 }
 
@@ -34,16 +52,22 @@ const loadFunctions = {
 // This class is a work in progress so expect it to be enhanced in future labs
 export default class Loader {
     resources: {[name: string]:any};
+    infos: {[name: string]:ResourceInfo}; // The information used to load each resource (needed to reload it)
     promises: Promise<void>[];
 
+    // Only the resources read as text (or parsed from text) can be reloaded
+    static readonly ReloadableTypes: ResourceInfo['type'][] = ['text', 'json', 'shader'];
+
     public constructor(){ 
         this.resources = {}
+        this.infos = {};
         this.promises = [];
     }
 
     public load(resources: {[name:string]:ResourceInfo}){
         for(let name in resources){
             let resource = resources[name];
+            this.infos[name] = resource;
             let promise = loadFunctions[resource.type](resource.url)
             .then(
                 data => {
@@ -60,9 +84,46 @@ export default class Loader {
         }
     }
 
+    // Fetches the given resources again from the webserver (bypassing the browser cache)
+    // Shader sources are updated in place so that everything holding them (e.g. ShaderProgram.rebuild) sees the new code
+    // The success callbacks are not called again and if a resource fails to load, its old data is kept
+    public reload(...resources: string[]): Promise<void> {
+        const promises: Promise<void>[] = [];
+        for(let name of resources){
+            let resource = this.infos[name];
+            if(resource === undefined || !(name in this.resources)){
+                console.warn(`Can't reload ${name} since it was not loaded`);
+                continue;
+            }
+            if(!Loader.ReloadableTypes.includes(resource.type)){
+                console.warn(`Can't reload ${name} since resources of type "${resource.type}" can't be reloaded`);
+                continue;
+            }
+            promises.push(loadFunctions[resource.type](resource.url, { cache: 'no-cache' })
+            .then(
+                data => {
+                    const old = this.resources[name];
+                    if(resource.type == 'shader' && old) old.files = data.files;
+                    else this.resources[name] = data;
+                }
+            ).catch(
+                reason => {
+                    console.error(`Failed to reload ${name}: ${reason}`);
+                }
+            ));
+        }
+        return Promise.all(promises).then(() => {});
+    }
+
+    // Returns the names of the loaded resources with the given type
+    public resourcesOfType(type: ResourceInfo['type']): string[] {
+        return Object.keys(this.resources).filter(name => this.infos[name]?.type === type);
+    }
+
     public unload(...resources: string[]){
         for(let name of resources){
             delete this.resources[name];
+            delete this.infos[name];
         }
     }
 
@@ -70,6 +131,7 @@ export default class Loader {
         for(let name in this.resources){
             delete this.resources[name];
         }
+        this.infos = {};
     }
 
     public async wait(){
@@ -1,5 +1,6 @@
 import Mesh from './mesh';
 import * as OBJ from 'webgl-obj-loader';
+import { vec3, mat4 } from 'gl-matrix';
 
 // This file contain some helper classes to create simple meshes
 
@@ -48,6 +49,7 @@ export function Plane(gl: WebGL2RenderingContext, texCoords: {min:[number, numbe
         0, 1, 2,
         2, 3, 0
     ]), gl.STATIC_DRAW);
+    mesh.setBounds([-1, 0, -1], [1, 0, 1]);
     return mesh
 }
 
@@ -79,6 +81,7 @@ export function SubdividedPlane(gl: WebGL2RenderingContext, resolution: number |
     mesh.setBufferData("texcoords", new Float32Array(texcoords), gl.STATIC_DRAW);
     mesh.setBufferData("normals", new Float32Array(normals), gl.STATIC_DRAW);
     mesh.setElementsData(new Uint32Array(indices), gl.STATIC_DRAW);
+    mesh.computeBounds(positions);
     return mesh
 }
 
@@ -208,6 +211,7 @@ export function Cube(gl: WebGL2RenderingContext): Mesh {
         //Back Face
         20, 21, 22, 22, 23, 20, 
     ]), gl.STATIC_DRAW);
+    mesh.setBounds([-1, -1, -1], [1, 1, 1]);
     return mesh;
 }
 
@@ -241,9 +245,50 @@ export function Sphere(gl: WebGL2RenderingContext, resolution: number | [number,
     mesh.setBufferData("texcoords", new Float32Array(texcoords), gl.STATIC_DRAW);
     mesh.setBufferData("normals", new Float32Array(normals), gl.STATIC_DRAW);
     mesh.setElementsData(new Uint32Array(indices), gl.STATIC_DRAW);
+    mesh.computeBounds(positions);
     return mesh
 }
 
+// A square pyramid (the base is the bottom face of the cube and the apex is the center of its top face)
+// Every face has its own flat normal so no vertex is shared between faces and the mesh has no elements (its vertices are drawn in order with drawArrays)
+// It has 2 submeshes: the 4 sides (the slot "sides") then the base (the slot "base")
+export function Pyramid(gl: WebGL2RenderingContext): Mesh {
+    const corners = [[-1, -1, 1], [1, -1, 1], [1, -1, -1], [-1, -1, -1]];
+    const apex = [0, 1, 0];
+    let positions = [], colors = [], texcoords = [], normals = [];
+    const addTriangle = (vertices: number[][], uvs: number[][]) => {
+        const [a, b, c] = vertices.map(vertex => vec3.fromValues(vertex[0], vertex[1], vertex[2]));
+        const normal = vec3.cross(vec3.create(), vec3.sub(vec3.create(), b, a), vec3.sub(vec3.create(), c, a));
+        vec3.normalize(normal, normal);
+        for(let i = 0; i < 3; i++){
+            positions.push(...vertices[i]);
+            colors.push(...WHITE);
+            texcoords.push(...uvs[i]);
+            normals.push(...normal);
+        }
+    };
+    for(let i = 0; i < 4; i++){
+        addTriangle([corners[i], corners[(i + 1) % 4], apex], [[0, 0], [1, 0], [0.5, 1]]);
+    }
+    const baseUV = (corner: number[]) => [(corner[0] + 1) / 2, (corner[2] + 1) / 2];
+    addTriangle([corners[0], corners[3], corners[2]], [baseUV(corners[0]), baseUV(corners[3]), baseUV(corners[2])]);
+    addTriangle([corners[2], corners[1], corners[0]], [baseUV(corners[2]), baseUV(corners[1]), baseUV(corners[0])]);
+    let mesh = createEmptyMesh(gl);
+    mesh.setBufferData("positions", new Float32Array(positions), gl.STATIC_DRAW);
+    mesh.setBufferData("colors", new Uint8Array(colors), gl.STATIC_DRAW);
+    mesh.setBufferData("texcoords", new Float32Array(texcoords), gl.STATIC_DRAW);
+    mesh.setBufferData("normals", new Float32Array(normals), gl.STATIC_DRAW);
+    mesh.vertexCount = positions.length / 3;
+    mesh.submeshes = [
+        { first: 0, count: 12, material: "sides" },
+        { first: 12, count: 6, material: "base" }
+    ];
+    mesh.setBounds([-1, -1, -1], [1, 1, 1]);
+    return mesh;
+}
+
+// Each "usemtl" group of the OBJ file becomes a submesh whose material slot is the material name (the faces before any "usemtl" join the first group)
+// A file without "usemtl" lines is one submesh with the slot "default"
 export function LoadOBJMesh(gl: WebGL2RenderingContext, data: string){
     let obj = new OBJ.Mesh(data);
     let mesh = createEmptyMesh(gl);
@@ -253,6 +298,55 @@ export function LoadOBJMesh(gl: WebGL2RenderingContext, data: string){
     let colors = new Uint8Array(obj.vertices.length * 4 / 3);
     colors.fill(255);
     mesh.setBufferData("colors", colors, gl.STATIC_DRAW);
-    mesh.setElementsData(new Uint32Array(obj.indices), gl.STATIC_DRAW);
+    // The loader keeps the indices of each material apart (and "indices" only holds the last group) so we put the groups one after the other
+    let indices: number[] = [];
+    obj.indicesPerMaterial.forEach((group, index) => {
+        if(group.length == 0) return;
+        mesh.submeshes.push({ first: indices.length, count: group.length, material: obj.materialNames[index] ?? "default" });
+        indices = indices.concat(group);
+    });
+    mesh.setElementsData(new Uint32Array(indices), gl.STATIC_DRAW);
+    mesh.computeBounds(obj.vertices);
+    return mesh;
+}
+
+// The data of one instance of an instanced mesh: its model matrix (relative to the model matrix of the object) and a tint that multiplies its albedo
+export interface Instance {
+    matrix: mat4,
+    tint: vec3
+}
+
+// The per instance attributes follow the vertex attributes: the model matrix takes the locations 4 to 7 (a mat4 attribute is read as 4 vec4 columns) and the tint takes the location 8
+// Both are interleaved in one buffer (16 + 3 floats for each instance)
+const INSTANCE_FLOATS = 19;
+
+// Creates a mesh that draws the vertices of the source mesh once for each instance (use drawInstanced with the instance count)
+// The vertex buffers are shared with the source mesh (so it must not be disposed before this one) and only the instance buffer is new
+// The bounds cover every instance so the whole group can be culled as one object
+export function InstancedMesh(gl: WebGL2RenderingContext, source: Mesh, instances: Instance[]): Mesh {
+    const stride = INSTANCE_FLOATS * 4;
+    let mesh = new Mesh(gl, [
+        ...source.descriptors,
+        ...[0, 1, 2, 3].map((column) => ({ attributeLocation: 4 + column, buffer: "instances", size: 4, type: gl.FLOAT, normalized: false, stride, offset: 16 * column, divisor: 1 })),
+        { attributeLocation: 8, buffer: "instances", size: 3, type: gl.FLOAT, normalized: false, stride, offset: 64, divisor: 1 }
+    ], source);
+    let data = new Float32Array(instances.length * INSTANCE_FLOATS);
+    instances.forEach((instance, i) => {
+        data.set(instance.matrix, i * INSTANCE_FLOATS);
+        data.set(instance.tint, i * INSTANCE_FLOATS + 16);
+    });
+    mesh.setBufferData("instances", data, gl.STATIC_DRAW);
+    if(source.bounds && instances.length > 0){
+        // The corners of the source box moved by each instance matrix
+        const corners: number[] = [];
+        const {min, max} = source.bounds;
+        for(const instance of instances){
+            for(let corner = 0; corner < 8; corner++){
+                const point = vec3.fromValues(corner & 1 ? max[0] : min[0], corner & 2 ? max[1] : min[1], corner & 4 ? max[2] : min[2]);
+                corners.push(...vec3.transformMat4(point, point, instance.matrix));
+            }
+        }
+        mesh.computeBounds(corners);
+    }
     return mesh;
-}
\ No newline at end of file
+}
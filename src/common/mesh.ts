@@ -1,4 +1,5 @@
 //This file contains a Mesh class (used to store Vertices and how to draw them)
+import { vec3 } from 'gl-matrix';
 
 // This is an interface to a vertex attribute descriptor in which we will describe how to read the data from the buffers
 export interface VertexDescriptor {
@@ -8,7 +9,25 @@ export interface VertexDescriptor {
     type: number,
     normalized: boolean,
     stride: number,
-    offset: number
+    offset: number,
+    divisor?: number // If more than 0, the attribute advances once every "divisor" instances instead of once every vertex (per instance data, see drawInstanced)
+}
+
+// The bounding volumes of a mesh in its local space (used to skip the objects that are outside the view, see Frustum)
+// The box is tight but a sphere is cheaper to test so the sphere is tested first
+export interface Bounds {
+    min: vec3,
+    max: vec3,
+    center: vec3,
+    radius: number
+}
+
+// A part of the mesh that is drawn with its own material: a range of elements (or vertices for meshes without elements)
+// The material is a slot name (e.g. the "usemtl" name of an OBJ file) and the scene decides which material fills each slot
+export interface Submesh {
+    first: number,
+    count: number,
+    material: string
 }
 
 export default class Mesh {
@@ -17,18 +36,44 @@ export default class Mesh {
     VBOs: {[name: string]: WebGLBuffer};
     EBO: WebGLBuffer;
     VAO: WebGLVertexArrayObject;
-    elementCount: number;
+    elementCount: number = 0;
     elementType: number;
+    vertexCount: number = 0; // A mesh without elements draws this many vertices in order (set it after filling the vertex buffers)
+    submeshes: Submesh[] = []; // A mesh without submeshes is drawn as one part
+    bounds: Bounds = null; // A mesh without bounds is never culled
+
+    // The buffers owned by another mesh (see the constructor) which dispose should not delete
+    private sharedBuffers: Set<string> = new Set();
+    private sharedElements: boolean = false;
 
     // The constructor takes a WebGL context and a list of vertex attribute descriptors
     // It will get all the buffer names and create them then it will build the Vertex Array to read the attributes from them
-    constructor(gl: WebGL2RenderingContext, descriptors: VertexDescriptor[]){
+    // If a source mesh is given, the new mesh reads the buffers of the source that have the same names and its elements (e.g. to add per instance buffers to a loaded model)
+    // The source still owns those buffers so it must outlive the new mesh
+    constructor(gl: WebGL2RenderingContext, descriptors: VertexDescriptor[], source?: Mesh){
         this.gl = gl;
         this.descriptors = descriptors;
         this.VBOs = {};
         const bufferNames = Array.from(new Set(descriptors.map((desc)=>desc.buffer)));
-        for(const bufferName of bufferNames) this.VBOs[bufferName] = this.gl.createBuffer();
-        this.EBO = this.gl.createBuffer();
+        for(const bufferName of bufferNames){
+            if(source && bufferName in source.VBOs){
+                this.VBOs[bufferName] = source.VBOs[bufferName];
+                this.sharedBuffers.add(bufferName);
+            } else {
+                this.VBOs[bufferName] = this.gl.createBuffer();
+            }
+        }
+        if(source){
+            this.EBO = source.EBO;
+            this.elementCount = source.elementCount;
+            this.elementType = source.elementType;
+            this.vertexCount = source.vertexCount;
+            this.submeshes = source.submeshes;
+            this.bounds = source.bounds;
+            this.sharedElements = true;
+        } else {
+            this.EBO = this.gl.createBuffer();
+        }
         this.VAO = this.gl.createVertexArray();
 
         this.gl.bindVertexArray(this.VAO);
@@ -36,6 +81,7 @@ export default class Mesh {
             this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.VBOs[descriptor.buffer]);
             this.gl.enableVertexAttribArray(descriptor.attributeLocation);
             this.gl.vertexAttribPointer(descriptor.attributeLocation, descriptor.size, descriptor.type, descriptor.normalized, descriptor.stride, descriptor.offset);
+            this.gl.vertexAttribDivisor(descriptor.attributeLocation, descriptor.divisor ?? 0);
         }
         this.gl.bindBuffer(this.gl.ELEMENT_ARRAY_BUFFER, this.EBO);
         this.gl.bindVertexArray(null);
@@ -44,8 +90,8 @@ export default class Mesh {
     // Just a dispose variable to free memory
     public dispose(){
         this.gl.deleteVertexArray(this.VAO);
-        this.gl.deleteBuffer(this.EBO);
-        for(let bufferName in this.VBOs) this.gl.deleteBuffer(this.VBOs[bufferName]);
+        if(!this.sharedElements) this.gl.deleteBuffer(this.EBO);
+        for(let bufferName in this.VBOs) if(!this.sharedBuffers.has(bufferName)) this.gl.deleteBuffer(this.VBOs[bufferName]);
         this.VBOs = null;
     }
 
@@ -70,10 +116,65 @@ export default class Mesh {
         else if(bufferData instanceof Uint32Array) this.elementType = this.gl.UNSIGNED_INT;
     }
 
+    // Computes the bounds from the vertex positions (every "components" numbers is a vertex and the first 3 are its position)
+    // The sphere is centered on the box and its radius reaches the farthest vertex which is tighter than the half diagonal of the box
+    public computeBounds(positions: ArrayLike<number>, components: number = 3){
+        const min = vec3.fromValues(Infinity, Infinity, Infinity), max = vec3.fromValues(-Infinity, -Infinity, -Infinity);
+        for(let i = 0; i + 2 < positions.length; i += components){
+            for(let j = 0; j < 3; j++){
+                min[j] = Math.min(min[j], positions[i + j]);
+                max[j] = Math.max(max[j], positions[i + j]);
+            }
+        }
+        if(min[0] > max[0]){ this.bounds = null; return; } // No vertices
+        const center = vec3.lerp(vec3.create(), min, max, 0.5);
+        let radius = 0;
+        for(let i = 0; i + 2 < positions.length; i += components){
+            radius = Math.max(radius, Math.hypot(positions[i] - center[0], positions[i + 1] - center[1], positions[i + 2] - center[2]));
+        }
+        this.bounds = { min, max, center, radius };
+    }
+
+    // Sets the bounds to a box (for meshes whose extents are known without reading the vertices)
+    public setBounds(min: vec3 | [number, number, number], max: vec3 | [number, number, number]){
+        const center = vec3.lerp(vec3.create(), min, max, 0.5);
+        this.bounds = { min: vec3.clone(min), max: vec3.clone(max), center, radius: vec3.distance(center, max) };
+    }
+
+    // Whether the mesh is drawn using its elements (drawElements) or its vertices in order (drawArrays)
+    public get indexed(): boolean { return this.elementCount > 0; }
+
+    // The number of elements (or vertices for meshes without elements) in the whole mesh
+    public get drawCount(): number { return this.indexed ? this.elementCount : this.vertexCount; }
+
     // As the name says, this draws the mesh
-    public draw(mode: number = this.gl.TRIANGLES){
+    // A range can be drawn by giving the first element (or vertex) and how many to draw, otherwise the whole mesh is drawn
+    public draw(mode: number = this.gl.TRIANGLES, first: number = 0, count: number = this.drawCount - first){
+        this.gl.bindVertexArray(this.VAO);
+        if(this.indexed) this.gl.drawElements(mode, count, this.elementType, first * this.elementSize);
+        else this.gl.drawArrays(mode, first, count);
+        this.gl.bindVertexArray(null);
+    }
+
+    // Draws one submesh (bind its material first), if "instances" is given, that many instances of the submesh are drawn (see drawInstanced)
+    public drawSubmesh(index: number, mode: number = this.gl.TRIANGLES, instances: number = 0){
+        const submesh = this.submeshes[index];
+        if(instances > 0) this.drawInstanced(instances, mode, submesh.first, submesh.count);
+        else this.draw(mode, submesh.first, submesh.count);
+    }
+
+    // Draws "instances" instances of the mesh (or of a range of it) in one draw call (the attributes with a divisor read the data of each instance)
+    public drawInstanced(instances: number, mode: number = this.gl.TRIANGLES, first: number = 0, count: number = this.drawCount - first){
         this.gl.bindVertexArray(this.VAO);
-        this.gl.drawElements(mode, this.elementCount, this.elementType, 0);
+        if(this.indexed) this.gl.drawElementsInstanced(mode, count, this.elementType, first * this.elementSize, instances);
+        else this.gl.drawArraysInstanced(mode, first, count, instances);
         this.gl.bindVertexArray(null);
     }
+
+    // The size of one element in bytes (the offset of a range of elements is in bytes)
+    private get elementSize(): number {
+        if(this.elementType == this.gl.UNSIGNED_BYTE) return 1;
+        if(this.elementType == this.gl.UNSIGNED_SHORT) return 2;
+        return 4;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,413 @@
+import { createElement } from 'tsx-create-element';
+import { vec3 } from 'gl-matrix';
+import { Selector, NumberInput, Color } from './dom-utils';
+import Loader from './loader';
+import RenderTarget from './render-target';
+import PostProcessStack, { PostProcessEffect, PostProcessFrame } from './post-processing';
+import * as TextureUtils from './texture-utils';
+
+// This file contains the effects of the post processing stack (see post-processing.tsx)
+// Each effect has a static "load" function to request its shaders and registers them in the stack when it is created
+
+// Bloom makes bright areas glow by adding a blurred copy of them to the image
+// The bright parts (above a threshold) are downsampled into a chain of smaller and smaller images,
+// then we go back up the chain, blurring each image with a tent filter and adding it to the next bigger one, so the glow combines blurs of many sizes
+export class BloomEffect extends PostProcessEffect {
+    threshold: number = 0.8; // Only the colors brighter than this glow
+    knee: number = 0.5; // The threshold fades in over this range so the edge of the glowing areas isn't sharp
+    intensity: number = 0.6; // How much of the glow is added to the image
+    radius: number = 1; // Scales the upsampling filter (bigger values spread the glow further)
+    iterations: number = 5; // The number of images in the chain (each is half the size of the one before it)
+
+    private levels: RenderTarget[] = [];
+
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/bloom.frag"]:{url:'shaders/postprocess/bloom.frag', type:'shader'},
+        });
+    }
+
+    constructor(stack: PostProcessStack, loader: Loader){
+        super(stack, 'Bloom');
+        stack.register('bloom', loader.resources['postprocess/bloom.frag']);
+    }
+
+    // Creates (or resizes) the chain so that each level is half the size of the level before it
+    private updateLevels(size: [number, number]){
+        const count = Math.max(1, Math.min(Math.floor(this.iterations), Math.floor(Math.log2(Math.min(size[0], size[1])))));
+        while(this.levels.length > count) this.levels.pop().dispose();
+        for(let i = 0; i < count; i++){
+            const levelSize: [number, number] = [Math.max(1, size[0] >> (i + 1)), Math.max(1, size[1] >> (i + 1))];
+            if(i < this.levels.length) this.levels[i].resize(levelSize);
+            else this.levels.push(new RenderTarget(this.gl, levelSize, { color: [this.stack.format] }));
+        }
+    }
+
+    public apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame){
+        const gl = this.gl;
+        this.updateLevels(frame.size);
+        const sizes = [frame.size, ...this.levels.map(level => level.size)];
+
+        // Go down the chain (the first step also removes the colors below the threshold)
+        for(let i = 0; i < this.levels.length; i++){
+            const program = this.stack.shaders.getVariant('bloom', { PASS: 'downsample', PREFILTER: i == 0 });
+            program.use();
+            this.stack.bindTexture(0, i == 0 ? source : this.levels[i - 1].colorTexture(), this.stack.linearSampler);
+            program.setUniform1i('source', 0);
+            program.setUniform2f('texel_size', [1 / sizes[i][0], 1 / sizes[i][1]]);
+            if(i == 0){
+                program.setUniform1f('threshold', this.threshold);
+                program.setUniform1f('knee', Math.max(this.knee, 1e-4));
+            }
+            this.stack.drawFullscreen(this.levels[i]);
+        }
+
+        // Go back up the chain adding each level to the one above it
+        gl.enable(gl.BLEND);
+        gl.blendEquation(gl.FUNC_ADD);
+        gl.blendFunc(gl.ONE, gl.ONE);
+        const upsample = this.stack.shaders.getVariant('bloom', { PASS: 'upsample' });
+        upsample.use();
+        upsample.setUniform1i('source', 0);
+        upsample.setUniform1f('radius', this.radius);
+        for(let i = this.levels.length - 1; i > 0; i--){
+            this.stack.bindTexture(0, this.levels[i].colorTexture(), this.stack.linearSampler);
+            upsample.setUniform2f('texel_size', [1 / this.levels[i].size[0], 1 / this.levels[i].size[1]]);
+            this.stack.drawFullscreen(this.levels[i - 1]);
+        }
+        gl.disable(gl.BLEND);
+
+        // Add the glow to the image
+        const composite = this.stack.shaders.getVariant('bloom', { PASS: 'composite' });
+        composite.use();
+        this.stack.bindTexture(0, source, this.stack.nearestSampler);
+        composite.setUniform1i('source', 0);
+        this.stack.bindTexture(1, this.levels[0].colorTexture(), this.stack.linearSampler);
+        composite.setUniform1i('bloom', 1);
+        composite.setUniform2f('texel_size', [1 / this.levels[0].size[0], 1 / this.levels[0].size[1]]);
+        composite.setUniform1f('radius', this.radius);
+        composite.setUniform1f('intensity', this.intensity);
+        this.stack.drawFullscreen(destination);
+    }
+
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <label className="control-label">Threshold</label>
+                <NumberInput value={this.threshold} onchange={(v)=>{ this.threshold = v; }}/>
+                <label className="control-label">Knee</label>
+                <NumberInput value={this.knee} onchange={(v)=>{ this.knee = v; }}/>
+                <label className="control-label">Intensity</label>
+                <NumberInput value={this.intensity} onchange={(v)=>{ this.intensity = v; }}/>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Radius</label>
+                <NumberInput value={this.radius} onchange={(v)=>{ this.radius = v; }}/>
+                <label className="control-label">Iterations</label>
+                <NumberInput value={this.iterations} onchange={(v)=>{ this.iterations = v; }}/>
+            </div>
+        ];
+    }
+
+    public dispose(){
+        this.levels.forEach(level => level.dispose());
+        this.levels = [];
+    }
+}
+
+// FXAA (Fast Approximate Anti-Aliasing by Timothy Lottes) finds the edges from the luminance of the neighboring pixels and blurs along them
+// We need it since the canvas MSAA doesn't apply while the scene is drawn to the offscreen target of the stack
+export class FXAAEffect extends PostProcessEffect {
+    spanMax: number = 8; // The maximum length of the blur along an edge (in pixels)
+    reduceMul: number = 1 / 8; // Reduces the blur length in bright areas
+    reduceMin: number = 1 / 128; // The minimum reduction (avoids dividing by zero in flat areas)
+
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/fxaa.frag"]:{url:'shaders/postprocess/fxaa.frag', type:'shader'},
+        });
+    }
+
+    constructor(stack: PostProcessStack, loader: Loader){
+        super(stack, 'FXAA');
+        stack.register('fxaa', loader.resources['postprocess/fxaa.frag']);
+    }
+
+    public apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame){
+        const program = this.stack.shaders.getVariant('fxaa');
+        program.use();
+        this.stack.bindTexture(0, source, this.stack.linearSampler);
+        program.setUniform1i('source', 0);
+        program.setUniform2f('texel_size', [1 / frame.size[0], 1 / frame.size[1]]);
+        program.setUniform1f('span_max', this.spanMax);
+        program.setUniform1f('reduce_mul', this.reduceMul);
+        program.setUniform1f('reduce_min', this.reduceMin);
+        this.stack.drawFullscreen(destination);
+    }
+
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <label className="control-label">Span Max</label>
+                <NumberInput value={this.spanMax} onchange={(v)=>{ this.spanMax = v; }}/>
+                <label className="control-label">Reduce Mul</label>
+                <NumberInput value={this.reduceMul} onchange={(v)=>{ this.reduceMul = v; }}/>
+                <label className="control-label">Reduce Min</label>
+                <NumberInput value={this.reduceMin} onchange={(v)=>{ this.reduceMin = v; }}/>
+            </div>
+        ];
+    }
+}
+
+// Vignette darkens (or tints) the image towards the corners
+export class VignetteEffect extends PostProcessEffect {
+    intensity: number = 0.5; // How dark the corners get (1 replaces them with the vignette color)
+    radius: number = 0.6; // The distance from the center where the darkening starts (1 is the middle of the edges)
+    smoothness: number = 0.8; // The distance over which it goes from no darkening to full darkening
+    color: vec3 = vec3.fromValues(0, 0, 0);
+
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/vignette.frag"]:{url:'shaders/postprocess/vignette.frag', type:'shader'},
+        });
+    }
+
+    constructor(stack: PostProcessStack, loader: Loader){
+        super(stack, 'Vignette');
+        stack.register('vignette', loader.resources['postprocess/vignette.frag']);
+    }
+
+    public apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame){
+        const program = this.stack.shaders.getVariant('vignette');
+        program.use();
+        this.stack.bindTexture(0, source, this.stack.nearestSampler);
+        program.setUniform1i('source', 0);
+        program.setUniform1f('intensity', this.intensity);
+        program.setUniform1f('radius', this.radius);
+        program.setUniform1f('smoothness', Math.max(this.smoothness, 1e-4));
+        program.setUniform3f('vignette_color', this.color);
+        this.stack.drawFullscreen(destination);
+    }
+
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <label className="control-label">Intensity</label>
+                <NumberInput value={this.intensity} onchange={(v)=>{ this.intensity = v; }}/>
+                <label className="control-label">Radius</label>
+                <NumberInput value={this.radius} onchange={(v)=>{ this.radius = v; }}/>
+                <label className="control-label">Smoothness</label>
+                <NumberInput value={this.smoothness} onchange={(v)=>{ this.smoothness = v; }}/>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Color</label>
+                <Color color={this.color}/>
+            </div>
+        ];
+    }
+}
+
+export type ColorGradingPreset = 'neutral' | 'warm' | 'cool' | 'sepia' | 'contrast' | 'bleach';
+
+// Color grading replaces each color with the color stored for it in a 3D lookup table (LUT)
+// Any grading that maps a color to another color (e.g. changing the white balance, contrast or saturation) can be baked into the table once then applied with a single texture read
+export class ColorGradingEffect extends PostProcessEffect {
+    preset: ColorGradingPreset = 'warm';
+    intensity: number = 1; // Blends between the original (0) and the graded colors (1)
+
+    private luts: {[preset in ColorGradingPreset]?: WebGLTexture} = {}; // The tables are created the first time each preset is used
+
+    // The number of texels along each axis of the tables
+    static readonly LUTSize = 32;
+
+    // The names shown for each preset (can be used as the options of a Selector)
+    static readonly Presets: {[preset in ColorGradingPreset]: string} = {
+        neutral: 'Neutral',
+        warm: 'Warm',
+        cool: 'Cool',
+        sepia: 'Sepia',
+        contrast: 'High Contrast',
+        bleach: 'Bleach Bypass'
+    };
+
+    // The grading function of each preset (the input and output are in the range [0, 1])
+    static readonly Gradings: {[preset in ColorGradingPreset]: (color: [number, number, number]) => [number, number, number]} = {
+        neutral: ([r, g, b]) => [r, g, b],
+        warm: ([r, g, b]) => [r * 1.08 + 0.02, g * 1.01, b * 0.86],
+        cool: ([r, g, b]) => [r * 0.88, g * 0.98 + 0.01, b * 1.1 + 0.03],
+        sepia: ([r, g, b]) => [
+            0.393 * r + 0.769 * g + 0.189 * b,
+            0.349 * r + 0.686 * g + 0.168 * b,
+            0.272 * r + 0.534 * g + 0.131 * b
+        ],
+        contrast: ([r, g, b]) => [r, g, b].map(c => { const s = c * c * (3 - 2 * c); return c + 0.8 * (s - c); }) as [number, number, number],
+        bleach: ([r, g, b]) => {
+            // A desaturated high contrast look (similar to skipping the bleaching step while developing a film)
+            const l = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            return [r, g, b].map(c => { const d = 0.4 * c + 0.6 * l; return d + 0.6 * (d * d * (3 - 2 * d) - d); }) as [number, number, number];
+        }
+    };
+
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/color-grading.frag"]:{url:'shaders/postprocess/color-grading.frag', type:'shader'},
+        });
+    }
+
+    constructor(stack: PostProcessStack, loader: Loader){
+        super(stack, 'Color Grading');
+        stack.register('color-grading', loader.resources['postprocess/color-grading.frag']);
+    }
+
+    private lut(preset: ColorGradingPreset): WebGLTexture {
+        if(!(preset in this.luts)) this.luts[preset] = TextureUtils.ColorLUT(this.gl, ColorGradingEffect.LUTSize, ColorGradingEffect.Gradings[preset]);
+        return this.luts[preset];
+    }
+
+    public apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame){
+        const program = this.stack.shaders.getVariant('color-grading');
+        program.use();
+        this.stack.bindTexture(0, source, this.stack.nearestSampler);
+        program.setUniform1i('source', 0);
+        this.stack.bindTexture(1, this.lut(this.preset), null, this.gl.TEXTURE_3D); // The table has its own filters (linear)
+        program.setUniform1i('lut', 1);
+        program.setUniform1f('lut_size', ColorGradingEffect.LUTSize);
+        program.setUniform1f('intensity', this.intensity);
+        this.stack.drawFullscreen(destination);
+    }
+
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <label className="control-label">Preset</label>
+                <Selector options={ColorGradingEffect.Presets} value={this.preset} onchange={(v)=>{ this.preset = v; }}/>
+                <label className="control-label">Intensity</label>
+                <NumberInput value={this.intensity} onchange={(v)=>{ this.intensity = v; }}/>
+            </div>
+        ];
+    }
+
+    public dispose(){
+        for(const preset in this.luts) this.gl.deleteTexture(this.luts[preset as ColorGradingPreset]);
+        this.luts = {};
+    }
+}
+
+// Chromatic aberration imitates a lens that bends each wavelength differently, so the red, green and blue channels drift apart towards the edges
+export class ChromaticAberrationEffect extends PostProcessEffect {
+    intensity: number = 0.03; // The offset between the channels at the corners (as a fraction of the screen size)
+
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/chromatic-aberration.frag"]:{url:'shaders/postprocess/chromatic-aberration.frag', type:'shader'},
+        });
+    }
+
+    constructor(stack: PostProcessStack, loader: Loader){
+        super(stack, 'Chromatic Aberration');
+        stack.register('chromatic-aberration', loader.resources['postprocess/chromatic-aberration.frag']);
+    }
+
+    public apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame){
+        const program = this.stack.shaders.getVariant('chromatic-aberration');
+        program.use();
+        this.stack.bindTexture(0, source, this.stack.linearSampler);
+        program.setUniform1i('source', 0);
+        program.setUniform1f('intensity', this.intensity);
+        this.stack.drawFullscreen(destination);
+    }
+
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <label className="control-label">Intensity</label>
+                <NumberInput value={this.intensity} onchange={(v)=>{ this.intensity = v; }}/>
+            </div>
+        ];
+    }
+}
+
+// Depth of field blurs the objects that are not in focus (like a camera lens with a wide aperture)
+// The blur radius (called the circle of confusion) grows with the distance from the focus plane, and each pixel gathers the samples
+// in a disc around it whose own blur reaches it (so sharp objects don't get blurred by the background behind them)
+export class DepthOfFieldEffect extends PostProcessEffect {
+    focusDistance: number = 10; // The distance from the camera to the plane in focus (in world units)
+    focusRange: number = 8; // The distance from the focus plane at which the blur reaches its maximum
+    maxRadius: number = 8; // The maximum blur radius in pixels
+    samples: number = 48; // The number of samples in the disc (compiled into the shader)
+
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/depth-of-field.frag"]:{url:'shaders/postprocess/depth-of-field.frag', type:'shader'},
+        });
+    }
+
+    constructor(stack: PostProcessStack, loader: Loader){
+        super(stack, 'Depth of Field');
+        stack.register('depth-of-field', loader.resources['postprocess/depth-of-field.frag']);
+    }
+
+    // We need the camera to convert the depth buffer values back to distances
+    public canApply(frame: PostProcessFrame): boolean {
+        return frame.camera != null && frame.depth != null;
+    }
+
+    public apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame){
+        const program = this.stack.shaders.getVariant('depth-of-field', {
+            SAMPLES: Math.max(1, Math.floor(this.samples)),
+            ORTHOGRAPHIC: frame.camera.type == 'orthographic'
+        });
+        program.use();
+        this.stack.bindTexture(0, source, this.stack.linearSampler);
+        program.setUniform1i('source', 0);
+        this.stack.bindTexture(1, frame.depth, this.stack.nearestSampler);
+        program.setUniform1i('depth', 1);
+        program.setUniform2f('texel_size', [1 / frame.size[0], 1 / frame.size[1]]);
+        program.setUniform1f('near', frame.camera.near);
+        program.setUniform1f('far', frame.camera.far);
+        program.setUniform1f('focus_distance', this.focusDistance);
+        program.setUniform1f('focus_range', Math.max(this.focusRange, 1e-4));
+        program.setUniform1f('max_radius', this.maxRadius);
+        this.stack.drawFullscreen(destination);
+    }
+
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <label className="control-label">Focus Distance</label>
+                <NumberInput value={this.focusDistance} onchange={(v)=>{ this.focusDistance = v; }}/>
+                <label className="control-label">Focus Range</label>
+                <NumberInput value={this.focusRange} onchange={(v)=>{ this.focusRange = v; }}/>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Max Radius</label>
+                <NumberInput value={this.maxRadius} onchange={(v)=>{ this.maxRadius = v; }}/>
+                <label className="control-label">Samples</label>
+                <NumberInput value={this.samples} onchange={(v)=>{ this.samples = v; }}/>
+            </div>
+        ];
+    }
+}
+
+// Requests the shaders of all the effects
+export function LoadEffects(loader: Loader){
+    BloomEffect.load(loader);
+    FXAAEffect.load(loader);
+    VignetteEffect.load(loader);
+    ColorGradingEffect.load(loader);
+    ChromaticAberrationEffect.load(loader);
+    DepthOfFieldEffect.load(loader);
+}
+
+// Creates one of each effect in the default order (all disabled)
+// Depth of field comes first since it needs the depth which only matches the original image, and FXAA comes before the effects that shift or tint the pixels
+export function CreateEffects(stack: PostProcessStack, loader: Loader): PostProcessEffect[] {
+    return [
+        new DepthOfFieldEffect(stack, loader),
+        new BloomEffect(stack, loader),
+        new FXAAEffect(stack, loader),
+        new ColorGradingEffect(stack, loader),
+        new ChromaticAberrationEffect(stack, loader),
+        new VignetteEffect(stack, loader)
+    ];
+}
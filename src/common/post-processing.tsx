@@ -0,0 +1,208 @@
+import { createElement } from 'tsx-create-element';
+import { CheckBox } from './dom-utils';
+import Loader from './loader';
+import Camera from './camera';
+import RenderTarget from './render-target';
+import ShaderVariantCache from './shader-variants';
+import { ShaderSource } from './shader-preprocessor';
+import * as TextureUtils from './texture-utils';
+import FullscreenPass from './fullscreen-pass';
+
+// This file contains a post processing stack which applies screen space effects (e.g. bloom or FXAA) to the image after the scene is drawn
+// While the stack is active, the game binds an offscreen target (a color and a depth texture) before the scene draws, so the scene draws there instead of the canvas
+// Then the enabled effects run in order, each one reads the output of the effect before it and draws into one of two targets that we alternate between (ping-pong)
+// The last effect draws directly to the canvas. Every effect draws a full screen triangle (see "common/fullscreen.vert")
+
+type Size = [number, number];
+
+// What the effects know about the frame being processed
+export interface PostProcessFrame {
+    size: Size, // The size of the images in pixels
+    depth: WebGLTexture, // The depth of the scene (it can't be filtered so sample it with the nearest sampler)
+    camera: Camera, // The camera that the scene was drawn with (null if the scene didn't tell us about its camera)
+    deltaTime: number // The time since the last frame in milliseconds
+};
+
+// The base class of all the effects
+export abstract class PostProcessEffect {
+    stack: PostProcessStack;
+    gl: WebGL2RenderingContext;
+    name: string; // The name shown in the controls
+    enabled: boolean = false;
+
+    constructor(stack: PostProcessStack, name: string){
+        this.stack = stack;
+        this.gl = stack.gl;
+        this.name = name;
+    }
+
+    // Whether the effect can run this frame (e.g. depth of field needs a camera), effects that can't run are skipped
+    public canApply(frame: PostProcessFrame): boolean { return true; }
+
+    // Reads the source image and draws the result to the destination (null means the frame buffer that the stack outputs to)
+    public abstract apply(source: WebGLTexture, destination: RenderTarget, frame: PostProcessFrame): void;
+
+    // The rows of controls for the parameters of the effect
+    public controls(): HTMLElement[] { return []; }
+
+    public dispose(){}
+}
+
+export default class PostProcessStack {
+    gl: WebGL2RenderingContext;
+    shaders: ShaderVariantCache; // The shaders of all the effects (each effect registers its shaders here)
+    format: number; // The format of the intermediate images (RGBA16F if the device can render to it so that colors above 1 are kept)
+    target: RenderTarget; // The scene is drawn here (resized to the canvas size every frame)
+    pingPong: RenderTarget[]; // The effects draw into these two targets one after the other
+    effects: PostProcessEffect[] = []; // The effects in the order they are applied
+    linearSampler: WebGLSampler;
+    nearestSampler: WebGLSampler;
+    fullscreen: FullscreenPass;
+
+    private vertex: string | ShaderSource; // The source of the full screen vertex shader which all the effects share
+    private controlsElement: HTMLElement = null;
+
+    // Requests the shaders needed by the stack (the effects load their own shaders)
+    public static load(loader: Loader){
+        loader.load({
+            ["postprocess/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["postprocess/copy.frag"]:{url:'shaders/postprocess/copy.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the stack (see PostProcessStack.load)
+    constructor(gl: WebGL2RenderingContext, loader: Loader){
+        this.gl = gl;
+        this.vertex = loader.resources['postprocess/fullscreen.vert'];
+        this.shaders = new ShaderVariantCache(gl);
+        this.register('copy', loader.resources['postprocess/copy.frag']);
+
+        this.format = TextureUtils.IsFloatRenderable(gl, gl.RGBA16F) ? gl.RGBA16F : gl.RGBA8;
+        const size: Size = [gl.drawingBufferWidth, gl.drawingBufferHeight];
+        // The depth is a texture so that effects can read it, and it has a stencil since the scenes may use the stencil of the canvas
+        this.target = new RenderTarget(gl, size, { color: [this.format], depth: gl.DEPTH24_STENCIL8 });
+        this.pingPong = [0, 1].map(() => new RenderTarget(gl, size, { color: [this.format] }));
+
+        this.linearSampler = gl.createSampler();
+        this.nearestSampler = gl.createSampler();
+        for(const [sampler, filter] of [[this.linearSampler, gl.LINEAR], [this.nearestSampler, gl.NEAREST]] as [WebGLSampler, number][]){
+            gl.samplerParameteri(sampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+            gl.samplerParameteri(sampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+            gl.samplerParameteri(sampler, gl.TEXTURE_MAG_FILTER, filter);
+            gl.samplerParameteri(sampler, gl.TEXTURE_MIN_FILTER, filter);
+        }
+
+        this.fullscreen = new FullscreenPass(gl);
+    }
+
+    // Registers the fragment shader of an effect (it is paired with the full screen vertex shader)
+    public register(name: string, fragment: string | ShaderSource){
+        this.shaders.register(name, { vertex: this.vertex, fragment: fragment });
+    }
+
+    // If no effect is enabled, the game skips the stack and the scene draws directly to the canvas
+    public get active(): boolean {
+        return this.effects.some(effect => effect.enabled);
+    }
+
+    // Starts drawing the scene into the offscreen target (the target is resized to match the canvas)
+    public begin(){
+        const size: Size = [this.gl.drawingBufferWidth, this.gl.drawingBufferHeight];
+        this.target.resize(size);
+        this.pingPong.forEach(target => target.resize(size));
+        this.target.bind();
+    }
+
+    // Stops drawing into the offscreen target and applies the effects, the result is drawn to the frame buffer that was bound before "begin"
+    public end(deltaTime: number, camera: Camera = null){
+        this.target.unbind();
+
+        this.fullscreen.begin();
+
+        const frame: PostProcessFrame = {
+            size: [this.target.size[0], this.target.size[1]],
+            depth: this.target.depthTexture,
+            camera: camera,
+            deltaTime: deltaTime
+        };
+        const effects = this.effects.filter(effect => effect.enabled && effect.canApply(frame));
+        let source = this.target.colorTexture();
+        effects.forEach((effect, index) => {
+            const destination = index == effects.length - 1 ? null : this.pingPong[index % 2];
+            effect.apply(source, destination, frame);
+            if(destination != null) source = destination.colorTexture();
+        });
+        if(effects.length == 0) this.copy(source, null); // None of the enabled effects could run so we just show the scene
+
+        this.fullscreen.end();
+    }
+
+    // Draws the source texture as is to the destination (null means the currently bound frame buffer)
+    public copy(source: WebGLTexture, destination: RenderTarget){
+        const program = this.shaders.getVariant('copy');
+        program.use();
+        this.bindTexture(0, source, this.nearestSampler);
+        program.setUniform1i('source', 0);
+        this.drawFullscreen(destination);
+    }
+
+    public bindTexture(unit: number, texture: WebGLTexture, sampler: WebGLSampler, target: number = this.gl.TEXTURE_2D){
+        this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+        this.gl.bindTexture(target, texture);
+        this.gl.bindSampler(unit, sampler);
+    }
+
+    // Draws the full screen triangle to the destination (null means the currently bound frame buffer) using the program in use
+    public drawFullscreen(destination: RenderTarget = null){
+        if(destination != null) destination.bind();
+        this.fullscreen.draw();
+        if(destination != null) destination.unbind();
+    }
+
+    // Moves the effect at the given index up (offset = -1) or down (offset = 1) in the order
+    public move(index: number, offset: number){
+        const other = index + offset;
+        if(other < 0 || other >= this.effects.length) return;
+        [this.effects[index], this.effects[other]] = [this.effects[other], this.effects[index]];
+        if(this.controlsElement != null) this.setupControls(this.controlsElement);
+    }
+
+    public dispose(){
+        this.effects.forEach(effect => effect.dispose());
+        this.effects = [];
+        this.shaders.dispose();
+        this.target.dispose();
+        this.pingPong.forEach(target => target.dispose());
+        this.gl.deleteSampler(this.linearSampler);
+        this.gl.deleteSampler(this.nearestSampler);
+        this.fullscreen.dispose();
+        if(this.controlsElement != null) this.controlsElement.innerHTML = "";
+    }
+
+    /////////////////////////////////////////////////////////
+    ////// ADD CONTROL TO THE WEBPAGE (NOT IMPORTNANT) //////
+    /////////////////////////////////////////////////////////
+    // Shows the effects in order, each with a checkbox, buttons to reorder it and the controls of its parameters
+    public setupControls(element: HTMLElement){
+        this.controlsElement = element;
+        element.innerHTML = "";
+        element.appendChild(
+            <div>
+                <div className="control-row">
+                    <label className="control-label"><b>Post Processing</b></label>
+                </div>
+                {this.effects.map((effect, index) => {
+                    return <div className="post-effect">
+                        <div className="control-row">
+                            <CheckBox value={effect.enabled} onchange={(v)=>{ effect.enabled = v; }}/>
+                            <label className="control-label">{effect.name}</label>
+                            <button title="Apply earlier" disabled={index == 0 ? true : undefined} onclick={()=>{ this.move(index, -1); }}>▲</button>
+                            <button title="Apply later" disabled={index == this.effects.length - 1 ? true : undefined} onclick={()=>{ this.move(index, 1); }}>▼</button>
+                        </div>
+                        {effect.controls()}
+                    </div>
+                })}
+            </div>
+        );
+    }
+}
@@ -0,0 +1,255 @@
+import * as TextureUtils from './texture-utils';
+
+// This file contains a class that wraps a frame buffer and its attachments
+// A render target is something we can draw into instead of the canvas (e.g. shadow maps, G-buffers or post processing buffers)
+
+type Size = [number, number];
+
+// Describes an attachment that the render target creates and owns
+export interface AttachmentDescription {
+    format: number, // The internal format (e.g. gl.RGBA8, gl.RGBA16F, gl.DEPTH_COMPONENT24, gl.DEPTH24_STENCIL8)
+    renderbuffer?: boolean, // If true, the attachment is stored in a renderbuffer (faster but can't be sampled in a shader)
+    levels?: number // The number of mip levels (for textures only, 0 means a full mip chain)
+};
+
+export interface RenderTargetOptions {
+    color?: (number | AttachmentDescription)[], // The color attachments (more than one means Multiple Render Targets)
+    depth?: number | AttachmentDescription, // The depth attachment (use a depth-stencil format to get a stencil attachment too)
+    samples?: number // If more than 1, the attachments are multisampled (MSAA) and "resolve" must be called before reading them
+};
+
+// An attachment is either a texture or a renderbuffer
+export interface Attachment {
+    format: number,
+    texture?: WebGLTexture,
+    renderbuffer?: WebGLRenderbuffer
+};
+
+function describe(attachment: number | AttachmentDescription): AttachmentDescription {
+    return typeof attachment === 'number' ? { format: attachment } : attachment;
+}
+
+export default class RenderTarget {
+    gl: WebGL2RenderingContext;
+    framebuffer: WebGLFramebuffer;
+    size: Size;
+    samples: number;
+    colors: Attachment[] = [];
+    depth: Attachment = null;
+    resolveTarget: RenderTarget = null; // If the target is multisampled, "resolve" copies its content here so that it can be sampled
+
+    private options: RenderTargetOptions;
+    private previous: {framebuffer: WebGLFramebuffer, viewport: Int32Array}[] = []; // The state before each "bind" (restored by "unbind")
+
+    constructor(gl: WebGL2RenderingContext, size: Size, options: RenderTargetOptions = {}){
+        this.gl = gl;
+        this.size = [size[0], size[1]];
+        this.options = options;
+        this.samples = Math.max(1, options.samples ?? 1);
+        if(this.samples > 1){
+            const maxSamples: number = gl.getParameter(gl.MAX_SAMPLES);
+            if(this.samples > maxSamples){
+                console.warn(`The render target requested ${this.samples} samples but only ${maxSamples} are supported`);
+                this.samples = maxSamples;
+            }
+        }
+        // The formats that can only be rendered to if the extension "EXT_color_buffer_float" is enabled
+        const floatFormats = [gl.R16F, gl.RG16F, gl.RGBA16F, gl.R32F, gl.RG32F, gl.RGBA32F, gl.R11F_G11F_B10F];
+        for(const attachment of [...(options.color ?? []), ...(options.depth !== undefined ? [options.depth] : [])]){
+            const format = describe(attachment).format;
+            if(floatFormats.includes(format) && gl.getExtension('EXT_color_buffer_float') == null){
+                console.error("Rendering to floating point formats is not supported on this device (EXT_color_buffer_float is missing)");
+            }
+        }
+        this.framebuffer = this.gl.createFramebuffer();
+        this.createAttachments();
+    }
+
+    // The attachment point for a depth format (depth-stencil formats are attached to both the depth and stencil)
+    public static DepthAttachmentPoint(gl: WebGL2RenderingContext, format: number): number {
+        switch(format){
+            case gl.DEPTH24_STENCIL8: case gl.DEPTH32F_STENCIL8: return gl.DEPTH_STENCIL_ATTACHMENT;
+            case gl.STENCIL_INDEX8: return gl.STENCIL_ATTACHMENT;
+            default: return gl.DEPTH_ATTACHMENT;
+        }
+    }
+
+    private createAttachment(description: AttachmentDescription): Attachment {
+        // Multisampled attachments must be renderbuffers since WebGL2 has no multisampled textures
+        if(description.renderbuffer || this.samples > 1){
+            const renderbuffer = this.gl.createRenderbuffer();
+            this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, renderbuffer);
+            if(this.samples > 1) this.gl.renderbufferStorageMultisample(this.gl.RENDERBUFFER, this.samples, description.format, this.size[0], this.size[1]);
+            else this.gl.renderbufferStorage(this.gl.RENDERBUFFER, description.format, this.size[0], this.size[1]);
+            this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, null);
+            return { format: description.format, renderbuffer: renderbuffer };
+        } else {
+            return { format: description.format, texture: TextureUtils.RenderTexture(this.gl, this.size, description.format, description.levels ?? 1) };
+        }
+    }
+
+    private attach(point: number, attachment: Attachment){
+        if(attachment.renderbuffer) this.gl.framebufferRenderbuffer(this.gl.FRAMEBUFFER, point, this.gl.RENDERBUFFER, attachment.renderbuffer);
+        else this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, point, this.gl.TEXTURE_2D, attachment.texture, 0);
+    }
+
+    private createAttachments(){
+        const previous = this.gl.getParameter(this.gl.FRAMEBUFFER_BINDING);
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+        this.colors = (this.options.color ?? []).map(describe).map((description, index) => {
+            const attachment = this.createAttachment(description);
+            this.attach(this.gl.COLOR_ATTACHMENT0 + index, attachment);
+            return attachment;
+        });
+        if(this.options.depth !== undefined){
+            const description = describe(this.options.depth);
+            this.depth = this.createAttachment(description);
+            this.attach(RenderTarget.DepthAttachmentPoint(this.gl, description.format), this.depth);
+        }
+        // Tell WebGL which color attachments the fragment shader outputs are written to (output i goes to attachment i)
+        this.gl.drawBuffers(this.colors.length > 0 ? this.colors.map((_, index) => this.gl.COLOR_ATTACHMENT0 + index) : [this.gl.NONE]);
+        if(this.colors.length == 0) this.gl.readBuffer(this.gl.NONE);
+        try {
+            if(this.colors.length > 0 || this.depth != null) this.validate();
+        } finally {
+            this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, previous);
+        }
+
+        // For MSAA, we create a single-sampled target with the same formats (as textures) to resolve into
+        if(this.samples > 1){
+            this.resolveTarget = new RenderTarget(this.gl, this.size, {
+                color: (this.options.color ?? []).map(describe).map(description => ({ ...description, renderbuffer: false })),
+                depth: this.options.depth
+            });
+        }
+    }
+
+    private deleteAttachments(){
+        for(const attachment of [...this.colors, ...(this.depth != null ? [this.depth] : [])]){
+            if(attachment.texture) this.gl.deleteTexture(attachment.texture);
+            if(attachment.renderbuffer) this.gl.deleteRenderbuffer(attachment.renderbuffer);
+        }
+        this.colors = [];
+        this.depth = null;
+        if(this.resolveTarget != null){
+            this.resolveTarget.dispose();
+            this.resolveTarget = null;
+        }
+    }
+
+    // Attaches a texture that the render target doesn't own (e.g. a shadow map) and checks that the frame buffer is complete
+    // The size is used for the viewport when the target is bound (it should match the texture size)
+    // Note: the texture replaces any attachment created by the render target at the same attachment point
+    // Attaching a color texture also updates the draw buffers so that the fragment shader output i is written to the color attachment i (a null texture detaches it)
+    public attachTexture(point: number, texture: WebGLTexture, size: Size, level: number = 0, target: number = this.gl.TEXTURE_2D){
+        const previous = this.gl.getParameter(this.gl.FRAMEBUFFER_BINDING);
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+        this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, point, target, texture, level);
+        const maxColors: number = this.gl.getParameter(this.gl.MAX_COLOR_ATTACHMENTS);
+        if(point >= this.gl.COLOR_ATTACHMENT0 && point < this.gl.COLOR_ATTACHMENT0 + maxColors){
+            const attached = (index: number) => this.gl.getFramebufferAttachmentParameter(this.gl.FRAMEBUFFER, this.gl.COLOR_ATTACHMENT0 + index, this.gl.FRAMEBUFFER_ATTACHMENT_OBJECT_TYPE) != this.gl.NONE;
+            const count = Math.max(this.colors.length, point - this.gl.COLOR_ATTACHMENT0 + 1);
+            const buffers = Array.from({length: count}, (_, index) => attached(index) ? this.gl.COLOR_ATTACHMENT0 + index : this.gl.NONE);
+            this.gl.drawBuffers(buffers.some(buffer => buffer != this.gl.NONE) ? buffers : [this.gl.NONE]);
+            this.gl.readBuffer(buffers.find(buffer => buffer != this.gl.NONE) ?? this.gl.NONE);
+        }
+        this.size = [size[0], size[1]];
+        try {
+            this.validate();
+        } finally {
+            this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, previous);
+        }
+        if(previous === this.framebuffer) this.gl.viewport(0, 0, this.size[0], this.size[1]); // If we are drawing to this target, the viewport should follow the new size
+    }
+
+    // Attaches one face of a cube map (faces are ordered +X, -X, +Y, -Y, +Z, -Z like the TEXTURE_CUBE_MAP_POSITIVE_X + face targets)
+    public attachCubeFace(point: number, texture: WebGLTexture, face: number, size: number, level: number = 0){
+        this.attachTexture(point, texture, [size, size], level, this.gl.TEXTURE_CUBE_MAP_POSITIVE_X + face);
+    }
+
+    // Checks that the frame buffer (which must be bound) is complete and throws a descriptive error if it isn't
+    private validate(){
+        const status = this.gl.checkFramebufferStatus(this.gl.FRAMEBUFFER);
+        if(status == this.gl.FRAMEBUFFER_COMPLETE) return;
+        const reasons: {[status: number]: string} = {
+            [this.gl.FRAMEBUFFER_INCOMPLETE_ATTACHMENT]: "an attachment is incomplete (it may have a zero size or a format that can't be rendered to)",
+            [this.gl.FRAMEBUFFER_INCOMPLETE_MISSING_ATTACHMENT]: "there are no attachments",
+            [this.gl.FRAMEBUFFER_INCOMPLETE_DIMENSIONS]: "the attachments don't have the same size",
+            [this.gl.FRAMEBUFFER_UNSUPPORTED]: "the combination of attachment formats is not supported (e.g. separate depth and stencil attachments)",
+            [this.gl.FRAMEBUFFER_INCOMPLETE_MULTISAMPLE]: "the attachments don't have the same number of samples"
+        };
+        const formats = [
+            ...this.colors.map((attachment, index) => `color ${index}: 0x${attachment.format.toString(16)}`),
+            ...(this.depth != null ? [`depth: 0x${this.depth.format.toString(16)}`] : [])
+        ];
+        throw new Error(`The render target (${this.size[0]}x${this.size[1]}, ${this.samples} samples${formats.length > 0 ? ', ' + formats.join(', ') : ''}) is incomplete: ${reasons[status] ?? `unknown status 0x${status.toString(16)}`}`);
+    }
+
+    // The textures that can be sampled after drawing (for MSAA targets, these are the textures of the resolve target)
+    public colorTexture(index: number = 0): WebGLTexture {
+        return this.samples > 1 ? this.resolveTarget.colorTexture(index) : this.colors[index]?.texture;
+    }
+
+    public get depthTexture(): WebGLTexture {
+        return this.samples > 1 ? this.resolveTarget.depthTexture : this.depth?.texture;
+    }
+
+    // Starts drawing to this target and sets the viewport to its size
+    public bind(){
+        this.previous.push({
+            framebuffer: this.gl.getParameter(this.gl.FRAMEBUFFER_BINDING),
+            viewport: this.gl.getParameter(this.gl.VIEWPORT)
+        });
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+        this.gl.viewport(0, 0, this.size[0], this.size[1]);
+    }
+
+    // Goes back to the frame buffer and viewport that were used before "bind"
+    public unbind(){
+        const previous = this.previous.pop();
+        if(previous === undefined){
+            console.warn("RenderTarget.unbind was called without calling bind first");
+            return;
+        }
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, previous.framebuffer);
+        this.gl.viewport(previous.viewport[0], previous.viewport[1], previous.viewport[2], previous.viewport[3]);
+    }
+
+    // Copies the multisampled attachments to the textures of the resolve target (does nothing if the target is not multisampled)
+    public resolve(){
+        if(this.samples <= 1) return;
+        const [width, height] = this.size;
+        const previousRead = this.gl.getParameter(this.gl.READ_FRAMEBUFFER_BINDING);
+        const previousDraw = this.gl.getParameter(this.gl.DRAW_FRAMEBUFFER_BINDING);
+        this.gl.bindFramebuffer(this.gl.READ_FRAMEBUFFER, this.framebuffer);
+        this.gl.bindFramebuffer(this.gl.DRAW_FRAMEBUFFER, this.resolveTarget.framebuffer);
+        // blitFramebuffer copies from the read buffer to all the draw buffers, so for MRT, we copy one attachment at a time
+        this.colors.forEach((_, index) => {
+            this.gl.readBuffer(this.gl.COLOR_ATTACHMENT0 + index);
+            this.gl.drawBuffers(this.colors.map((_, i) => i == index ? this.gl.COLOR_ATTACHMENT0 + i : this.gl.NONE));
+            this.gl.blitFramebuffer(0, 0, width, height, 0, 0, width, height, this.gl.COLOR_BUFFER_BIT, this.gl.NEAREST);
+        });
+        if(this.colors.length > 0) this.gl.drawBuffers(this.colors.map((_, index) => this.gl.COLOR_ATTACHMENT0 + index));
+        if(this.depth != null){
+            const point = RenderTarget.DepthAttachmentPoint(this.gl, this.depth.format);
+            const mask = point == this.gl.DEPTH_STENCIL_ATTACHMENT ? this.gl.DEPTH_BUFFER_BIT | this.gl.STENCIL_BUFFER_BIT : point == this.gl.STENCIL_ATTACHMENT ? this.gl.STENCIL_BUFFER_BIT : this.gl.DEPTH_BUFFER_BIT;
+            this.gl.blitFramebuffer(0, 0, width, height, 0, 0, width, height, mask, this.gl.NEAREST); // Depth and stencil can only be copied with NEAREST filtering
+        }
+        this.gl.bindFramebuffer(this.gl.READ_FRAMEBUFFER, previousRead);
+        this.gl.bindFramebuffer(this.gl.DRAW_FRAMEBUFFER, previousDraw);
+    }
+
+    // Recreates the attachments with a new size (their content is lost)
+    public resize(size: Size){
+        if(this.size[0] == size[0] && this.size[1] == size[1]) return;
+        this.size = [size[0], size[1]];
+        this.deleteAttachments();
+        this.createAttachments();
+        if(this.gl.getParameter(this.gl.FRAMEBUFFER_BINDING) === this.framebuffer) this.gl.viewport(0, 0, this.size[0], this.size[1]);
+    }
+
+    public dispose(){
+        this.deleteAttachments();
+        this.gl.deleteFramebuffer(this.framebuffer);
+    }
+}
@@ -0,0 +1,105 @@
+// This file contains a decoder for Radiance HDR images (.hdr files which are also called RGBE images)
+// 8-bit images can't store colors brighter than 1 but the sky, the sun and lamps are much brighter than a white wall
+// RGBE stores each pixel in 4 bytes: a mantissa for each color channel and a shared exponent, so the pixel value is (R, G, B) * 2^(E - 128) / 256
+// The scanlines are usually compressed using run length encoding (RLE) where each channel of the scanline is compressed separately
+
+export interface HDRImage {
+    width: number,
+    height: number,
+    data: Float32Array // RGBA values (the alpha is always 1), the rows are stored from the bottom to the top (like WebGL expects)
+};
+
+// Reads a line of ASCII text (the header is written as text) and returns it with the position after it
+function readLine(bytes: Uint8Array, position: number): [string, number] {
+    let line = '';
+    while(position < bytes.length && bytes[position] != 0x0A) line += String.fromCharCode(bytes[position++]);
+    return [line, position + 1];
+}
+
+// Reads a scanline in the new RLE format where the 4 channels are stored one after the other
+// Each run starts with a count, if it is more than 128, the next byte is repeated (count - 128) times, otherwise the next count bytes are copied
+function readRLEScanline(bytes: Uint8Array, position: number, width: number, scanline: Uint8Array): number {
+    for(let channel = 0; channel < 4; channel++){
+        let x = 0;
+        while(x < width){
+            if(position >= bytes.length) throw new Error("The HDR image ended before all the pixels were read");
+            let count = bytes[position++];
+            if(count > 128){
+                count -= 128;
+                if(count == 0 || x + count > width) throw new Error("The HDR image has an invalid run length");
+                const value = bytes[position++];
+                for(let i = 0; i < count; i++) scanline[4 * (x++) + channel] = value;
+            } else {
+                if(count == 0 || x + count > width) throw new Error("The HDR image has an invalid run length");
+                for(let i = 0; i < count; i++) scanline[4 * (x++) + channel] = bytes[position++];
+            }
+        }
+    }
+    return position;
+}
+
+// Reads a scanline that is not compressed (or compressed with the old RLE format where a pixel (1,1,1,n) repeats the previous pixel)
+function readFlatScanline(bytes: Uint8Array, position: number, width: number, scanline: Uint8Array): number {
+    let x = 0, shift = 0;
+    while(x < width){
+        if(position + 4 > bytes.length) throw new Error("The HDR image ended before all the pixels were read");
+        const [r, g, b, e] = [bytes[position], bytes[position + 1], bytes[position + 2], bytes[position + 3]];
+        position += 4;
+        if(r == 1 && g == 1 && b == 1 && x > 0){
+            // Consecutive repeat counts are combined (each one is shifted 8 bits more than the one before it)
+            const count = Math.min(e << shift, width - x);
+            for(let i = 0; i < count; i++, x++) scanline.copyWithin(4 * x, 4 * (x - 1), 4 * x);
+            shift += 8;
+        } else {
+            scanline.set([r, g, b, e], 4 * (x++));
+            shift = 0;
+        }
+    }
+    return position;
+}
+
+// Decodes the content of an .hdr file into floating point RGBA pixels
+export function DecodeRGBE(buffer: ArrayBuffer): HDRImage {
+    const bytes = new Uint8Array(buffer);
+    let line: string, position = 0;
+
+    // The header starts with a "#?" signature followed by variables (NAME=value) and ends with an empty line
+    [line, position] = readLine(bytes, position);
+    if(!line.startsWith('#?')) throw new Error("The file is not an HDR image (the signature #? is missing)");
+    let exposure = 1;
+    while(true){
+        if(position >= bytes.length) throw new Error("The HDR image header is not terminated");
+        [line, position] = readLine(bytes, position);
+        if(line.length == 0) break;
+        if(line.startsWith('FORMAT=') && line != 'FORMAT=32-bit_rle_rgbe') throw new Error(`The HDR image format "${line.substring(7)}" is not supported (only 32-bit_rle_rgbe is supported)`);
+        if(line.startsWith('EXPOSURE=')) exposure *= parseFloat(line.substring(9)); // The exposure was multiplied by the pixels so we will divide by it
+    }
+
+    // Then the resolution line tells the size and the order of the pixels ("-Y height +X width" is the standard top to bottom order)
+    [line, position] = readLine(bytes, position);
+    const match = /^([+-])Y\s+(\d+)\s+\+X\s+(\d+)$/.exec(line.trim());
+    if(match == null) throw new Error(`The HDR image resolution "${line}" is not supported`);
+    const topToBottom = match[1] == '-';
+    const height = parseInt(match[2]), width = parseInt(match[3]);
+
+    const data = new Float32Array(width * height * 4);
+    const scanline = new Uint8Array(width * 4);
+    const scale = 1 / exposure;
+    for(let y = 0; y < height; y++){
+        // A new RLE scanline starts with (2, 2, width >> 8, width & 255) and it is only used for widths in the range [8, 32767]
+        const isRLE = width >= 8 && width < 0x8000 && bytes[position] == 2 && bytes[position + 1] == 2 && ((bytes[position + 2] << 8) | bytes[position + 3]) == width;
+        position = isRLE ? readRLEScanline(bytes, position + 4, width, scanline) : readFlatScanline(bytes, position, width, scanline);
+        // Convert the row to floats (we add 0.5 to each mantissa to get the center of the range it represents)
+        const row = topToBottom ? height - 1 - y : y;
+        for(let x = 0; x < width; x++){
+            const i = 4 * x, o = 4 * (row * width + x);
+            const e = scanline[i + 3];
+            const f = e == 0 ? 0 : scale * Math.pow(2, e - 136); // 2^(E - 128) / 256
+            data[o] = f == 0 ? 0 : (scanline[i] + 0.5) * f;
+            data[o + 1] = f == 0 ? 0 : (scanline[i + 1] + 0.5) * f;
+            data[o + 2] = f == 0 ? 0 : (scanline[i + 2] + 0.5) * f;
+            data[o + 3] = 1;
+        }
+    }
+    return { width, height, data };
+}
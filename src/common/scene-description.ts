@@ -0,0 +1,243 @@
+import Loader from './loader';
+import Mesh from './mesh';
+import * as MeshUtils from './mesh-utils';
+import * as TextureUtils from './texture-utils';
+import { HDRImage } from './rgbe';
+import { vec3, quat, mat4 } from 'gl-matrix';
+
+// This file describes the JSON format used to write scenes as data instead of code
+// A scene file lists the meshes, textures, materials, lights and objects and a scene class will instantiate them
+// All the resource names (meshes, textures and materials) are used by the other parts of the file to refer to them
+
+type Vec2 = [number, number];
+type Vec3 = [number, number, number];
+type Color = [number, number, number, number];
+
+// Meshes are either loaded from an OBJ file or generated using one of the functions in mesh-utils
+export type MeshDescription =
+    { type: 'obj', url: string } |
+    { type: 'plane', texCoords?: {min: Vec2, max: Vec2} } |
+    { type: 'subdivided-plane', resolution?: number | Vec2, texCoords?: {min: Vec2, max: Vec2} } |
+    { type: 'cube' } |
+    { type: 'pyramid' } |
+    { type: 'sphere', resolution?: number | Vec2 };
+
+// Textures are either loaded from an image file or generated using one of the functions in texture-utils
+// HDR images (.hdr) are stored as half floats unless the format is RGBA32F
+export type TextureDescription =
+    { type: 'image', url: string } |
+    { type: 'hdr', url: string, format?: 'RGBA16F' | 'RGBA32F' } |
+    { type: 'checkerboard', size: Vec2, cellSize: Vec2, colors: [Color, Color] } |
+    { type: 'color', color: Color };
+
+// The lighting model used to shade a material: phong (Lambert + Phong specular) or pbr (metallic/roughness Cook-Torrance)
+export type MaterialModel = 'phong' | 'pbr';
+
+// Each texture property refers to a texture by name, if it is missing, the scene should use a sensible default
+// The metallic map is only read by the pbr model
+export interface MaterialDescription {
+    model?: MaterialModel,
+    albedo?: string,
+    albedo_tint?: Vec3,
+    specular?: string,
+    specular_tint?: Vec3,
+    roughness?: string,
+    roughness_scale?: number,
+    ambient_occlusion?: string,
+    emissive?: string,
+    emissive_tint?: Vec3,
+    metallic?: string,
+    metallic_scale?: number
+};
+
+// The filters that soften the shadow edges: a single hardware comparison, percentage closer filtering (PCF), percentage closer soft shadows (PCSS) or variance shadow maps (VSM and EVSM)
+export type ShadowFilter = 'hardware' | 'pcf' | 'pcss' | 'vsm' | 'evsm';
+// The sample pattern of PCF
+export type PCFPattern = 'grid' | 'poisson';
+
+// The shadow properties are optional and if they are missing, the light won't cast shadows
+// The light size is the radius of the light for point and spot lights and the angular radius (in degrees) for directional lights
+// The filter radius and the blur radius are in shadow map texels and the exponents are the positive and negative EVSM warp exponents
+export interface ShadowDescription {
+    resolution?: number,
+    bias?: number,
+    slopeBias?: number,
+    filter?: ShadowFilter,
+    pattern?: PCFPattern,
+    filterRadius?: number,
+    samples?: number,
+    lightSize?: number,
+    blurRadius?: number,
+    bleedReduction?: number,
+    exponents?: Vec2
+};
+
+// Like the object rotations, the spot light cone angles are written in degrees
+// The directional light shadow is split into "cascades" shadow maps that cover the view up to "maxDistance" (see ShadowCascades)
+// "lambda" mixes uniform (0) and logarithmic (1) splits and "blend" is the fraction of each cascade that is blended with the next one
+// The environment light reads an equirectangular HDR image (.hdr) and can also be drawn as the skybox (see EnvironmentMap)
+export type LightDescription =
+    { type: 'environment', enabled?: boolean, url: string, intensity?: number, skybox?: boolean } |
+    { type: 'ambient', enabled?: boolean, skyColor: Vec3, groundColor: Vec3, skyDirection?: Vec3 } |
+    { type: 'directional', enabled?: boolean, color: Vec3, direction: Vec3, shadow?: ShadowDescription & { cascades?: number, lambda?: number, blend?: number, maxDistance?: number, distance?: number } } |
+    { type: 'point', enabled?: boolean, color: Vec3, position: Vec3, attenuation?: {quadratic?: number, linear?: number, constant?: number}, shadow?: ShadowDescription & { near?: number, far?: number } } |
+    { type: 'spot', enabled?: boolean, color: Vec3, position: Vec3, direction: Vec3, attenuation?: {quadratic?: number, linear?: number, constant?: number}, inner_cone: number, outer_cone: number, shadow?: ShadowDescription & { near?: number, far?: number } };
+
+// Many copies of the object's mesh drawn in one draw call (instancing), they are scattered on a grid of "count" cells in the local XZ plane of the object
+// The cells are "spacing" units apart and each instance is moved randomly by up to "jitter" (a fraction of the spacing), rotated randomly around the Y axis,
+// scaled by a random factor between the two values of "scale" and tinted by one of the "tints" (picked randomly)
+export interface InstancesDescription {
+    count: Vec2,
+    spacing?: number,
+    jitter?: number,
+    scale?: Vec2,
+    tints?: Vec3[]
+};
+
+// An object is a node in the scene graph, the rotation is written as euler angles in degrees
+// If the mesh has submeshes (e.g. the "usemtl" groups of an OBJ file), "materials" maps their material slots to materials and the slots that are not listed use "material"
+export interface ObjectDescription {
+    name: string,
+    mesh?: string,
+    material?: string,
+    materials?: {[slot: string]: string},
+    position?: Vec3,
+    rotation?: Vec3,
+    scale?: Vec3,
+    instances?: InstancesDescription,
+    children?: ObjectDescription[]
+};
+
+export interface CameraDescription {
+    position?: Vec3,
+    direction?: Vec3,
+    fovy?: number,
+    near?: number,
+    far?: number
+};
+
+export interface SceneDescription {
+    camera?: CameraDescription,
+    meshes?: {[name: string]: MeshDescription},
+    textures?: {[name: string]: TextureDescription},
+    materials?: {[name: string]: MaterialDescription},
+    lights?: LightDescription[],
+    objects?: ObjectDescription[]
+};
+
+// Since resources from different scenes share the same loader, we prefix the names of the files requested by a scene description
+function resourceName(prefix: string, type: string, name: string): string {
+    return `${prefix}:${type}:${name}`;
+}
+
+// This asks the loader to fetch all the files needed by the scene description (OBJ files and images)
+export function LoadResources(loader: Loader, description: SceneDescription, prefix: string){
+    const resources: {[name: string]: {url: string, type: 'text' | 'image' | 'hdr'}} = {};
+    for(const name in description.meshes ?? {}){
+        const mesh = description.meshes[name];
+        if(mesh.type === 'obj') resources[resourceName(prefix, 'mesh', name)] = {url: mesh.url, type: 'text'};
+    }
+    for(const name in description.textures ?? {}){
+        const texture = description.textures[name];
+        if(texture.type === 'image' || texture.type === 'hdr') resources[resourceName(prefix, 'texture', name)] = {url: texture.url, type: texture.type};
+    }
+    for(const light of description.lights ?? []){
+        if(light.type === 'environment') resources[resourceName(prefix, 'environment', light.url)] = {url: light.url, type: 'hdr'};
+    }
+    loader.load(resources);
+}
+
+// This creates all the meshes in the scene description (it should be called after the loader finishes loading the resources)
+export function CreateMeshes(gl: WebGL2RenderingContext, loader: Loader, description: SceneDescription, prefix: string): {[name: string]: Mesh} {
+    const meshes: {[name: string]: Mesh} = {};
+    for(const name in description.meshes ?? {}){
+        const mesh = description.meshes[name];
+        switch(mesh.type){
+            case 'obj': {
+                const data = loader.resources[resourceName(prefix, 'mesh', name)];
+                if(data === undefined) { console.error(`The OBJ file for the mesh "${name}" was not loaded`); continue; }
+                meshes[name] = MeshUtils.LoadOBJMesh(gl, data);
+                break;
+            }
+            case 'plane': meshes[name] = MeshUtils.Plane(gl, mesh.texCoords); break;
+            case 'subdivided-plane': meshes[name] = MeshUtils.SubdividedPlane(gl, mesh.resolution, mesh.texCoords); break;
+            case 'cube': meshes[name] = MeshUtils.Cube(gl); break;
+            case 'pyramid': meshes[name] = MeshUtils.Pyramid(gl); break;
+            case 'sphere': meshes[name] = MeshUtils.Sphere(gl, mesh.resolution); break;
+            default: console.error(`Unknown mesh type for "${name}"`);
+        }
+    }
+    return meshes;
+}
+
+// This creates all the textures in the scene description (it should be called after the loader finishes loading the resources)
+export function CreateTextures(gl: WebGL2RenderingContext, loader: Loader, description: SceneDescription, prefix: string): {[name: string]: WebGLTexture} {
+    const textures: {[name: string]: WebGLTexture} = {};
+    for(const name in description.textures ?? {}){
+        const texture = description.textures[name];
+        switch(texture.type){
+            case 'image': {
+                const image = loader.resources[resourceName(prefix, 'texture', name)];
+                if(image === undefined) { console.error(`The image for the texture "${name}" was not loaded`); continue; }
+                textures[name] = TextureUtils.LoadImage(gl, image);
+                break;
+            }
+            case 'hdr': {
+                const image = loader.resources[resourceName(prefix, 'texture', name)];
+                if(image === undefined) { console.error(`The HDR image for the texture "${name}" was not loaded`); continue; }
+                textures[name] = TextureUtils.LoadFloatImage(gl, image, texture.format === 'RGBA32F' ? gl.RGBA32F : gl.RGBA16F);
+                break;
+            }
+            case 'checkerboard': textures[name] = TextureUtils.CheckerBoard(gl, texture.size, texture.cellSize, texture.colors[0], texture.colors[1]); break;
+            case 'color': textures[name] = TextureUtils.SingleColor(gl, texture.color); break;
+            default: console.error(`Unknown texture type for "${name}"`);
+        }
+    }
+    return textures;
+}
+
+// Returns the HDR image of an environment light (it should be called after the loader finishes loading the resources)
+export function EnvironmentImage(loader: Loader, url: string, prefix: string): HDRImage {
+    const image = loader.resources[resourceName(prefix, 'environment', url)];
+    if(image === undefined) console.error(`The environment image "${url}" was not loaded`);
+    return image;
+}
+
+// JSON only has plain arrays so we use this to convert them to vectors
+export function ToVec3(value: Vec3, fallback: Vec3 = [0, 0, 0]): vec3 {
+    value = value ?? fallback;
+    return vec3.fromValues(value[0], value[1], value[2]);
+}
+
+// Converts the position, rotation (euler angles in degrees) and scale of an object to the types used by the scene graph
+export function ObjectTransform(object: ObjectDescription): {position: vec3, rotation: quat, scale: vec3} {
+    const rotation = object.rotation ?? [0, 0, 0];
+    return {
+        position: ToVec3(object.position),
+        rotation: quat.fromEuler(quat.create(), rotation[0], rotation[1], rotation[2]),
+        scale: ToVec3(object.scale, [1, 1, 1])
+    };
+}
+
+// Generates the instances of an object (the matrices are relative to the object, see MeshUtils.InstancedMesh)
+export function CreateInstances(instances: InstancesDescription): MeshUtils.Instance[] {
+    const [columns, rows] = instances.count;
+    const spacing = instances.spacing ?? 1, jitter = instances.jitter ?? 0;
+    const [minScale, maxScale] = instances.scale ?? [1, 1];
+    const tints = instances.tints ?? [[1, 1, 1]];
+    const result: MeshUtils.Instance[] = [];
+    for(let i = 0; i < columns; i++){
+        for(let j = 0; j < rows; j++){
+            // The grid is centered on the object
+            const x = (i - (columns - 1) / 2 + jitter * (Math.random() - 0.5)) * spacing;
+            const z = (j - (rows - 1) / 2 + jitter * (Math.random() - 0.5)) * spacing;
+            const scale = minScale + (maxScale - minScale) * Math.random();
+            const matrix = mat4.fromRotationTranslationScale(mat4.create(),
+                quat.setAxisAngle(quat.create(), [0, 1, 0], 2 * Math.PI * Math.random()),
+                [x, 0, z],
+                [scale, scale, scale]);
+            result.push({ matrix, tint: ToVec3(tints[Math.floor(Math.random() * tints.length)]) });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,122 @@
+import { vec3, mat4, quat } from 'gl-matrix';
+
+// This file contains a simple scene graph (a tree of nodes where each node has a transform relative to its parent)
+// This allows us to attach objects to each other (e.g. a lamp to a table) and move them together
+
+// A node in the scene graph. The type parameter "T" is whatever we want to attach to the node (e.g. a mesh and a material)
+export class SceneNode<T> {
+    name: string;
+    data: T; // The data attached to this node (can be undefined for nodes that are only used for grouping)
+
+    private _position: vec3 = vec3.fromValues(0, 0, 0);
+    private _rotation: quat = quat.create();
+    private _scale: vec3 = vec3.fromValues(1, 1, 1);
+
+    private _parent: SceneNode<T> = null;
+    private _children: SceneNode<T>[] = [];
+
+    // We cache the matrices and only recompute them when the node (or one of its ancestors) changes
+    private dirty: boolean = true;
+    private _localMatrix: mat4 = mat4.create();
+    private _worldMatrix: mat4 = mat4.create();
+    private _inverseWorldMatrix: mat4 = mat4.create();
+
+    constructor(name: string, data?: T, transform?: {position?: vec3, rotation?: quat, scale?: vec3}){
+        this.name = name;
+        this.data = data;
+        if(transform){
+            if(transform.position) vec3.copy(this._position, transform.position);
+            if(transform.rotation) quat.copy(this._rotation, transform.rotation);
+            if(transform.scale) vec3.copy(this._scale, transform.scale);
+        }
+    }
+
+    // Note: the getters return the internal vectors so if you modify them in place, you must call markDirty() afterwards
+    public get position(): vec3 { return this._position; }
+    public set position(value: vec3) { vec3.copy(this._position, value); this.markDirty(); }
+
+    public get rotation(): quat { return this._rotation; }
+    public set rotation(value: quat) { quat.copy(this._rotation, value); this.markDirty(); }
+
+    public get scale(): vec3 { return this._scale; }
+    public set scale(value: vec3) { vec3.copy(this._scale, value); this.markDirty(); }
+
+    public get parent(): SceneNode<T> { return this._parent; }
+    public get children(): readonly SceneNode<T>[] { return this._children; }
+
+    // This marks the node and all of its descendants as dirty so that their matrices get recomputed
+    public markDirty(){
+        if(this.dirty) return; // If the node is already dirty, then its descendants are already dirty too
+        this.dirty = true;
+        for(const child of this._children) child.markDirty();
+    }
+
+    // Changes the parent of the node (null means that the node will be detached)
+    public setParent(parent: SceneNode<T>){
+        if(this._parent === parent) return;
+        for(let ancestor = parent; ancestor != null; ancestor = ancestor._parent){
+            if(ancestor === this){
+                console.error(`Can't make "${parent.name}" the parent of "${this.name}" since it would create a cycle`);
+                return;
+            }
+        }
+        if(this._parent != null){
+            const siblings = this._parent._children;
+            siblings.splice(siblings.indexOf(this), 1);
+        }
+        this._parent = parent;
+        if(parent != null) parent._children.push(this);
+        this.markDirty();
+    }
+
+    public addChild(child: SceneNode<T>): SceneNode<T> {
+        child.setParent(this);
+        return child;
+    }
+
+    public removeChild(child: SceneNode<T>){
+        if(child._parent === this) child.setParent(null);
+    }
+
+    private update(){
+        if(!this.dirty) return;
+        mat4.fromRotationTranslationScale(this._localMatrix, this._rotation, this._position, this._scale);
+        if(this._parent != null) mat4.mul(this._worldMatrix, this._parent.worldMatrix, this._localMatrix);
+        else mat4.copy(this._worldMatrix, this._localMatrix);
+        mat4.invert(this._inverseWorldMatrix, this._worldMatrix);
+        this.dirty = false;
+    }
+
+    // The transformation from the node space to the parent space
+    public get localMatrix(): mat4 { this.update(); return this._localMatrix; }
+    // The transformation from the node space to the world space
+    public get worldMatrix(): mat4 { this.update(); return this._worldMatrix; }
+    // The transformation from the world space to the node space (useful for transforming normals)
+    public get inverseWorldMatrix(): mat4 { this.update(); return this._inverseWorldMatrix; }
+
+    public get worldPosition(): vec3 { return mat4.getTranslation(vec3.create(), this.worldMatrix); }
+
+    // Visits this node and all of its descendants in depth-first order (parents before children)
+    // If the callback returns false, the children of the visited node will be skipped
+    public traverse(callback: (node: SceneNode<T>) => boolean | void){
+        if(callback(this) === false) return;
+        for(const child of this._children) child.traverse(callback);
+    }
+
+    // Returns the first node (in depth-first order) with the given name or null if not found
+    public find(name: string): SceneNode<T> {
+        if(this.name === name) return this;
+        for(const child of this._children){
+            const found = child.find(name);
+            if(found != null) return found;
+        }
+        return null;
+    }
+
+    // Returns a list of all the nodes (this node and its descendants) that have data attached to them
+    public collect(): SceneNode<T>[] {
+        const nodes: SceneNode<T>[] = [];
+        this.traverse((node) => { if(node.data !== undefined) nodes.push(node); });
+        return nodes;
+    }
+}
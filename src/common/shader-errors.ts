@@ -0,0 +1,88 @@
+import { SourceLocation } from './shader-preprocessor';
+
+// This file contains the errors reported when a shader fails to compile or a program fails to link
+// Instead of only printing the info log, we parse it so that we can show the offending source lines (see error-overlay.tsx)
+
+export type ShaderStage = 'vertex' | 'fragment' | 'link';
+
+// A line of source code shown around a diagnostic
+export interface SourceExcerptLine {
+    file: string,
+    line: number,
+    text: string
+};
+
+// A single error or warning from the info log
+export interface ShaderDiagnostic {
+    severity: 'error' | 'warning',
+    file: string, // The file where the problem is (after mapping the preprocessed line back to its origin)
+    line: number, // The line in the file (0 if the log didn't specify a line)
+    message: string,
+    excerpt: SourceExcerptLine[] // The source lines around the problem (empty if the line is unknown)
+};
+
+export class ShaderCompileError extends Error {
+    stage: ShaderStage; // Which stage failed
+    sourceName: string; // The url of the shader (or the urls of all the shaders in the program if linking failed)
+    diagnostics: ShaderDiagnostic[];
+    log: string; // The raw info log returned by WebGL
+
+    constructor(stage: ShaderStage, sourceName: string, log: string, diagnostics: ShaderDiagnostic[]){
+        super(`${stage == 'link' ? `The program (${sourceName}) failed to link` : `The ${stage} shader "${sourceName}" failed to compile`}:\n` +
+            diagnostics.map(diagnostic => `${diagnostic.severity.toUpperCase()}: ${diagnostic.line > 0 ? `${diagnostic.file}:${diagnostic.line}: ` : ''}${diagnostic.message}`).join('\n'));
+        Object.setPrototypeOf(this, ShaderCompileError.prototype); // Needed for "instanceof" to work since we compile to ES5
+        this.name = 'ShaderCompileError';
+        this.stage = stage;
+        this.sourceName = sourceName;
+        this.log = log;
+        this.diagnostics = diagnostics;
+    }
+}
+
+// The compiler reports problems as "ERROR: <source string>:<line>: <message>"
+const diagnosticPattern = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+// The log usually ends with a summary such as "ERROR: 2 compilation errors.  No code generated." which we don't need
+const summaryPattern = /^(ERROR|WARNING):\s*\d+\s+compilation errors?/;
+
+// Parses the info log of a shader, "code" and "lines" are the preprocessed code and the origin of each of its lines (see Preprocess)
+// The lines before and after the problem are added to the excerpt to give some context (contextLines on each side)
+export function ParseInfoLog(log: string, code: string, lines: SourceLocation[], contextLines: number = 2): ShaderDiagnostic[] {
+    const codeLines = code.split('\n');
+    const diagnostics: ShaderDiagnostic[] = [];
+    for(const entry of log.split(/\r?\n/)){
+        const text = entry.replace(/\0/g, '').trim(); // Some drivers end the log with a null character
+        if(text.length == 0 || summaryPattern.test(text)) continue;
+        const match = diagnosticPattern.exec(text);
+        if(!match){
+            // We don't understand this line so we keep it as it is
+            diagnostics.push({ severity: /^WARNING/.test(text) ? 'warning' : 'error', file: '', line: 0, message: text, excerpt: [] });
+            continue;
+        }
+        const index = Number.parseInt(match[2]) - 1; // GLSL line numbers start from 1
+        const location = lines[index];
+        const excerpt: SourceExcerptLine[] = [];
+        for(let i = Math.max(0, index - contextLines); i <= Math.min(codeLines.length - 1, index + contextLines); i++){
+            const origin = lines[i];
+            if(origin) excerpt.push({ file: origin.file, line: origin.line, text: codeLines[i] });
+        }
+        diagnostics.push({
+            severity: match[1] == 'WARNING' ? 'warning' : 'error',
+            file: location?.file ?? '',
+            line: location?.line ?? index + 1,
+            message: match[3],
+            excerpt: excerpt
+        });
+    }
+    return diagnostics;
+}
+
+// The link log has no line numbers so each line becomes a diagnostic
+export function ParseLinkLog(log: string): ShaderDiagnostic[] {
+    return log.split(/\r?\n/).map(line => line.replace(/\0/g, '').trim()).filter(line => line.length > 0).map(line => ({
+        severity: /^WARNING/.test(line) ? 'warning' : 'error',
+        file: '',
+        line: 0,
+        message: line,
+        excerpt: []
+    } as ShaderDiagnostic));
+}
@@ -0,0 +1,118 @@
+// This file contains a small preprocessor for our GLSL shaders
+// GLSL (in WebGL) doesn't support including other files, so we add "#include" support ourselves to share code between shaders
+// We also use it to inject "#define"s from TypeScript so that constants (e.g. array sizes) are written in one place only
+
+// A shader source is the main file and all the files it includes (directly or indirectly)
+export interface ShaderSource {
+    url: string,
+    files: {[url: string]: string}
+};
+
+// The defines that will be added to the top of the shader (after the #version line)
+// true will define the name without a value (to be used with #ifdef), false will not define it at all
+export type ShaderDefines = {[name: string]: string | number | boolean};
+
+// Where did a line in the preprocessed code come from
+export interface SourceLocation {
+    file: string,
+    line: number
+};
+
+export interface PreprocessedShader {
+    code: string,
+    lines: SourceLocation[] // lines[i] is the origin of the line (i+1) in the code (GLSL line numbers start from 1)
+};
+
+// The included paths are relative to the shaders folder, for example: #include "common/lighting.glsl"
+export const ShadersRoot = 'shaders/';
+
+const includePattern = /^\s*#\s*include\s+"([^"]+)"\s*$/;
+const versionPattern = /^\s*#\s*version\b/;
+
+export function ResolveInclude(path: string): string {
+    return ShadersRoot + path;
+}
+
+// Returns the urls of the files included by the given source code
+export function FindIncludes(code: string): string[] {
+    const includes: string[] = [];
+    for(const line of code.split(/\r?\n/)){
+        const match = includePattern.exec(line);
+        if(match) includes.push(ResolveInclude(match[1]));
+    }
+    return includes;
+}
+
+// Reads a shader and all the files it includes (the text reader is given by the loader)
+export async function LoadShaderSource(url: string, readText: (url: string) => Promise<string>): Promise<ShaderSource> {
+    const source: ShaderSource = { url: url, files: {} };
+    const pending = [url];
+    while(pending.length > 0){
+        const current = pending.pop();
+        if(current in source.files) continue;
+        const code = await readText(current);
+        source.files[current] = code;
+        pending.push(...FindIncludes(code));
+    }
+    return source;
+}
+
+// Expands the includes and adds the defines
+// Each file is included only once (like "#pragma once") so including the same file twice is harmless
+// If an included file is missing, we add an "#error" directive so that the compiler reports it at the include line
+export function Preprocess(source: ShaderSource | string, defines: ShaderDefines = {}): PreprocessedShader {
+    if(typeof source === 'string') source = { url: '<source>', files: {['<source>']: source} };
+    const files = source.files;
+    const result: PreprocessedShader = { code: '', lines: [] };
+    const output: string[] = [];
+    const emit = (code: string, file: string, line: number) => {
+        output.push(code);
+        result.lines.push({ file: file, line: line });
+    };
+    const included: {[url: string]: boolean} = {};
+    let versionFound = false;
+
+    const emitDefines = () => {
+        let index = 0;
+        for(const name in defines){
+            const value = defines[name];
+            index++;
+            if(value === false) continue;
+            emit(value === true ? `#define ${name}` : `#define ${name} ${value}`, '<defines>', index);
+        }
+    };
+
+    const expand = (url: string) => {
+        included[url] = true;
+        const lines = files[url].split(/\r?\n/);
+        lines.forEach((line, index) => {
+            // The #version directive must be the first line so we put the defines right after it
+            if(!versionFound && versionPattern.test(line)){
+                versionFound = true;
+                emit(line, url, index + 1);
+                emitDefines();
+                return;
+            }
+            const match = includePattern.exec(line);
+            if(match){
+                const includedUrl = ResolveInclude(match[1]);
+                if(!(includedUrl in files)) emit(`#error missing include <${match[1]}>`, url, index + 1);
+                else if(!included[includedUrl]) expand(includedUrl);
+                return;
+            }
+            emit(line, url, index + 1);
+        });
+    };
+
+    expand(source.url);
+    if(!versionFound){ // If there is no #version, we put the defines at the top
+        const lines = result.lines;
+        result.lines = [];
+        const body = output.splice(0, output.length);
+        emitDefines();
+        output.push(...body);
+        result.lines.push(...lines);
+    }
+    result.code = output.join('\n');
+    return result;
+}
@@ -1,43 +1,346 @@
+import { ShaderSource, ShaderDefines, Preprocess } from './shader-preprocessor';
+import { ShaderCompileError, ParseInfoLog, ParseLinkLog } from './shader-errors';
+import UniformBuffer from './uniform-buffer';
+
+// This describes an active uniform found in the program after linking
+export interface UniformInfo {
+    name: string, // The name of the uniform (for arrays, we store an entry for each element "name[i]" and the array itself as "name")
+    type: number, // The GLSL type of the uniform (e.g. gl.FLOAT_VEC3, gl.SAMPLER_2D)
+    size: number, // The number of array elements (1 if it is not an array)
+    location: WebGLUniformLocation
+};
+
+// This describes an active attribute found in the program after linking
+export interface AttributeInfo {
+    name: string,
+    type: number, // The GLSL type of the attribute (e.g. gl.FLOAT_VEC3)
+    size: number,
+    location: number
+};
+
+// This describes an active uniform block found in the program after linking
+export interface UniformBlockInfo {
+    name: string,
+    index: number, // The index used to refer to the block in WebGL functions (e.g. gl.uniformBlockBinding)
+    size: number, // The minimum buffer size (in bytes) needed by the block
+    binding: number, // The binding point that the block reads from
+    members: {[name: string]: number} // The offset of each active member (the names don't include the block name and arrays are written as "name[0]")
+};
+
+// These are the values accepted by the generic uniform setter "ShaderProgram.set"
+// A value can be a number, a boolean, a vector/matrix (gl-matrix types or plain arrays), an array of them
+// or an object (or an array of objects) whose properties will be matched to the members of a GLSL struct
+export type UniformValue = number | boolean | Float32Array | Int32Array | Uint32Array | ArrayLike<number> | ArrayLike<number>[] | UniformStruct | UniformStruct[];
+export interface UniformStruct { [member: string]: UniformValue };
+
+// The flattened values of a uniform as they are sent to WebGL
+type UniformData = Float32Array | Int32Array | Uint32Array;
+
+// This describes how to upload a uniform of a specific GLSL type
+interface UniformSetter {
+    components: number, // How many numbers each element of this type needs (e.g. 3 for vec3 and 16 for mat4)
+    array: Float32ArrayConstructor | Int32ArrayConstructor | Uint32ArrayConstructor, // The array type that WebGL expects
+    upload: (location: WebGLUniformLocation, data: UniformData) => void
+};
+
+// This maps a GLSL uniform type (as returned by gl.getActiveUniform) to the setter we need to call
+function getUniformSetter(gl: WebGL2RenderingContext, type: number): UniformSetter {
+    switch(type){
+        case gl.FLOAT: return { components: 1, array: Float32Array, upload: (l, d) => gl.uniform1fv(l, d) };
+        case gl.FLOAT_VEC2: return { components: 2, array: Float32Array, upload: (l, d) => gl.uniform2fv(l, d) };
+        case gl.FLOAT_VEC3: return { components: 3, array: Float32Array, upload: (l, d) => gl.uniform3fv(l, d) };
+        case gl.FLOAT_VEC4: return { components: 4, array: Float32Array, upload: (l, d) => gl.uniform4fv(l, d) };
+        case gl.INT: case gl.BOOL: return { components: 1, array: Int32Array, upload: (l, d) => gl.uniform1iv(l, d) };
+        case gl.INT_VEC2: case gl.BOOL_VEC2: return { components: 2, array: Int32Array, upload: (l, d) => gl.uniform2iv(l, d) };
+        case gl.INT_VEC3: case gl.BOOL_VEC3: return { components: 3, array: Int32Array, upload: (l, d) => gl.uniform3iv(l, d) };
+        case gl.INT_VEC4: case gl.BOOL_VEC4: return { components: 4, array: Int32Array, upload: (l, d) => gl.uniform4iv(l, d) };
+        case gl.UNSIGNED_INT: return { components: 1, array: Uint32Array, upload: (l, d) => gl.uniform1uiv(l, d) };
+        case gl.UNSIGNED_INT_VEC2: return { components: 2, array: Uint32Array, upload: (l, d) => gl.uniform2uiv(l, d) };
+        case gl.UNSIGNED_INT_VEC3: return { components: 3, array: Uint32Array, upload: (l, d) => gl.uniform3uiv(l, d) };
+        case gl.UNSIGNED_INT_VEC4: return { components: 4, array: Uint32Array, upload: (l, d) => gl.uniform4uiv(l, d) };
+        case gl.FLOAT_MAT2: return { components: 4, array: Float32Array, upload: (l, d) => gl.uniformMatrix2fv(l, false, d) };
+        case gl.FLOAT_MAT3: return { components: 9, array: Float32Array, upload: (l, d) => gl.uniformMatrix3fv(l, false, d) };
+        case gl.FLOAT_MAT4: return { components: 16, array: Float32Array, upload: (l, d) => gl.uniformMatrix4fv(l, false, d) };
+        case gl.FLOAT_MAT2x3: return { components: 6, array: Float32Array, upload: (l, d) => gl.uniformMatrix2x3fv(l, false, d) };
+        case gl.FLOAT_MAT2x4: return { components: 8, array: Float32Array, upload: (l, d) => gl.uniformMatrix2x4fv(l, false, d) };
+        case gl.FLOAT_MAT3x2: return { components: 6, array: Float32Array, upload: (l, d) => gl.uniformMatrix3x2fv(l, false, d) };
+        case gl.FLOAT_MAT3x4: return { components: 12, array: Float32Array, upload: (l, d) => gl.uniformMatrix3x4fv(l, false, d) };
+        case gl.FLOAT_MAT4x2: return { components: 8, array: Float32Array, upload: (l, d) => gl.uniformMatrix4x2fv(l, false, d) };
+        case gl.FLOAT_MAT4x3: return { components: 12, array: Float32Array, upload: (l, d) => gl.uniformMatrix4x3fv(l, false, d) };
+        // Samplers are set to the texture unit they should read from
+        case gl.SAMPLER_2D: case gl.SAMPLER_3D: case gl.SAMPLER_CUBE: case gl.SAMPLER_2D_SHADOW:
+        case gl.SAMPLER_2D_ARRAY: case gl.SAMPLER_2D_ARRAY_SHADOW: case gl.SAMPLER_CUBE_SHADOW:
+        case gl.INT_SAMPLER_2D: case gl.INT_SAMPLER_3D: case gl.INT_SAMPLER_CUBE: case gl.INT_SAMPLER_2D_ARRAY:
+        case gl.UNSIGNED_INT_SAMPLER_2D: case gl.UNSIGNED_INT_SAMPLER_3D: case gl.UNSIGNED_INT_SAMPLER_CUBE: case gl.UNSIGNED_INT_SAMPLER_2D_ARRAY:
+            return { components: 1, array: Int32Array, upload: (l, d) => gl.uniform1iv(l, d) };
+        default: return null;
+    }
+}
+
+// The arguments given to "attach" are stored so that the program can be rebuilt later (see ShaderProgram.rebuild)
+interface AttachedShader {
+    source: string | ShaderSource,
+    type: number,
+    defines: ShaderDefines
+};
+
+// Checks if a value is a list of numbers (e.g. a gl-matrix vector or matrix) 
+function isNumberArray(value: unknown): value is ArrayLike<number> {
+    return ArrayBuffer.isView(value) || (Array.isArray(value) && (value.length == 0 || typeof value[0] === 'number' || typeof value[0] === 'boolean'));
+}
+
 // This class is responsible for handling shaders for us
 // Since this is a common operation in all of our scenes, we will write in a class to reuse it every where
 export default class ShaderProgram {
     gl: WebGL2RenderingContext;
     program: WebGLProgram;
+
+    // After linking, we ask WebGL about the active uniforms and attributes and cache them here
+    // Calling gl.getUniformLocation every time we set a uniform is slow so we only do it once after linking
+    private uniforms: {[name: string]: UniformInfo} = {};
+    private setters: {[name: string]: UniformSetter} = {}; // The setter of each uniform (picked from its type once after linking)
+    private attributes: {[name: string]: AttributeInfo} = {};
+    private warnedUniforms: {[name: string]: boolean} = {}; // We only warn once about each unknown uniform to avoid flooding the console
+    private structArrays: {[name: string]: number} = {}; // The (active) length of each array of structs (e.g. "point_lights" in "point_lights[3].enabled")
+    private uniformBlocks: {[name: string]: UniformBlockInfo} = {};
+    private blockBuffers: {[name: string]: UniformBuffer} = {}; // The buffers bound to the blocks (we bind them again after rebuilding the program)
+    private stages: AttachedShader[] = []; // The shaders attached to this program (used to rebuild it)
+    private errors: ShaderCompileError[] = []; // The errors from the last time we built the program (empty if it succeeded)
+    private linked: boolean = false; // Whether the program was linked successfully (so it can be used for drawing)
+
+    // All the programs that are not disposed yet (used to rebuild them when the shader files are reloaded)
+    private static live: ShaderProgram[] = [];
+    public static get Live(): readonly ShaderProgram[] { return ShaderProgram.live; }
+
+    // The sets that collect the programs created inside "Collect" (the innermost one is last)
+    private static collectors: Set<ShaderProgram>[] = [];
+
+    // Runs "body" and adds every program created while it runs to "programs" (used to know which programs belong to a scene)
+    public static Collect<T>(programs: Set<ShaderProgram>, body: () => T): T {
+        ShaderProgram.collectors.push(programs);
+        try {
+            return body();
+        } finally {
+            ShaderProgram.collectors.pop();
+        }
+    }
     
     constructor(gl: WebGL2RenderingContext){
         this.gl = gl;
         this.program = this.gl.createProgram(); // Tell webgl to create an empty program (we will attach the shaders to it later)
+        ShaderProgram.live.push(this);
+        if(ShaderProgram.collectors.length > 0) ShaderProgram.collectors[ShaderProgram.collectors.length - 1].add(this);
     }
 
     public dispose(): void {
         this.gl.deleteProgram(this.program); // Tell webgl to delete our program
+        const index = ShaderProgram.live.indexOf(this);
+        if(index >= 0) ShaderProgram.live.splice(index, 1);
     }
 
     // This function compiles a shader from source and if the compilation was successful, it attaches it to the program
-    // source: the source code of the shader
+    // source: the source code of the shader (or a shader loaded using the loader type 'shader' if it includes other files)
     // type: the type of the shader, it can be gl.VERTEX_SHADER or gl.FRAGMENT_SHADER
-    public attach(source: string, type: number): boolean {
-        let shader = this.gl.createShader(type); // Create an empty shader of the given type
-        this.gl.shaderSource(shader, source); // Add the source code to the shader
+    // defines: the defines that will be added to the source code before compiling it
+    // If it fails, the error is printed and stored in "Errors" (it is not thrown so that the scene can report all the failed shaders at once)
+    public attach(source: string | ShaderSource, type: number, defines: ShaderDefines = {}): boolean {
+        this.stages.push({ source: source, type: type, defines: defines }); // We remember the stage even if it fails so that a fixed version can be compiled by "rebuild"
+        return this.compileAndAttach(this.program, this.stages[this.stages.length - 1], this.errors);
+    }
+
+    private compileAndAttach(program: WebGLProgram, stage: AttachedShader, errors: ShaderCompileError[]): boolean {
+        const preprocessed = Preprocess(stage.source, stage.defines); // Expand the includes and add the defines
+        let shader = this.gl.createShader(stage.type); // Create an empty shader of the given type
+        this.gl.shaderSource(shader, preprocessed.code); // Add the source code to the shader
         this.gl.compileShader(shader); // Now, we compile the shader
-        if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) { // If the shader failed to compile, we print the error messages, delete the shader and return 
-            console.error(`An error occurred compiling the ${{[this.gl.VERTEX_SHADER]:"vertex", [this.gl.FRAGMENT_SHADER]:"fragment"}[type]} shader: ${this.gl.getShaderInfoLog(shader)}`);
+        if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) { // If the shader failed to compile, we report the error (with the lines mapped back to the original files), delete the shader and return 
+            const log = this.gl.getShaderInfoLog(shader);
+            const error = new ShaderCompileError(
+                stage.type == this.gl.VERTEX_SHADER ? 'vertex' : 'fragment',
+                ShaderProgram.sourceName(stage.source),
+                log,
+                ParseInfoLog(log, preprocessed.code, preprocessed.lines)
+            );
+            console.error(error.message);
+            errors.push(error);
             this.gl.deleteShader(shader);
             return false;
         }
-        this.gl.attachShader(this.program, shader); // If it compiled successfully, we attach it to the program
+        this.gl.attachShader(program, shader); // If it compiled successfully, we attach it to the program
         this.gl.deleteShader(shader); // Now that the shader is attached, we don't need to keep its object anymore, so we delete it.
         return true;
     }
 
     // After attaching all the shader we need for our program, we link the whole program
     public link(): boolean {
-        this.gl.linkProgram(this.program); // Tell webgl to link the programs
-        if (!this.gl.getProgramParameter(this.program, this.gl.LINK_STATUS)) { // Check if the linking failed (the shaders could be incompatible)
-            console.error('Unable to initialize the shader program: ' + this.gl.getProgramInfoLog(this.program));
+        if(this.errors.length > 0) return false; // If a shader failed to compile, linking will fail too so we don't add more errors
+        if(!this.linkProgram(this.program, this.errors)) return false;
+        this.linked = true;
+        this.reflect();
+        return true;
+    }
+
+    private linkProgram(program: WebGLProgram, errors: ShaderCompileError[]): boolean {
+        this.gl.linkProgram(program); // Tell webgl to link the programs
+        if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) { // Check if the linking failed (the shaders could be incompatible)
+            const log = this.gl.getProgramInfoLog(program);
+            const diagnostics = ParseLinkLog(log);
+            const error = new ShaderCompileError('link', this.stages.map(stage => ShaderProgram.sourceName(stage.source)).join(', '), log, diagnostics.length > 0 ? diagnostics : ParseLinkLog('Unknown link error'));
+            console.error(error.message);
+            errors.push(error);
             return false;
-        } else {
-            return true;
+        }
+        return true;
+    }
+
+    // The name of the source used in error messages (the url if the source was read by the loader)
+    private static sourceName(source: string | ShaderSource): string {
+        return typeof source === 'string' ? '<source>' : source.url;
+    }
+
+    // The errors from the last attempt to build the program (attach, link or rebuild)
+    public get Errors(): readonly ShaderCompileError[] { return this.errors; }
+    // Whether the program is linked and can be used for drawing (after a failed rebuild, this stays true since the old program is kept)
+    public get Linked(): boolean { return this.linked; }
+
+    // This compiles the attached shaders again (from the same sources and defines) into a new program and links it
+    // If everything succeeds, the new program replaces the old one. Otherwise, the old program is kept so the scene continues to work
+    // This is useful for hot-reloading: the loader updates the shader sources in place (see Loader.reload) then we rebuild the programs
+    // Note: the uniform values are not copied to the new program so they must be set again before drawing
+    public rebuild(): boolean {
+        const program = this.gl.createProgram();
+        const errors: ShaderCompileError[] = [];
+        for(const stage of this.stages) this.compileAndAttach(program, stage, errors); // We compile all the stages to report all the errors at once
+        this.errors = errors;
+        if(errors.length > 0 || !this.linkProgram(program, errors)){
+            this.gl.deleteProgram(program);
+            return false;
+        }
+        this.gl.deleteProgram(this.program);
+        this.program = program;
+        this.linked = true;
+        this.reflect();
+        return true;
+    }
+
+    // This reads the active uniforms and attributes from the linked program and caches their information
+    private reflect() {
+        this.uniforms = {};
+        this.setters = {};
+        this.attributes = {};
+        this.warnedUniforms = {};
+        this.structArrays = {};
+        this.uniformBlocks = {};
+        const uniformCount: number = this.gl.getProgramParameter(this.program, this.gl.ACTIVE_UNIFORMS);
+        for(let index = 0; index < uniformCount; index++){
+            const info = this.gl.getActiveUniform(this.program, index);
+            // Uniforms inside uniform blocks have no location, so we skip them
+            const location = this.gl.getUniformLocation(this.program, info.name);
+            if(location === null) continue;
+            // If the uniform is a member of an array of structs, we record the array length (the highest active index + 1)
+            const structArrayPattern = /\[(\d+)\]\./g;
+            let match: RegExpExecArray;
+            while((match = structArrayPattern.exec(info.name)) !== null){
+                const base = info.name.substr(0, match.index);
+                this.structArrays[base] = Math.max(this.structArrays[base] ?? 0, Number.parseInt(match[1]) + 1);
+            }
+            if(info.name.endsWith("[0]")){
+                // For arrays, WebGL only returns the first element "name[0]" with the array size, so we find the location of each element
+                const base = info.name.substr(0, info.name.length - 3);
+                const setter = getUniformSetter(this.gl, info.type);
+                this.uniforms[base] = { name: base, type: info.type, size: info.size, location: location };
+                this.setters[base] = setter;
+                for(let element = 0; element < info.size; element++){
+                    const name = `${base}[${element}]`;
+                    this.uniforms[name] = { name: name, type: info.type, size: 1, location: element == 0 ? location : this.gl.getUniformLocation(this.program, name) };
+                    this.setters[name] = setter;
+                }
+            } else {
+                this.uniforms[info.name] = { name: info.name, type: info.type, size: info.size, location: location };
+                this.setters[info.name] = getUniformSetter(this.gl, info.type);
+            }
+        }
+        const attributeCount: number = this.gl.getProgramParameter(this.program, this.gl.ACTIVE_ATTRIBUTES);
+        for(let index = 0; index < attributeCount; index++){
+            const info = this.gl.getActiveAttrib(this.program, index);
+            this.attributes[info.name] = { name: info.name, type: info.type, size: info.size, location: this.gl.getAttribLocation(this.program, info.name) };
+        }
+        const blockCount: number = this.gl.getProgramParameter(this.program, this.gl.ACTIVE_UNIFORM_BLOCKS);
+        for(let index = 0; index < blockCount; index++){
+            const name = this.gl.getActiveUniformBlockName(this.program, index);
+            const indices: Uint32Array = this.gl.getActiveUniformBlockParameter(this.program, index, this.gl.UNIFORM_BLOCK_ACTIVE_UNIFORM_INDICES);
+            const offsets: number[] = this.gl.getActiveUniforms(this.program, Array.from(indices), this.gl.UNIFORM_OFFSET);
+            const members: {[name: string]: number} = {};
+            indices.forEach((uniformIndex, i) => {
+                // If the block has an instance name (e.g. "uniform Light {...} light;"), the member names start with the block name ("Light.color")
+                let member = this.gl.getActiveUniform(this.program, uniformIndex).name;
+                if(member.startsWith(name + '.')) member = member.substr(name.length + 1);
+                members[member] = offsets[i];
+            });
+            this.uniformBlocks[name] = {
+                name: name,
+                index: index,
+                size: this.gl.getActiveUniformBlockParameter(this.program, index, this.gl.UNIFORM_BLOCK_DATA_SIZE),
+                binding: this.gl.getActiveUniformBlockParameter(this.program, index, this.gl.UNIFORM_BLOCK_BINDING),
+                members: members
+            };
+        }
+        // If the program was rebuilt, we connect the blocks to their buffers again
+        for(const name in this.blockBuffers){
+            if(name in this.uniformBlocks) this.bindUniformBlock(name, this.blockBuffers[name]);
+        }
+    }
+
+    //
+    // Reflection (Information about the active uniforms and attributes after linking)
+    //
+
+    public get Uniforms(): {readonly [name: string]: UniformInfo} { return this.uniforms; }
+    public get Attributes(): {readonly [name: string]: AttributeInfo} { return this.attributes; }
+
+    public get UniformBlocks(): {readonly [name: string]: UniformBlockInfo} { return this.uniformBlocks; }
+
+    public hasUniform(name: string): boolean { return name in this.uniforms; }
+    public getUniformInfo(name: string): UniformInfo { return this.uniforms[name]; }
+    public getAttributeInfo(name: string): AttributeInfo { return this.attributes[name]; }
+
+    // Returns the cached location of a uniform
+    // If the uniform is not active (it doesn't exist or was optimized away by the compiler), we warn once and return null (WebGL ignores setting null locations)
+    public getUniformLocation(name: string): WebGLUniformLocation {
+        const info = this.uniforms[name];
+        if(info) return info.location;
+        if(!this.warnedUniforms[name]){
+            console.warn(`The uniform "${name}" is not an active uniform in the shader program`);
+            this.warnedUniforms[name] = true;
+        }
+        return null;
+    }
+
+    // Makes the uniform block read its data from the given buffer
+    // The first time a buffer is bound to a block, we check that the layout of the buffer matches the block (the offsets of the members and the size)
+    public bindUniformBlock(name: string, buffer: UniformBuffer) {
+        const block = this.uniformBlocks[name];
+        if(block === undefined){
+            if(!this.warnedUniforms[name]){
+                console.warn(`The uniform block "${name}" is not an active uniform block in the shader program`);
+                this.warnedUniforms[name] = true;
+            }
+            return;
+        }
+        if(this.blockBuffers[name] !== buffer) this.validateUniformBlock(block, buffer);
+        this.blockBuffers[name] = buffer;
+        if(block.binding !== buffer.bindingPoint){
+            this.gl.uniformBlockBinding(this.program, block.index, buffer.bindingPoint);
+            block.binding = buffer.bindingPoint;
+        }
+    }
+
+    private validateUniformBlock(block: UniformBlockInfo, buffer: UniformBuffer) {
+        if(buffer.Size < block.size) console.error(`The buffer bound to the uniform block "${block.name}" is too small (${buffer.Size} bytes while the block needs ${block.size} bytes)`);
+        for(const member in block.members){
+            const field = buffer.Layout.fields[member] ?? buffer.Layout.fields[member.replace(/\[0\]$/, '')];
+            if(field === undefined) console.error(`The member "${member}" of the uniform block "${block.name}" is missing from the buffer layout`);
+            else if(field.offset !== block.members[member]) console.error(`The member "${member}" of the uniform block "${block.name}" is at offset ${block.members[member]} but the buffer stores it at offset ${field.offset}`);
         }
     }
 
@@ -45,6 +348,70 @@ export default class ShaderProgram {
         this.gl.useProgram(this.program);
     }
 
+    //
+    // Generic Uniform Setter (uses the reflected type of the uniform to pick the right WebGL function)
+    //
+
+    // Examples:
+    //  set("M", modelMatrix) => calls uniformMatrix4fv if M is a mat4
+    //  set("light", {color, direction, shadowVPs: [VP0, VP1]}) => sets "light.color", "light.direction" and "light.shadowVPs"
+    //  set("point_lights", [{enabled: true, ...}, {enabled: false, ...}]) => sets each element of the struct array
+    // Note: samplers should be given the texture unit they read from
+    public set(name: string, value: UniformValue) {
+        const info = this.uniforms[name];
+        if(info !== undefined){
+            this.setValue(info, value);
+        } else if(name in this.structArrays && Array.isArray(value) && !isNumberArray(value)){
+            // This is an array of structs, so we set each element separately
+            const length = this.structArrays[name];
+            if(value.length > length){
+                console.error(`The uniform "${name}" has ${length} active elements but ${value.length} were given`);
+                return;
+            }
+            for(let index = 0; index < value.length; index++) this.set(`${name}[${index}]`, (value as UniformValue[])[index]);
+        } else if(typeof value === 'object' && !Array.isArray(value) && !ArrayBuffer.isView(value)){
+            // This is a struct, so we set each member separately
+            const struct = value as UniformStruct;
+            for(const member in struct) this.set(`${name}.${member}`, struct[member]);
+        } else {
+            this.getUniformLocation(name); // This will warn (once) that the uniform is not found
+        }
+    }
+
+    private setValue(info: UniformInfo, value: UniformValue) {
+        const setter = this.setters[info.name];
+        if(setter === null){
+            console.error(`The uniform "${info.name}" has an unsupported type (${info.type})`);
+            return;
+        }
+        // First, we flatten the value into a single typed array
+        let data: UniformData;
+        if(value instanceof setter.array){
+            data = value;
+        } else if(typeof value === 'number' || typeof value === 'boolean' || isNumberArray(value) || (Array.isArray(value) && (value as unknown[]).every(isNumberArray))){
+            const parts: ArrayLike<number>[] = (typeof value === 'number' || typeof value === 'boolean') ? [[Number(value)]] : isNumberArray(value) ? [value] : value as ArrayLike<number>[];
+            data = new setter.array(parts.reduce((total, part) => total + part.length, 0));
+            let offset = 0;
+            for(const part of parts){
+                for(let index = 0; index < part.length; index++) data[offset++] = Number(part[index]);
+            }
+        } else {
+            console.error(`The value given to the uniform "${info.name}" can't be converted to a list of numbers`);
+            return;
+        }
+        // Then, we make sure that its size matches the declared size
+        if(data.length % setter.components != 0){
+            console.error(`The uniform "${info.name}" needs multiples of ${setter.components} values but ${data.length} were given`);
+            return;
+        }
+        const elements = data.length / setter.components;
+        if(elements > info.size){
+            console.error(`The uniform "${info.name}" has ${info.size} elements but ${elements} were given`);
+            return;
+        }
+        setter.upload(info.location, data);
+    }
+
     //
     // Uniform Setters (For convenience)
     //
@@ -52,143 +419,143 @@ export default class ShaderProgram {
     // One Component Setters
 
     public setUniform1f(name: string, x: number) {
-        this.gl.uniform1f(this.gl.getUniformLocation(this.program, name), x);
+        this.gl.uniform1f(this.getUniformLocation(name), x);
     }
 
     public setUniform1fv(name: string, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform1fv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform1fv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform1i(name: string, x: number) {
-        this.gl.uniform1i(this.gl.getUniformLocation(this.program, name), x);
+        this.gl.uniform1i(this.getUniformLocation(name), x);
     }
 
     public setUniform1iv(name: string, data: Int32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform1iv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform1iv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform1ui(name: string, x: number) {
-        this.gl.uniform1ui(this.gl.getUniformLocation(this.program, name), x);
+        this.gl.uniform1ui(this.getUniformLocation(name), x);
     }
 
     public setUniform1uiv(name: string, data: Uint32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform1uiv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform1uiv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     // Two Component Setters
 
     public setUniform2f(name: string, v: Float32Array | ArrayLike<number>) {
-        this.gl.uniform2f(this.gl.getUniformLocation(this.program, name), v[0], v[1]);
+        this.gl.uniform2f(this.getUniformLocation(name), v[0], v[1]);
     }
 
     public setUniform2fv(name: string, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform2fv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform2fv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform2i(name: string, v: Int32Array | ArrayLike<number>) {
-        this.gl.uniform2i(this.gl.getUniformLocation(this.program, name), v[0], v[1]);
+        this.gl.uniform2i(this.getUniformLocation(name), v[0], v[1]);
     }
 
     public setUniform2iv(name: string, data: Int32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform2iv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform2iv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform2ui(name: string, v: Uint32Array | ArrayLike<number>) {
-        this.gl.uniform2ui(this.gl.getUniformLocation(this.program, name), v[0], v[1]);
+        this.gl.uniform2ui(this.getUniformLocation(name), v[0], v[1]);
     }
 
     public setUniform2uiv(name: string, data: Uint32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform2uiv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform2uiv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     // Three Component Setters
 
     public setUniform3f(name: string, v: Float32Array | ArrayLike<number>) {
-        this.gl.uniform3f(this.gl.getUniformLocation(this.program, name), v[0], v[1], v[2]);
+        this.gl.uniform3f(this.getUniformLocation(name), v[0], v[1], v[2]);
     }
 
     public setUniform3fv(name: string, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform3fv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform3fv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform3i(name: string, v: Int32Array | ArrayLike<number>) {
-        this.gl.uniform3i(this.gl.getUniformLocation(this.program, name), v[0], v[1], v[2]);
+        this.gl.uniform3i(this.getUniformLocation(name), v[0], v[1], v[2]);
     }
 
     public setUniform3iv(name: string, data: Int32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform3iv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform3iv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform3ui(name: string, v: Uint32Array | ArrayLike<number>) {
-        this.gl.uniform3ui(this.gl.getUniformLocation(this.program, name), v[0], v[1], v[2]);
+        this.gl.uniform3ui(this.getUniformLocation(name), v[0], v[1], v[2]);
     }
 
     public setUniform3uiv(name: string, data: Uint32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform3uiv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform3uiv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     // four Component Setters
 
     public setUniform4f(name: string, v: Float32Array | ArrayLike<number>) {
-        this.gl.uniform4f(this.gl.getUniformLocation(this.program, name), v[0], v[1], v[2], v[3]);
+        this.gl.uniform4f(this.getUniformLocation(name), v[0], v[1], v[2], v[3]);
     }
 
     public setUniform4fv(name: string, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform4fv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform4fv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform4i(name: string, v: Int32Array | ArrayLike<number>) {
-        this.gl.uniform4i(this.gl.getUniformLocation(this.program, name), v[0], v[1], v[2], v[3]);
+        this.gl.uniform4i(this.getUniformLocation(name), v[0], v[1], v[2], v[3]);
     }
 
     public setUniform4iv(name: string, data: Int32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform4iv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform4iv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     public setUniform4ui(name: string, v: Uint32Array | ArrayLike<number>) {
-        this.gl.uniform4ui(this.gl.getUniformLocation(this.program, name), v[0], v[1], v[2], v[3]);
+        this.gl.uniform4ui(this.getUniformLocation(name), v[0], v[1], v[2], v[3]);
     }
 
     public setUniform4uiv(name: string, data: Uint32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number) {
-        this.gl.uniform4uiv(this.gl.getUniformLocation(this.program, name), data, srcOffset, srcLength);
+        this.gl.uniform4uiv(this.getUniformLocation(name), data, srcOffset, srcLength);
     }
 
     // Matrix Setters
 
     public setUniformMatrix2fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix2fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix2fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix2x3fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix2x3fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix2x3fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix2x4fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix2x4fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix2x4fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix3fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix3fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix3fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix3x2fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix3x2fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix3x2fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix3x4fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix3x4fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix3x4fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix4fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix4fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix4fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setUniformMatrix4x2fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix4x2fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix4x2fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
     
     public setUniformMatrix4x3fv(name: string, transpose: boolean, data: Float32Array | ArrayLike<number>, srcOffset?: number, srcLength?: number){
-        this.gl.uniformMatrix4x3fv(this.gl.getUniformLocation(this.program, name), transpose, data, srcOffset, srcLength);
+        this.gl.uniformMatrix4x3fv(this.getUniformLocation(name), transpose, data, srcOffset, srcLength);
     }
 
     public setTexture(name: string, unit: number, target: number, texture: WebGLTexture, sampler?: WebGLSampler){
@@ -0,0 +1,97 @@
+import ShaderProgram from './shader-program';
+import { ShaderSource, ShaderDefines } from './shader-preprocessor';
+
+// This file contains a cache for shader variants (also called permutations)
+// Many shaders differ only slightly (e.g. the light type or whether shadows are enabled), so instead of writing a file for each case,
+// we write one base shader that uses "#ifdef"s and compile it with different keywords whenever a scene asks for a new combination
+
+// The keywords requested by the scene. They are converted to defines as follows:
+// - A string value adds the define "<NAME>_<VALUE>" (e.g. {LIGHT: "point"} defines LIGHT_POINT)
+// - true adds the define "<NAME>" (e.g. {SHADOW: true} defines SHADOW) and false adds nothing
+// - A number adds the define "<NAME>" with the number as its value (e.g. {SAMPLES: 16} defines SAMPLES as 16)
+export type ShaderKeywords = {[name: string]: string | number | boolean};
+
+// A base shader is the source code of the vertex and fragment shaders and the defines shared by all of its variants
+export interface ShaderVariantBase {
+    vertex: string | ShaderSource,
+    fragment: string | ShaderSource,
+    defines?: ShaderDefines
+};
+
+// Converts the keywords to the defines that will be added to the shaders
+export function KeywordDefines(keywords: ShaderKeywords): ShaderDefines {
+    const defines: ShaderDefines = {};
+    for(const name in keywords){
+        const value = keywords[name];
+        if(typeof value === 'string') defines[`${name}_${value}`.toUpperCase()] = true;
+        else defines[name] = value;
+    }
+    return defines;
+}
+
+// Builds a key that identifies a variant, the keywords are sorted so the order in which they are written doesn't matter
+// Keywords set to false are skipped since they produce the same code as if they were not written at all
+export function VariantKey(name: string, keywords: ShaderKeywords): string {
+    const parts = Object.keys(keywords).filter(keyword => keywords[keyword] !== false).sort().map(keyword => `${keyword}=${keywords[keyword]}`);
+    return `${name}{${parts.join(',')}}`;
+}
+
+export default class ShaderVariantCache {
+    gl: WebGL2RenderingContext;
+
+    private bases: {[name: string]: ShaderVariantBase} = {};
+    private variants: {[key: string]: ShaderProgram} = {}; // The programs that were already compiled and linked (stored by their variant key)
+
+    constructor(gl: WebGL2RenderingContext){
+        this.gl = gl;
+    }
+
+    // Adds a base shader that variants can be created from
+    // If a base with the same name already exists, it is replaced and its compiled variants are deleted
+    public register(name: string, base: ShaderVariantBase){
+        if(name in this.bases) this.disposeVariants(name);
+        this.bases[name] = base;
+    }
+
+    public has(name: string): boolean { return name in this.bases; }
+
+    // Returns the program for the requested variant, it is compiled and linked the first time it is requested then reused afterwards
+    // If compilation fails, the failed program is still cached so that we don't retry (and log the same errors) every frame
+    public getVariant(name: string, keywords: ShaderKeywords = {}): ShaderProgram {
+        const key = VariantKey(name, keywords);
+        let program = this.variants[key];
+        if(program !== undefined) return program;
+        const base = this.bases[name];
+        if(base === undefined){
+            console.error(`There is no shader named "${name}" in the variant cache`);
+            return null;
+        }
+        const defines = {...(base.defines ?? {}), ...KeywordDefines(keywords)};
+        program = new ShaderProgram(this.gl);
+        if(!(program.attach(base.vertex, this.gl.VERTEX_SHADER, defines) &&
+            program.attach(base.fragment, this.gl.FRAGMENT_SHADER, defines) &&
+            program.link())){
+            console.error(`Failed to build the shader variant ${key}`);
+        }
+        this.variants[key] = program;
+        return program;
+    }
+
+    // The keys of the variants that were compiled so far (useful for debugging)
+    public get Variants(): string[] { return Object.keys(this.variants); }
+
+    private disposeVariants(name: string){
+        for(const key in this.variants){
+            if(!key.startsWith(`${name}{`)) continue;
+            this.variants[key].dispose();
+            delete this.variants[key];
+        }
+    }
+
+    // Deletes all the compiled programs and forgets the base shaders
+    public dispose(){
+        for(const key in this.variants) this.variants[key].dispose();
+        this.variants = {};
+        this.bases = {};
+    }
+}
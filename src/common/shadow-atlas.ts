@@ -0,0 +1,109 @@
+import * as TextureUtils from './texture-utils';
+
+// This file contains a shadow atlas: one large depth texture that holds the shadow maps (tiles) of many lights
+// Instead of a texture (and a texture unit) for each shadow map, every cascade, spot light and cube face gets a square tile of the atlas
+// The tiles are reallocated every frame (the shadow maps are redrawn every frame anyway) so the resolution of each tile can follow how important it is on the screen
+// The tiles are allocated like a quadtree: every tile size is a power of two and a free square is split into 4 quadrants until it has the requested size
+// The requests are served in order of importance and a request that doesn't fit is halved until it fits (or until it reaches the minimum tile size)
+// A request can ask for several tiles of the same size (e.g. the 6 faces of a point light) which are allocated together: either all of them fit or the request gets none
+// Usage: call "allocate" with the requests then draw each tile after "beginTile" and read it in the shader with the UV rectangle "rect"
+
+// A request for tiles: the resolution the shadow maps would like to have, how important they are (in the range [0, 1], the resolution is scaled by it) and how many tiles are needed (1 by default)
+export interface ShadowTileRequest {
+    resolution: number,
+    importance: number,
+    count?: number
+};
+
+// A square of the atlas (in texels) and its UV rectangle (x, y, width, height) which is sent to the shaders
+export interface ShadowTile {
+    x: number,
+    y: number,
+    size: number,
+    rect: [number, number, number, number]
+};
+
+type Square = { x: number, y: number, size: number };
+
+export default class ShadowAtlas {
+    gl: WebGL2RenderingContext;
+    texture: WebGLTexture;
+    size: number; // The width and height of the atlas in texels
+    minTileSize: number = 64; // The tiles are never smaller than this (if even this doesn't fit, the request gets no tile)
+
+    constructor(gl: WebGL2RenderingContext, size: number = 4096){
+        this.gl = gl;
+        this.size = Math.min(size, gl.getParameter(gl.MAX_TEXTURE_SIZE));
+        this.texture = TextureUtils.RenderTexture(gl, [this.size, this.size], gl.DEPTH_COMPONENT32F);
+    }
+
+    // Returns the tiles of each request (an empty list if they didn't fit)
+    public allocate(requests: ShadowTileRequest[]): ShadowTile[][] {
+        const free: Square[] = [{ x: 0, y: 0, size: this.size }];
+        const tiles: ShadowTile[][] = requests.map(() => []);
+        // The most important requests are served first (the sort is stable so equal requests keep their order)
+        const order = requests.map((_, index) => index).sort((a, b) => requests[b].importance - requests[a].importance);
+        for(const index of order){
+            const request = requests[index];
+            const scaled = request.resolution * Math.min(Math.max(request.importance, 0), 1);
+            let size = this.powerOfTwo(Math.min(Math.max(scaled, this.minTileSize), this.size));
+            for(; size >= this.minTileSize; size /= 2){
+                const squares = this.takeAll(free, size, request.count ?? 1);
+                if(squares == null) continue;
+                tiles[index] = squares.map(square => ({ ...square, rect: [square.x / this.size, square.y / this.size, size / this.size, size / this.size] }));
+                break;
+            }
+        }
+        return tiles;
+    }
+
+    // Sets the viewport to the tile (the atlas must be attached to the bound frame buffer)
+    public beginTile(tile: ShadowTile){
+        this.gl.viewport(tile.x, tile.y, tile.size, tile.size);
+    }
+
+    public dispose(){
+        this.gl.deleteTexture(this.texture);
+    }
+
+    // The largest power of two that is not larger than the value
+    private powerOfTwo(value: number): number {
+        return Math.pow(2, Math.floor(Math.log2(value)));
+    }
+
+    // Removes "count" squares of the given size from the free squares
+    // If they don't all fit, the free squares are restored (so a partial request doesn't take space from the next requests) and null is returned
+    private takeAll(free: Square[], size: number, count: number): Square[] {
+        const saved = free.slice();
+        const squares: Square[] = [];
+        for(let i = 0; i < count; i++){
+            const square = this.take(free, size);
+            if(square == null){
+                free.splice(0, free.length, ...saved);
+                return null;
+            }
+            squares.push(square);
+        }
+        return squares;
+    }
+
+    // Removes a square of the given size from the free squares (the smallest free square that fits is split into quadrants until it has the size)
+    private take(free: Square[], size: number): Square {
+        let best = -1;
+        for(let i = 0; i < free.length; i++){
+            if(free[i].size >= size && (best < 0 || free[i].size < free[best].size)) best = i;
+        }
+        if(best < 0) return null;
+        let square = free.splice(best, 1)[0];
+        while(square.size > size){
+            const half = square.size / 2;
+            free.push(
+                { x: square.x + half, y: square.y, size: half },
+                { x: square.x, y: square.y + half, size: half },
+                { x: square.x + half, y: square.y + half, size: half }
+            );
+            square = { x: square.x, y: square.y, size: half };
+        }
+        return square;
+    }
+}
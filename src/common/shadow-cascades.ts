@@ -0,0 +1,133 @@
+import { vec3, mat4 } from 'gl-matrix';
+import Loader from './loader';
+import Camera from './camera';
+import ShaderVariantCache from './shader-variants';
+import FullscreenPass from './fullscreen-pass';
+
+// This file contains the cascade computations of Cascaded Shadow Maps (CSM) for directional lights
+// The view frustum of the camera is split along the view direction into slices and each slice (a cascade) gets its own orthographic shadow map
+// 1- The split distances follow the "practical split scheme": a mix between logarithmic splits (which give every cascade the same texel density on screen) and uniform splits (which avoid tiny first cascades)
+// 2- Each shadow map is fitted to the bounding box of its slice as seen from the light
+//    The box size is taken from the diagonals of the slice which don't change when the camera rotates, and the box is moved in steps of whole texels
+//    so the shadow edges don't swim (shimmer) when the camera moves or rotates
+// Usage: call "Splits" then "Fit" for each cascade every frame, and "drawDebug" to show the shadow maps on the screen
+
+export default class ShadowCascades {
+    gl: WebGL2RenderingContext;
+    shaders: ShaderVariantCache;
+    sampler: WebGLSampler;
+    fullscreen: FullscreenPass;
+
+    // Requests the shaders needed to draw the debug view (call it from the "load" function of the scene)
+    public static load(loader: Loader){
+        loader.load({
+            ["cascades/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["cascades/debug.frag"]:{url:'shaders/cascades/debug.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the resources (see ShadowCascades.load)
+    constructor(gl: WebGL2RenderingContext, loader: Loader){
+        this.gl = gl;
+
+        this.shaders = new ShaderVariantCache(gl);
+        this.shaders.register('debug', { vertex: loader.resources['cascades/fullscreen.vert'], fragment: loader.resources['cascades/debug.frag'] });
+
+        // The shadow maps are read as regular textures (without comparison) so we need the nearest filter
+        this.sampler = gl.createSampler();
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+        this.fullscreen = new FullscreenPass(gl);
+    }
+
+    // Returns the far distance of each cascade along the view direction (the first cascade starts at the near)
+    // lambda = 0 gives uniform splits and lambda = 1 gives logarithmic splits
+    public static Splits(near: number, far: number, count: number, lambda: number): number[] {
+        const splits: number[] = [];
+        for(let i = 1; i <= count; i++){
+            const logarithmic = near * Math.pow(far / near, i / count);
+            const uniform = near + (far - near) * i / count;
+            splits.push(lambda * logarithmic + (1 - lambda) * uniform);
+        }
+        return splits;
+    }
+
+    // Returns the corners of the slice of the camera frustum between the near and far distances (4 near corners then 4 far corners)
+    public static SliceCorners(camera: Camera, near: number, far: number): vec3[] {
+        const forward = vec3.normalize(vec3.create(), camera.direction);
+        const right = vec3.normalize(vec3.create(), camera.right);
+        const up = vec3.cross(vec3.create(), right, forward);
+        const corners: vec3[] = [];
+        for(const distance of [near, far]){
+            const halfHeight = camera.type == 'perspective' ? distance * Math.tan(camera.perspectiveFoVy / 2) : camera.orthographicHeight / 2;
+            const halfWidth = halfHeight * camera.aspectRatio;
+            const center = vec3.scaleAndAdd(vec3.create(), camera.position, forward, distance);
+            for(const [x, y] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]){
+                const corner = vec3.scaleAndAdd(vec3.create(), center, right, x * halfWidth);
+                corners.push(vec3.scaleAndAdd(corner, corner, up, y * halfHeight));
+            }
+        }
+        return corners;
+    }
+
+    // Returns the VP matrix of the shadow map that covers the slice of the camera frustum between the near and far distances
+    // The shadow map looks along the light direction and reaches "depth" units toward the light from the back of the slice (to catch the casters outside the slice)
+    public static Fit(camera: Camera, near: number, far: number, direction: vec3, resolution: number, depth: number): mat4 {
+        const corners = ShadowCascades.SliceCorners(camera, near, far);
+
+        // The view of the light is a rotation only (its origin is the world origin) so snapping in light space snaps to a grid that is fixed in the world
+        const dir = vec3.normalize(vec3.create(), direction);
+        const V = mat4.lookAt(mat4.create(), [0, 0, 0], dir, Math.abs(dir[1]) > 0.99 ? [0, 0, 1] : [0, 1, 0]);
+
+        // The largest diagonal of the slice is the largest size it can have from any point of view so the box size doesn't change with the rotation
+        const size = Math.max(vec3.distance(corners[0], corners[6]), vec3.distance(corners[4], corners[6]));
+        const texel = size / resolution;
+
+        const min = vec3.fromValues(Infinity, Infinity, Infinity), max = vec3.fromValues(-Infinity, -Infinity, -Infinity);
+        for(const corner of corners){
+            const local = vec3.transformMat4(vec3.create(), corner, V);
+            vec3.min(min, min, local);
+            vec3.max(max, max, local);
+        }
+        // Move the center of the box in whole texels (the box is still centered on the slice within a texel)
+        const x = Math.floor((min[0] + max[0]) / 2 / texel) * texel;
+        const y = Math.floor((min[1] + max[1]) / 2 / texel) * texel;
+        // The light looks along -z so the farthest point of the slice has the smallest z
+        const P = mat4.ortho(mat4.create(), x - size / 2, x + size / 2, y - size / 2, y + size / 2, -min[2] - depth, -min[2]);
+        return mat4.mul(P, P, V);
+    }
+
+    // Draws the shadow maps side by side at the bottom left corner of the current frame buffer (darker is nearer to the light)
+    // Each shadow map is the UV rectangle (x, y, width, height) of a texture (a tile of a shadow atlas or the whole texture)
+    public drawDebug(shadowMaps: {texture: WebGLTexture, rect: [number, number, number, number]}[]){
+        const gl = this.gl;
+        this.fullscreen.begin();
+        const viewport: Int32Array = gl.getParameter(gl.VIEWPORT);
+        const size = Math.floor(Math.min(viewport[3] / 4, viewport[2] / Math.max(shadowMaps.length, 1)));
+
+        const program = this.shaders.getVariant('debug');
+        program.use();
+        program.setUniform1i('shadow_map', 0);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindSampler(0, this.sampler);
+        shadowMaps.forEach((shadowMap, i) => {
+            gl.viewport(viewport[0] + i * size, viewport[1], size, size);
+            gl.bindTexture(gl.TEXTURE_2D, shadowMap.texture);
+            program.setUniform4f('tile', shadowMap.rect);
+            program.setUniform1i('cascade', i);
+            this.fullscreen.draw();
+        });
+        gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+
+        this.fullscreen.end();
+    }
+
+    public dispose(){
+        this.shaders.dispose();
+        this.gl.deleteSampler(this.sampler);
+        this.fullscreen.dispose();
+    }
+}
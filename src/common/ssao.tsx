@@ -0,0 +1,247 @@
+import { createElement } from 'tsx-create-element';
+import { mat4 } from 'gl-matrix';
+import { CheckBox, NumberInput } from './dom-utils';
+import Loader from './loader';
+import Camera from './camera';
+import RenderTarget from './render-target';
+import ShaderProgram from './shader-program';
+import ShaderVariantCache from './shader-variants';
+import FullscreenPass from './fullscreen-pass';
+
+// This file contains screen space ambient occlusion (SSAO)
+// Baked ambient occlusion textures only darken the creases of the object they were baked for, so objects don't darken each other (e.g. a monkey standing on the ground)
+// SSAO approximates the occlusion every frame from the depth buffer of the camera:
+// 1- The depth of the objects is drawn into a depth texture (a depth prepass)
+// 2- For each pixel, we reconstruct its view space position and normal from the depth, then check how many points in a hemisphere around the normal are behind the depth buffer (occluded)
+//    The hemisphere (the kernel) is rotated by a small tiled noise texture so that we can use few samples, which gives a noisy result
+// 3- The noise is removed by a blur whose size matches the noise tile
+// The lighting shaders then multiply the ambient light by the result (see common/ssao.glsl)
+// Usage: call "render" before drawing the lights then "bind" the result to the ambient programs
+
+export default class SSAO {
+    gl: WebGL2RenderingContext;
+    shaders: ShaderVariantCache;
+    depthTarget: RenderTarget; // The depth prepass (resized to the canvas size every frame)
+    occlusionTarget: RenderTarget; // The noisy occlusion
+    blurTarget: RenderTarget; // The blurred occlusion (this is what the lighting shaders read)
+    noise: WebGLTexture; // A small tiled texture of random rotations for the kernel
+    nearestSampler: WebGLSampler;
+    fullscreen: FullscreenPass;
+
+    enabled: boolean = true;
+    radius: number = 0.5; // The radius of the hemisphere in world units
+    bias: number = 0.025; // Samples must be this much behind the depth buffer to count as occluded (hides the acne on flat surfaces)
+    samples: number = 32; // The number of samples in the kernel (at most SSAO.MaxSamples)
+    power: number = 1.5; // The visibility is raised to this power to make the occlusion stronger
+    blur: boolean = true;
+    debug: boolean = false; // If true, the scene should call "drawDebug" to show the occlusion instead of the scene
+
+    private kernel: Float32Array = null; // The sample offsets in tangent space (the hemisphere is around +Z)
+
+    static readonly MaxSamples = 64;
+    static readonly NoiseSize = 4; // The noise texture is NoiseSize x NoiseSize (the blur covers the same number of pixels)
+
+    // Requests the shaders needed by the pass (call it from the "load" function of the scene)
+    public static load(loader: Loader){
+        loader.load({
+            ["ssao/depth.vert"]:{url:'shaders/ssao/depth.vert', type:'shader'},
+            ["ssao/depth.frag"]:{url:'shaders/ssao/depth.frag', type:'shader'},
+            ["ssao/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["ssao/ssao.frag"]:{url:'shaders/ssao/ssao.frag', type:'shader'},
+            ["ssao/blur.frag"]:{url:'shaders/ssao/blur.frag', type:'shader'},
+            ["ssao/debug.frag"]:{url:'shaders/ssao/debug.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the pass (see SSAO.load)
+    constructor(gl: WebGL2RenderingContext, loader: Loader){
+        this.gl = gl;
+
+        this.shaders = new ShaderVariantCache(gl);
+        this.shaders.register('depth', { vertex: loader.resources['ssao/depth.vert'], fragment: loader.resources['ssao/depth.frag'] });
+        this.shaders.register('ssao', { vertex: loader.resources['ssao/fullscreen.vert'], fragment: loader.resources['ssao/ssao.frag'], defines: { NOISE_SIZE: SSAO.NoiseSize } });
+        this.shaders.register('blur', { vertex: loader.resources['ssao/fullscreen.vert'], fragment: loader.resources['ssao/blur.frag'], defines: { NOISE_SIZE: SSAO.NoiseSize } });
+        this.shaders.register('debug', { vertex: loader.resources['ssao/fullscreen.vert'], fragment: loader.resources['ssao/debug.frag'] });
+
+        const size: [number, number] = [gl.drawingBufferWidth, gl.drawingBufferHeight];
+        this.depthTarget = new RenderTarget(gl, size, { depth: gl.DEPTH_COMPONENT24 });
+        this.occlusionTarget = new RenderTarget(gl, size, { color: [gl.R8] });
+        this.blurTarget = new RenderTarget(gl, size, { color: [gl.R8] });
+
+        // The noise is a random direction in the XY plane for each texel (stored in the range [0, 1] and remapped to [-1, 1] in the shader)
+        const noise = new Uint8Array(SSAO.NoiseSize * SSAO.NoiseSize * 4);
+        for(let i = 0; i < SSAO.NoiseSize * SSAO.NoiseSize; i++){
+            const angle = 2 * Math.PI * Math.random();
+            noise.set([Math.round(127.5 + 127.5 * Math.cos(angle)), Math.round(127.5 + 127.5 * Math.sin(angle)), 128, 255], 4 * i);
+        }
+        this.noise = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, this.noise);
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, SSAO.NoiseSize, SSAO.NoiseSize, 0, gl.RGBA, gl.UNSIGNED_BYTE, noise);
+        // The noise is tiled over the screen without filtering (we want each pixel to get one of the rotations as is)
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.REPEAT);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+        // The depth can't be filtered and the occlusion is read one pixel at a time so one nearest sampler is enough
+        this.nearestSampler = gl.createSampler();
+        gl.samplerParameteri(this.nearestSampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.nearestSampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.nearestSampler, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.samplerParameteri(this.nearestSampler, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+        this.fullscreen = new FullscreenPass(gl);
+    }
+
+    // Creates the sample offsets inside a unit hemisphere around +Z
+    // The samples are scaled so that more of them are close to the center since the nearby geometry occludes more
+    private static CreateKernel(count: number): Float32Array {
+        const kernel = new Float32Array(3 * count);
+        for(let i = 0; i < count; i++){
+            let x: number, y: number, z: number, length: number;
+            do { // Pick a random point in the hemisphere (rejecting the points outside the unit sphere)
+                x = 2 * Math.random() - 1;
+                y = 2 * Math.random() - 1;
+                z = Math.random();
+                length = Math.sqrt(x * x + y * y + z * z);
+            } while(length > 1 || length < 1e-3);
+            const t = i / count;
+            const scale = (0.1 + 0.9 * t * t) / length * Math.random();
+            kernel.set([x * scale, y * scale, z * scale], 3 * i);
+        }
+        return kernel;
+    }
+
+    // Draws the depth prepass then computes and blurs the occlusion
+    // The callback should draw the objects using the given program after setting the model matrix "M" for each of them (VP is already set)
+    // Instanced meshes need another variant: "useVariant(true)" switches to it ("useVariant(false)" switches back) and returns the program in use
+    public render(camera: Camera, drawObjects: (program: ShaderProgram, useVariant: (instanced: boolean) => ShaderProgram) => void){
+        const gl = this.gl;
+        const size: [number, number] = [gl.drawingBufferWidth, gl.drawingBufferHeight];
+        this.depthTarget.resize(size);
+        this.occlusionTarget.resize(size);
+        this.blurTarget.resize(size);
+
+        const samples = Math.max(1, Math.min(SSAO.MaxSamples, Math.floor(this.samples)));
+        if(this.kernel == null || this.kernel.length != 3 * samples) this.kernel = SSAO.CreateKernel(samples);
+
+        // The depth prepass needs the depth test and writing to the depth buffer
+        const depthTest = gl.isEnabled(gl.DEPTH_TEST);
+        const depthMask: boolean = gl.getParameter(gl.DEPTH_WRITEMASK);
+        gl.enable(gl.DEPTH_TEST);
+        gl.depthMask(true);
+        this.depthTarget.bind();
+        gl.clear(gl.DEPTH_BUFFER_BIT);
+        const depthProgram = this.shaders.getVariant('depth');
+        depthProgram.use();
+        depthProgram.setUniformMatrix4fv('VP', false, camera.ViewProjectionMatrix);
+        let current = depthProgram;
+        drawObjects(depthProgram, (instanced) => {
+            const variant = this.shaders.getVariant('depth', { INSTANCED: instanced });
+            if(variant !== current){
+                current = variant;
+                current.use();
+                current.setUniformMatrix4fv('VP', false, camera.ViewProjectionMatrix);
+            }
+            return current;
+        });
+        this.depthTarget.unbind();
+
+        this.fullscreen.begin();
+
+        // Compute the occlusion in view space
+        const P = camera.ProjectionMatrix;
+        const ssaoProgram = this.shaders.getVariant('ssao', { KERNEL_SIZE: samples });
+        ssaoProgram.use();
+        this.bindTexture(0, this.depthTarget.depthTexture, this.nearestSampler);
+        ssaoProgram.setUniform1i('depth', 0);
+        this.bindTexture(1, this.noise, null);
+        ssaoProgram.setUniform1i('noise', 1);
+        ssaoProgram.setUniform3fv('kernel', this.kernel);
+        ssaoProgram.setUniformMatrix4fv('P', false, P);
+        ssaoProgram.setUniformMatrix4fv('P_inverse', false, mat4.invert(mat4.create(), P));
+        ssaoProgram.setUniform1f('radius', this.radius);
+        ssaoProgram.setUniform1f('bias', this.bias);
+        ssaoProgram.setUniform1f('power', this.power);
+        this.occlusionTarget.bind();
+        this.fullscreen.draw();
+        this.occlusionTarget.unbind();
+
+        // Average each pixel with its neighbors in a NoiseSize x NoiseSize block so the noise pattern cancels out
+        const blurProgram = this.shaders.getVariant('blur', { BLUR: this.blur });
+        blurProgram.use();
+        this.bindTexture(0, this.occlusionTarget.colorTexture(), this.nearestSampler);
+        blurProgram.setUniform1i('occlusion', 0);
+        this.blurTarget.bind();
+        this.fullscreen.draw();
+        this.blurTarget.unbind();
+
+        this.fullscreen.end();
+        if(!depthTest) gl.disable(gl.DEPTH_TEST);
+        gl.depthMask(depthMask);
+    }
+
+    // The texture that the lighting shaders should multiply by the ambient light
+    public get occlusion(): WebGLTexture {
+        return this.blurTarget.colorTexture();
+    }
+
+    // Binds the occlusion to the "ssao" sampler of the program (the program must be compiled with SSAO defined, see common/ssao.glsl)
+    public bind(program: ShaderProgram, unit: number){
+        this.bindTexture(unit, this.occlusion, this.nearestSampler);
+        program.setUniform1i('ssao', unit);
+    }
+
+    // Draws the occlusion as a grey scale image to the current frame buffer (white is not occluded)
+    public drawDebug(){
+        this.fullscreen.begin();
+        const program = this.shaders.getVariant('debug');
+        program.use();
+        this.bindTexture(0, this.occlusion, this.nearestSampler);
+        program.setUniform1i('occlusion', 0);
+        this.fullscreen.draw();
+        this.fullscreen.end();
+    }
+
+    private bindTexture(unit: number, texture: WebGLTexture, sampler: WebGLSampler){
+        this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+        this.gl.bindSampler(unit, sampler);
+    }
+
+    // The rows of controls for the occlusion parameters (the scenes that use SSAO add them to their controls)
+    public controls(): HTMLElement[] {
+        return [
+            <div className="control-row">
+                <CheckBox value={this.enabled} onchange={(v)=>{ this.enabled = v; }}/>
+                <label className="control-label">SSAO</label>
+                <CheckBox value={this.debug} onchange={(v)=>{ this.debug = v; }}/>
+                <label className="control-label">Debug View</label>
+                <CheckBox value={this.blur} onchange={(v)=>{ this.blur = v; }}/>
+                <label className="control-label">Blur</label>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Radius</label>
+                <NumberInput value={this.radius} onchange={(v)=>{ this.radius = v; }}/>
+                <label className="control-label">Bias</label>
+                <NumberInput value={this.bias} onchange={(v)=>{ this.bias = v; }}/>
+                <label className="control-label">Samples</label>
+                <NumberInput value={this.samples} onchange={(v)=>{ this.samples = v; }}/>
+                <label className="control-label">Power</label>
+                <NumberInput value={this.power} onchange={(v)=>{ this.power = v; }}/>
+            </div>
+        ];
+    }
+
+    public dispose(){
+        this.shaders.dispose();
+        this.depthTarget.dispose();
+        this.occlusionTarget.dispose();
+        this.blurTarget.dispose();
+        this.gl.deleteTexture(this.noise);
+        this.gl.deleteSampler(this.nearestSampler);
+        this.fullscreen.dispose();
+    }
+}
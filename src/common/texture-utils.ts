@@ -43,4 +43,88 @@ export function RenderTexture(gl: WebGL2RenderingContext, size: Size, internalFo
     if(levels == 0) levels = Math.ceil(1 + Math.log2(Math.max(size[0], size[1])));
     gl.texStorage2D(gl.TEXTURE_2D, levels, internalFormat, size[0], size[1]);
     return texture;
-}
\ No newline at end of file
+}
+
+// Allocates a cube map that can be rendered to (each face is size x size), e.g. an environment map or a point light shadow map with a depth format
+// Each face is attached to a render target separately (see RenderTarget.attachCubeFace)
+export function RenderCubeTexture(gl: WebGL2RenderingContext, size: number, internalFormat: number, levels: number = 1){
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, texture);
+    if(levels == 0) levels = Math.floor(Math.log2(size)) + 1;
+    gl.texStorage2D(gl.TEXTURE_CUBE_MAP, levels, internalFormat, size, size);
+    return texture;
+}
+
+// Float textures store colors outside the range [0, 1] (e.g. HDR images) but what we can do with them depends on the device:
+// - Half floats (RGBA16F) can always be sampled with linear filtering
+// - 32-bit floats (RGBA32F) can only be filtered linearly if the extension "OES_texture_float_linear" is supported
+// - Float textures can only be rendered to (which generateMipmap does) if the extension "EXT_color_buffer_float" is supported
+// The extensions must be enabled (by calling getExtension) before using them so these functions enable them too
+
+// Returns true if the float format can be sampled with linear filtering
+export function IsFloatFilterable(gl: WebGL2RenderingContext, internalFormat: number): boolean {
+    switch(internalFormat){
+        case gl.R16F: case gl.RG16F: case gl.RGB16F: case gl.RGBA16F: case gl.R11F_G11F_B10F: return true;
+        case gl.R32F: case gl.RG32F: case gl.RGB32F: case gl.RGBA32F: return gl.getExtension('OES_texture_float_linear') != null;
+        default: return false;
+    }
+}
+
+// Returns true if the float format can be rendered to (RGB16F and RGB32F are never renderable)
+export function IsFloatRenderable(gl: WebGL2RenderingContext, internalFormat: number): boolean {
+    if(internalFormat == gl.RGB16F || internalFormat == gl.RGB32F) return false;
+    return gl.getExtension('EXT_color_buffer_float') != null;
+}
+
+// Uploads RGBA float pixels (e.g. an HDR image decoded by rgbe.ts) to a texture stored as RGBA16F (the default) or RGBA32F
+// The rows must be stored from the bottom to the top since the data is uploaded without flipping
+// The scenes sample every texture with linear filtering, so RGBA32F falls back to RGBA16F if it can't be filtered (an unfilterable texture would be incomplete)
+// Mipmaps are only generated if the format can be rendered to
+export function LoadFloatImage(gl: WebGL2RenderingContext, image: {width: number, height: number, data: Float32Array}, internalFormat: number = gl.RGBA16F, mipmaps: boolean = true): WebGLTexture {
+    if(internalFormat != gl.RGBA16F && internalFormat != gl.RGBA32F) throw new Error(`LoadFloatImage only supports RGBA16F and RGBA32F (got 0x${internalFormat.toString(16)})`);
+    if(!IsFloatFilterable(gl, internalFormat)){
+        console.warn("Linear filtering of 32-bit float textures is not supported on this device (OES_texture_float_linear is missing), so the texture will be stored as RGBA16F");
+        internalFormat = gl.RGBA16F;
+    }
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+    gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, image.width, image.height, 0, gl.RGBA, gl.FLOAT, image.data); // (RGBA16F accepts floats and converts them to half floats)
+    if(mipmaps && !IsFloatRenderable(gl, internalFormat)){
+        console.warn("Mipmaps can't be generated for float textures on this device (EXT_color_buffer_float is missing)");
+        mipmaps = false;
+    }
+    if(mipmaps) gl.generateMipmap(gl.TEXTURE_2D);
+    else gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAX_LEVEL, 0); // So that the texture stays complete if it is read with a mipmapped sampler
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, mipmaps ? gl.LINEAR_MIPMAP_LINEAR : gl.LINEAR);
+    return texture;
+}
+
+// Creates a 3D lookup table (LUT) for color grading where the texel at (r, g, b) stores the graded color of (r, g, b)
+// The grading function receives and returns colors in the range [0, 1], and the shader interpolates between the texels for the colors in between
+export function ColorLUT(gl: WebGL2RenderingContext, size: number, grade: (color: [number, number, number]) => [number, number, number]): WebGLTexture {
+    const data = new Uint8Array(size * size * size * 4);
+    for(let b = 0; b < size; b++){
+        for(let g = 0; g < size; g++){
+            for(let r = 0; r < size; r++){
+                const graded = grade([r / (size - 1), g / (size - 1), b / (size - 1)]);
+                const index = 4 * (r + size * (g + size * b));
+                for(let i = 0; i < 3; i++) data[index + i] = Math.round(255 * Math.min(Math.max(graded[i], 0), 1));
+                data[index + 3] = 255;
+            }
+        }
+    }
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_3D, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false); // 3D textures can't be uploaded while flipping is enabled
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGBA8, size, size, size, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    return texture;
+}
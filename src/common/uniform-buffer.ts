@@ -0,0 +1,236 @@
+import { UniformValue, UniformStruct } from './shader-program';
+
+// This file contains a class for Uniform Buffer Objects (UBOs)
+// A UBO stores the values of a uniform block (e.g. "layout(std140) uniform Camera { mat4 VP; vec3 cam_position; };") in a GPU buffer
+// This allows us to upload data once and share it between all the programs that declare the same block (instead of sending each uniform to each program)
+// The "std140" layout has fixed rules for where each member is placed so we can compute the offsets in TypeScript from a schema that matches the GLSL block
+
+// The member types that can be used in a uniform block
+const basicTypes = {
+    'float': { kind: 'float', components: 1, columns: 1 },
+    'vec2': { kind: 'float', components: 2, columns: 1 },
+    'vec3': { kind: 'float', components: 3, columns: 1 },
+    'vec4': { kind: 'float', components: 4, columns: 1 },
+    'int': { kind: 'int', components: 1, columns: 1 },
+    'ivec2': { kind: 'int', components: 2, columns: 1 },
+    'ivec3': { kind: 'int', components: 3, columns: 1 },
+    'ivec4': { kind: 'int', components: 4, columns: 1 },
+    'uint': { kind: 'uint', components: 1, columns: 1 },
+    'uvec2': { kind: 'uint', components: 2, columns: 1 },
+    'uvec3': { kind: 'uint', components: 3, columns: 1 },
+    'uvec4': { kind: 'uint', components: 4, columns: 1 },
+    'bool': { kind: 'int', components: 1, columns: 1 }, // Booleans are stored as 32-bit integers
+    'bvec2': { kind: 'int', components: 2, columns: 1 },
+    'bvec3': { kind: 'int', components: 3, columns: 1 },
+    'bvec4': { kind: 'int', components: 4, columns: 1 },
+    // Matrices are stored as arrays of column vectors (matCxR has C columns and R rows)
+    'mat2': { kind: 'float', components: 2, columns: 2 },
+    'mat3': { kind: 'float', components: 3, columns: 3 },
+    'mat4': { kind: 'float', components: 4, columns: 4 },
+    'mat2x3': { kind: 'float', components: 3, columns: 2 },
+    'mat2x4': { kind: 'float', components: 4, columns: 2 },
+    'mat3x2': { kind: 'float', components: 2, columns: 3 },
+    'mat3x4': { kind: 'float', components: 4, columns: 3 },
+    'mat4x2': { kind: 'float', components: 2, columns: 4 },
+    'mat4x3': { kind: 'float', components: 3, columns: 4 }
+} as const;
+
+export type UniformBlockType = keyof typeof basicTypes;
+
+// A schema lists the members of the block in the same order as the GLSL declaration
+// A member can be a basic type, a struct (a nested schema) or an array of either of them ([type, length])
+// Example: { VP: 'mat4', cam_position: 'vec3', cascades: ['float', 4], lights: [{color: 'vec3', position: 'vec3'}, 8] }
+export type UniformBlockMember = UniformBlockType | UniformBlockSchema | [UniformBlockType | UniformBlockSchema, number];
+export interface UniformBlockSchema { [name: string]: UniformBlockMember };
+
+// Where a basic member (or an array of basic members) is stored in the buffer
+export interface UniformBlockField {
+    name: string,
+    type: UniformBlockType,
+    offset: number, // The offset of the first element in bytes
+    length: number, // The number of array elements (1 if it is not an array)
+    stride: number // The distance between array elements in bytes
+};
+
+export interface UniformBlockLayout {
+    size: number, // The size of the whole block in bytes
+    fields: {[name: string]: UniformBlockField}, // For arrays, we store the array itself as "name" and each element as "name[i]"
+    structs: {[name: string]: number} // The names of the structs and arrays of structs (with their lengths) so that "set" can accept objects
+};
+
+function alignTo(offset: number, alignment: number): number {
+    return Math.ceil(offset / alignment) * alignment;
+}
+
+// The std140 rules (from the OpenGL ES 3.0 specification, section 2.12.6.4) summarized:
+// - Scalars are aligned to 4 bytes, vec2 to 8 bytes and vec3/vec4 to 16 bytes
+// - Array elements (including the columns of matrices) are aligned to 16 bytes so the stride is always a multiple of 16
+// - Structs are aligned to 16 bytes and their size is rounded up to a multiple of 16
+export function Std140Layout(schema: UniformBlockSchema): UniformBlockLayout {
+    const layout: UniformBlockLayout = { size: 0, fields: {}, structs: {} };
+    const addStruct = (schema: UniformBlockSchema, prefix: string, base: number): number => {
+        let offset = 0;
+        for(const name in schema){
+            const member = schema[name];
+            const [type, length, isArray] = Array.isArray(member) ? [member[0], member[1], true] : [member, 1, false];
+            const fullName = prefix + name;
+            if(typeof type === 'string'){
+                const info = basicTypes[type];
+                if(info === undefined) throw new Error(`Unknown uniform block type "${type}" for "${fullName}"`);
+                const size = info.columns > 1 ? info.columns * 16 : info.components * 4;
+                const alignment = (isArray || info.columns > 1) ? 16 : (info.components == 1 ? 4 : info.components == 2 ? 8 : 16);
+                const stride = isArray ? alignTo(size, 16) : size;
+                offset = alignTo(offset, alignment);
+                layout.fields[fullName] = { name: fullName, type: type, offset: base + offset, length: length, stride: stride };
+                if(isArray){
+                    for(let i = 0; i < length; i++){
+                        const elementName = `${fullName}[${i}]`;
+                        layout.fields[elementName] = { name: elementName, type: type, offset: base + offset + i * stride, length: 1, stride: stride };
+                    }
+                }
+                offset += isArray ? stride * length : size;
+            } else {
+                offset = alignTo(offset, 16);
+                layout.structs[fullName] = isArray ? length : 0;
+                for(let i = 0; i < length; i++){
+                    const structName = isArray ? `${fullName}[${i}]` : fullName;
+                    const size = addStruct(type, structName + '.', base + offset);
+                    if(isArray) layout.structs[structName] = 0;
+                    offset += size;
+                }
+            }
+        }
+        return alignTo(offset, 16);
+    };
+    // The block itself is not a struct so its size only needs to be rounded up to the alignment of a vec4
+    layout.size = addStruct(schema, '', 0);
+    return layout;
+}
+
+// Flattens a number, a boolean, a vector or a list of vectors into a list of numbers
+function flatten(value: UniformValue): number[] {
+    if(typeof value === 'number') return [value];
+    if(typeof value === 'boolean') return [value ? 1 : 0];
+    const result: number[] = [];
+    const list = value as ArrayLike<any>;
+    for(let i = 0; i < list.length; i++){
+        const element = list[i];
+        if(typeof element === 'number') result.push(element);
+        else if(typeof element === 'boolean') result.push(element ? 1 : 0);
+        else for(let j = 0; j < element.length; j++) result.push(Number(element[j]));
+    }
+    return result;
+}
+
+// This class allocates a binding point for each buffer so that programs can be connected to it (see ShaderProgram.bindUniformBlock)
+export default class UniformBuffer {
+    gl: WebGL2RenderingContext;
+    buffer: WebGLBuffer;
+    bindingPoint: number;
+
+    private layout: UniformBlockLayout;
+    private data: ArrayBuffer; // A copy of the buffer content on the CPU side (we modify it then upload it all at once)
+    private floats: Float32Array;
+    private ints: Int32Array;
+    private uints: Uint32Array;
+    private dirty: boolean = true;
+
+    // The binding points used by the existing buffers (a binding point is freed when its buffer is disposed)
+    private static usedBindingPoints: boolean[] = [];
+
+    constructor(gl: WebGL2RenderingContext, schema: UniformBlockSchema){
+        this.gl = gl;
+        this.layout = Std140Layout(schema);
+        this.data = new ArrayBuffer(this.layout.size);
+        this.floats = new Float32Array(this.data);
+        this.ints = new Int32Array(this.data);
+        this.uints = new Uint32Array(this.data);
+
+        this.bindingPoint = UniformBuffer.allocateBindingPoint(gl);
+
+        this.buffer = this.gl.createBuffer();
+        this.gl.bindBuffer(this.gl.UNIFORM_BUFFER, this.buffer);
+        this.gl.bufferData(this.gl.UNIFORM_BUFFER, this.layout.size, this.gl.DYNAMIC_DRAW);
+        this.gl.bindBuffer(this.gl.UNIFORM_BUFFER, null);
+        this.bind();
+    }
+
+    private static allocateBindingPoint(gl: WebGL2RenderingContext): number {
+        const max: number = gl.getParameter(gl.MAX_UNIFORM_BUFFER_BINDINGS);
+        for(let point = 0; point < max; point++){
+            if(!UniformBuffer.usedBindingPoints[point]){
+                UniformBuffer.usedBindingPoints[point] = true;
+                return point;
+            }
+        }
+        throw new Error(`All the ${max} uniform buffer binding points are in use`);
+    }
+
+    public dispose(){
+        this.gl.deleteBuffer(this.buffer);
+        UniformBuffer.usedBindingPoints[this.bindingPoint] = false;
+    }
+
+    public get Layout(): UniformBlockLayout { return this.layout; }
+    public get Size(): number { return this.layout.size; }
+
+    // Sets a member of the block (the changes are sent to the GPU when "upload" is called)
+    // Like ShaderProgram.set, the value can be an object for structs or an array of objects for arrays of structs
+    // Examples:
+    //  set("VP", camera.ViewProjectionMatrix)
+    //  set("shadowVPs", [VP0, VP1, VP2]) => sets the first 3 elements of the array
+    //  set("lights", [{color, position}, {color, position}]) or set("lights[1]", {color, position})
+    public set(name: string, value: UniformValue){
+        const field = this.layout.fields[name];
+        if(field !== undefined){
+            this.write(field, flatten(value));
+        } else if(name in this.layout.structs && Array.isArray(value) && value.length > 0 && !ArrayBuffer.isView(value[0]) && typeof value[0] === 'object' && !Array.isArray(value[0])){
+            const length = this.layout.structs[name];
+            if(value.length > length) console.error(`Too many elements for the array "${name}" (got ${value.length}, the block has ${length})`);
+            for(let i = 0; i < Math.min(value.length, length); i++) this.set(`${name}[${i}]`, value[i] as UniformStruct);
+        } else if(name in this.layout.structs && typeof value === 'object' && !Array.isArray(value) && !ArrayBuffer.isView(value)){
+            this.setValues(value as UniformStruct, name + '.');
+        } else {
+            console.error(`The uniform block has no member named "${name}" (or the value doesn't match its type)`);
+        }
+    }
+
+    // Sets multiple members at once (e.g. setValues({VP: ..., cam_position: ...}))
+    public setValues(values: UniformStruct, prefix: string = ''){
+        for(const member in values) this.set(prefix + member, values[member]);
+    }
+
+    private write(field: UniformBlockField, data: number[]){
+        const info = basicTypes[field.type];
+        const elementSize = info.components * info.columns;
+        if(data.length % elementSize != 0 || data.length / elementSize > field.length){
+            console.error(`Wrong number of values for "${field.name}" (got ${data.length}, expected ${elementSize} for each of the ${field.length} elements)`);
+            return;
+        }
+        const target = info.kind == 'float' ? this.floats : info.kind == 'int' ? this.ints : this.uints;
+        for(let element = 0; element < data.length / elementSize; element++){
+            for(let column = 0; column < info.columns; column++){
+                // Each column of a matrix starts at a 16-byte boundary
+                const start = (field.offset + element * field.stride + column * 16) / 4;
+                for(let component = 0; component < info.components; component++){
+                    target[start + component] = data[(element * info.columns + column) * info.components + component];
+                }
+            }
+        }
+        this.dirty = true;
+    }
+
+    // Sends the data to the GPU (only if something has changed since the last upload)
+    public upload(){
+        if(!this.dirty) return;
+        this.gl.bindBuffer(this.gl.UNIFORM_BUFFER, this.buffer);
+        this.gl.bufferSubData(this.gl.UNIFORM_BUFFER, 0, this.data);
+        this.gl.bindBuffer(this.gl.UNIFORM_BUFFER, null);
+        this.dirty = false;
+    }
+
+    // Connects the buffer to its binding point (this is done when the buffer is created, so it is only needed if someone else used the binding point)
+    public bind(){
+        this.gl.bindBufferBase(this.gl.UNIFORM_BUFFER, this.bindingPoint, this.buffer);
+    }
+}
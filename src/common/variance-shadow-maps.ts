@@ -0,0 +1,143 @@
+import Loader from './loader';
+import RenderTarget from './render-target';
+import ShaderVariantCache from './shader-variants';
+import * as TextureUtils from './texture-utils';
+import FullscreenPass from './fullscreen-pass';
+
+// This file contains the resources shared by variance shadow maps (VSM and EVSM)
+// A variance shadow map stores the moments of the depth in a float color texture next to the shadow map (see common/shadow-moments.glsl)
+// Since the moments can be filtered, they are blurred after drawing the shadow map and read with a linear sampler which gives soft shadows from one sample
+// The moments need a float format that can be rendered to and filtered: RGBA32F if the device can filter it, otherwise RGBA16F (which limits the EVSM exponents)
+// Usage: create the moments textures with "createMoments", clear them with "clearValues" before drawing the shadow map then "blur" them
+// The variance filters only read the moments so the depth of the shadow map can be drawn into the shared "depthTexture"
+// The blur can't read a cube map face as a 2D texture, so for cube maps, draw the moments of each face into "faceTexture" then blur it into the face
+
+export default class VarianceShadowMaps {
+    gl: WebGL2RenderingContext;
+    shaders: ShaderVariantCache;
+    format: number; // The format of the moments textures (null if the device can't render to float textures)
+    maxExponent: number; // The largest EVSM exponent that doesn't overflow the format (exp(2 * exponent) must fit)
+    target: RenderTarget; // The blur draws into the moments textures by attaching them to this target
+    sampler: WebGLSampler;
+    fullscreen: FullscreenPass;
+
+    private temporaries: {[resolution: number]: WebGLTexture[]} = {}; // The horizontal blur result, the face texture and the depth texture for each shadow map resolution
+
+    // Requests the shaders needed to blur the moments (call it from the "load" function of the scene)
+    public static load(loader: Loader){
+        loader.load({
+            ["vsm/fullscreen.vert"]:{url:'shaders/common/fullscreen.vert', type:'shader'},
+            ["vsm/blur.frag"]:{url:'shaders/vsm/blur.frag', type:'shader'},
+        });
+    }
+
+    // The shaders must be loaded before creating the resources (see VarianceShadowMaps.load)
+    constructor(gl: WebGL2RenderingContext, loader: Loader){
+        this.gl = gl;
+
+        this.shaders = new ShaderVariantCache(gl);
+        this.shaders.register('blur', { vertex: loader.resources['vsm/fullscreen.vert'], fragment: loader.resources['vsm/blur.frag'] });
+
+        if(TextureUtils.IsFloatRenderable(gl, gl.RGBA32F) && TextureUtils.IsFloatFilterable(gl, gl.RGBA32F)){
+            this.format = gl.RGBA32F;
+            this.maxExponent = 42;
+        } else if(TextureUtils.IsFloatRenderable(gl, gl.RGBA16F)){
+            this.format = gl.RGBA16F;
+            this.maxExponent = 5.54;
+        } else {
+            this.format = null;
+            this.maxExponent = 0;
+        }
+
+        this.target = new RenderTarget(gl, [1, 1]);
+
+        this.sampler = gl.createSampler();
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.samplerParameteri(this.sampler, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+
+        this.fullscreen = new FullscreenPass(gl);
+    }
+
+    // Whether the device can draw variance shadow maps (if not, the scene should use another filter)
+    public get supported(): boolean {
+        return this.format != null;
+    }
+
+    // Creates a moments texture for a shadow map with the given resolution (a cube map for cube shadow maps)
+    public createMoments(resolution: number, cube: boolean = false): WebGLTexture {
+        if(cube) return TextureUtils.RenderCubeTexture(this.gl, resolution, this.format);
+        return TextureUtils.RenderTexture(this.gl, [resolution, resolution], this.format);
+    }
+
+    // A 2D moments texture to draw a cube map face into before blurring it into the face
+    public faceTexture(resolution: number): WebGLTexture {
+        return this.temporary(resolution, 1);
+    }
+
+    // A depth texture to attach while drawing the moments of a shadow map with the given resolution
+    public depthTexture(resolution: number): WebGLTexture {
+        return this.temporary(resolution, 2, () => TextureUtils.RenderTexture(this.gl, [resolution, resolution], this.gl.DEPTH_COMPONENT32F));
+    }
+
+    private temporary(resolution: number, index: number, create: () => WebGLTexture = () => this.createMoments(resolution)): WebGLTexture {
+        const textures = this.temporaries[resolution] ?? (this.temporaries[resolution] = []);
+        if(textures[index] === undefined) textures[index] = create();
+        return textures[index];
+    }
+
+    // The EVSM exponents limited to what the format can store
+    public clampExponents(exponents: [number, number]): [number, number] {
+        return [Math.min(Math.max(exponents[0], 0), this.maxExponent), Math.min(Math.max(exponents[1], 0), this.maxExponent)];
+    }
+
+    // The moments of the farthest depth (1) which the moments textures should be cleared to (the exponents must be clamped)
+    public clearValues(evsm: boolean, exponents: [number, number]): number[] {
+        if(!evsm) return [1, 1, 0, 0];
+        const positive = Math.exp(exponents[0]), negative = -Math.exp(-exponents[1]);
+        return [positive, positive * positive, negative, negative * negative];
+    }
+
+    // Blurs the moments of the source into the destination with a separable gaussian blur (the radius is in texels)
+    // The source and the destination can be the same texture, and if a face is given, the destination is that face of a cube map
+    public blur(source: WebGLTexture, destination: WebGLTexture, resolution: number, radius: number, face: number = -1){
+        radius = Math.max(Math.round(radius), 0);
+        if(radius == 0 && source === destination) return;
+        const gl = this.gl;
+        this.fullscreen.begin(gl.POLYGON_OFFSET_FILL); // (the shadow pass may have left the polygon offset enabled)
+
+        const temporary = this.temporary(resolution, 0);
+
+        const program = this.shaders.getVariant('blur');
+        program.use();
+        program.setUniform1i('moments', 0);
+        program.setUniform1i('radius', radius);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindSampler(0, this.sampler);
+        const pass = (input: WebGLTexture, direction: [number, number]) => {
+            gl.bindTexture(gl.TEXTURE_2D, input);
+            program.setUniform2f('direction', direction);
+            this.fullscreen.draw();
+        };
+        this.target.bind();
+        // The horizontal pass reads the source and writes to the temporary texture, then the vertical pass writes to the destination
+        this.target.attachTexture(gl.COLOR_ATTACHMENT0, temporary, [resolution, resolution]);
+        pass(source, [1 / resolution, 0]);
+        if(face >= 0) this.target.attachCubeFace(gl.COLOR_ATTACHMENT0, destination, face, resolution);
+        else this.target.attachTexture(gl.COLOR_ATTACHMENT0, destination, [resolution, resolution]);
+        pass(temporary, [0, 1 / resolution]);
+        this.target.unbind();
+
+        this.fullscreen.end();
+    }
+
+    public dispose(){
+        this.shaders.dispose();
+        this.target.dispose();
+        for(const resolution in this.temporaries) this.temporaries[resolution].forEach(texture => this.gl.deleteTexture(texture));
+        this.temporaries = {};
+        this.gl.deleteSampler(this.sampler);
+        this.fullscreen.dispose();
+    }
+}
@@ -34,8 +34,8 @@ export default class DirectionalLightScene extends Scene {
     public load(): void {
         // We need shader specifically designed to do directional lighting
         this.game.loader.load({
-            ["vert"]:{url:'shaders/phong/single-light/directional.vert', type:'text'},
-            ["frag"]:{url:'shaders/phong/single-light/directional.frag', type:'text'},
+            ["vert"]:{url:'shaders/phong/single-light/directional.vert', type:'shader'},
+            ["frag"]:{url:'shaders/phong/single-light/directional.frag', type:'shader'},
             ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
         });
     } 
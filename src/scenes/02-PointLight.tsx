@@ -37,8 +37,8 @@ export default class PointLightScene extends Scene {
     public load(): void {
         // We need shader specifically designed to do point lighting
         this.game.loader.load({
-            ["vert"]:{url:'shaders/phong/single-light/point.vert', type:'text'},
-            ["frag"]:{url:'shaders/phong/single-light/point.frag', type:'text'},
+            ["vert"]:{url:'shaders/phong/single-light/point.vert', type:'shader'},
+            ["frag"]:{url:'shaders/phong/single-light/point.frag', type:'shader'},
             ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
         });
     } 
@@ -40,8 +40,8 @@ export default class SpotLightScene extends Scene {
     public load(): void {
         // We need shader specifically designed to do spot lighting
         this.game.loader.load({
-            ["vert"]:{url:'shaders/phong/single-light/spot.vert', type:'text'},
-            ["frag"]:{url:'shaders/phong/single-light/spot.frag', type:'text'},
+            ["vert"]:{url:'shaders/phong/single-light/spot.vert', type:'shader'},
+            ["frag"]:{url:'shaders/phong/single-light/spot.frag', type:'shader'},
             ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
         });
     } 
@@ -79,8 +79,8 @@ export default class MultipleLightsScene extends Scene {
     public load(): void {
         // We need one big shader specifically designed to do all the lighting
         this.game.loader.load({
-            ["vert"]:{url:'shaders/phong/multiple-lights/lights.vert', type:'text'},
-            ["frag"]:{url:'shaders/phong/multiple-lights/lights.frag', type:'text'},
+            ["vert"]:{url:'shaders/phong/multiple-lights/lights.vert', type:'shader'},
+            ["frag"]:{url:'shaders/phong/multiple-lights/lights.frag', type:'shader'},
             ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
         });
     } 
@@ -89,7 +89,12 @@ export default class MultipleLightsScene extends Scene {
         // Compile and Link the shader
         this.program = new ShaderProgram(this.gl);
         this.program.attach(this.game.loader.resources["vert"], this.gl.VERTEX_SHADER);
-        this.program.attach(this.game.loader.resources["frag"], this.gl.FRAGMENT_SHADER);
+        // The sizes of the light arrays in the shader are defined from here so that they always match our lists
+        this.program.attach(this.game.loader.resources["frag"], this.gl.FRAGMENT_SHADER, {
+            NUM_DIRECTIONAL_LIGHTS: this.directional_lights.length,
+            NUM_POINT_LIGHTS: this.point_lights.length,
+            NUM_SPOT_LIGHTS: this.spot_lights.length
+        });
         this.program.link();
 
         // Load the models
@@ -1,5 +1,5 @@
 import { Scene } from '../common/game';
-import ShaderProgram from '../common/shader-program';
+import ShaderVariantCache from '../common/shader-variants';
 import Mesh from '../common/mesh';
 import * as MeshUtils from '../common/mesh-utils';
 import Camera from '../common/camera';
@@ -50,7 +50,7 @@ type Light = DirectionalLight | PointLight | SpotLight;
 
 // In this scene we will draw some monkeys with multiple lights using blending and multiple shaders
 export default class MultiPassLightingsScene extends Scene {
-    programs: {[name: string]: ShaderProgram} = {};
+    shaders: ShaderVariantCache; // We compile a variant of the same shader for each light type
     camera: Camera;
     controller: FlyCameraController;
     meshes: {[name: string]: Mesh} = {};
@@ -77,26 +77,19 @@ export default class MultiPassLightingsScene extends Scene {
     ];
 
     public load(): void {
-        // We need multiple shaders; one for each light type. Luckily, they are the same as the ones we used in each single light scene
+        // We need a shader for each light type. They are the same as the ones we used in each single light scene
+        // but merged into one shader where the light type is chosen by a keyword (LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT)
         this.game.loader.load({
-            ["directional.vert"]:{url:'shaders/phong/single-light/directional.vert', type:'text'},
-            ["directional.frag"]:{url:'shaders/phong/single-light/directional.frag', type:'text'},
-            ["point.vert"]:{url:'shaders/phong/single-light/point.vert', type:'text'},
-            ["point.frag"]:{url:'shaders/phong/single-light/point.frag', type:'text'},
-            ["spot.vert"]:{url:'shaders/phong/single-light/spot.vert', type:'text'},
-            ["spot.frag"]:{url:'shaders/phong/single-light/spot.frag', type:'text'},
+            ["lit.vert"]:{url:'shaders/phong/multi-pass/lit.vert', type:'shader'},
+            ["lit.frag"]:{url:'shaders/phong/multi-pass/lit.frag', type:'shader'},
             ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
         });
     } 
     
     public start(): void {
-        // Compile and Link a shader for each light type
-        for(let type of ['directional', 'point', 'spot']){
-            this.programs[type] = new ShaderProgram(this.gl);
-            this.programs[type].attach(this.game.loader.resources[`${type}.vert`], this.gl.VERTEX_SHADER);
-            this.programs[type].attach(this.game.loader.resources[`${type}.frag`], this.gl.FRAGMENT_SHADER);
-            this.programs[type].link();
-        }
+        // Register the lit shader, its variants will be compiled and linked the first time we request them
+        this.shaders = new ShaderVariantCache(this.gl);
+        this.shaders.register('lit', { vertex: this.game.loader.resources['lit.vert'], fragment: this.game.loader.resources['lit.frag'] });
 
         // Load the models
         this.meshes['ground'] = MeshUtils.Plane(this.gl, {min:[0,0], max:[100,100]});
@@ -145,7 +138,7 @@ export default class MultiPassLightingsScene extends Scene {
                 this.gl.blendFunc(this.gl.ONE, this.gl.ONE); // This config will make the output = src_color + dest_color
             }
 
-            let program = this.programs[light.type]; // Get the shader to use with this light type
+            let program = this.shaders.getVariant('lit', { LIGHT: light.type }); // Get the shader variant to use with this light type
             program.use(); // Use it
 
             // Send the VP and camera position
@@ -207,9 +200,7 @@ export default class MultiPassLightingsScene extends Scene {
     }
     
     public end(): void {
-        for(let key in this.programs)
-            this.programs[key].dispose();
-        this.programs = {};
+        this.shaders.dispose();
         for(let key in this.meshes)
             this.meshes[key].dispose();
         this.meshes = {};
@@ -1,11 +1,15 @@
 import { Scene } from '../common/game';
 import ShaderProgram from '../common/shader-program';
 import Mesh from '../common/mesh';
+import Frustum, { CullingStats } from '../common/frustum';
 import * as MeshUtils from '../common/mesh-utils';
 import * as TextureUtils from '../common/texture-utils';
 import Camera from '../common/camera';
 import FlyCameraController from '../common/camera-controllers/fly-camera-controller';
-import { vec3, mat4, quat } from 'gl-matrix';
+import { SceneNode } from '../common/scene-graph';
+import HDRPipeline from '../common/hdr-pipeline';
+import SSAO from '../common/ssao';
+import { vec3, mat4 } from 'gl-matrix';
 import { Vector, Selector, Color, NumberInput, CheckBox } from '../common/dom-utils';
 import { createElement } from 'tsx-create-element';
 
@@ -71,11 +75,10 @@ interface Material {
     emissive_tint: vec3
 };
 
-// This will represent an object in 3D space
+// This will represent an object in 3D space (its transformation is stored in the scene node that holds it)
 interface Object3D {
     mesh: Mesh,
-    material: Material,
-    modelMatrix: mat4
+    material: Material
 };
 
 // In this scene we will draw some textured monkeys with multiple lights using blending and multiple shaders
@@ -86,6 +89,14 @@ export default class TexturedMaterialsScene extends Scene {
     meshes: {[name: string]: Mesh} = {};
     textures: {[name: string]: WebGLTexture} = {};
     samplers: {[name: string]: WebGLSampler} = {};
+    hdr: HDRPipeline; // Some lights are brighter than 1 so we draw the scene in HDR then tone map it to the canvas
+    ssao: SSAO; // The baked ambient occlusion only darkens the monkeys' own creases, so SSAO adds the occlusion between the objects (e.g. under the monkeys)
+
+    // The camera pass (and the SSAO prepass) only draws the objects inside the view frustum
+    frustum: Frustum = new Frustum();
+    culling: boolean = true;
+    cullingStats: CullingStats = { drawn: 0, culled: 0 }; // The draws of the current frame
+    cullingLabel: HTMLElement; // Shows the culling stats of the last frame
 
     // We will store the lights here
     lights: Light[] = [
@@ -101,17 +112,19 @@ export default class TexturedMaterialsScene extends Scene {
         { type: 'spot', enabled: true, color: vec3.fromValues(5,5,0), position:vec3.fromValues(-3,+1,-3), direction:vec3.fromValues(+1,0,+1), attenuation_quadratic:1, attenuation_linear:0, attenuation_constant:0, inner_cone: 0.25*Math.PI, outer_cone: 0.3*Math.PI  },
     ];
 
-    // And we will store the objects here
-    objects: {[name: string]: Object3D} = {};
+    // And we will store the objects here in a scene graph
+    root: SceneNode<Object3D>;
 
     public load(): void {
         // All the lights will use the same vertex shader combined with different fragment shaders
+        HDRPipeline.load(this.game.loader);
+        SSAO.load(this.game.loader);
         this.game.loader.load({
-            ["light.vert"]:{url:'shaders/phong/textured-materials/light.vert', type:'text'},
-            ["ambient.frag"]:{url:'shaders/phong/textured-materials/ambient.frag', type:'text'},
-            ["directional.frag"]:{url:'shaders/phong/textured-materials/directional.frag', type:'text'},
-            ["point.frag"]:{url:'shaders/phong/textured-materials/point.frag', type:'text'},
-            ["spot.frag"]:{url:'shaders/phong/textured-materials/spot.frag', type:'text'},
+            ["light.vert"]:{url:'shaders/phong/textured-materials/light.vert', type:'shader'},
+            ["ambient.frag"]:{url:'shaders/phong/textured-materials/ambient.frag', type:'shader'},
+            ["directional.frag"]:{url:'shaders/phong/textured-materials/directional.frag', type:'shader'},
+            ["point.frag"]:{url:'shaders/phong/textured-materials/point.frag', type:'shader'},
+            ["spot.frag"]:{url:'shaders/phong/textured-materials/spot.frag', type:'shader'},
             ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
             ["asphalt.albedo"]:{url:'images/Asphalt/albedo.jpg', type:'image'},
             ["asphalt.emissive"]:{url:'images/Asphalt/emissive.jpg', type:'image'},
@@ -135,6 +148,11 @@ export default class TexturedMaterialsScene extends Scene {
             this.programs[type].attach(this.game.loader.resources[`${type}.frag`], this.gl.FRAGMENT_SHADER);
             this.programs[type].link();
         }
+        // The ambient light has a second program that multiplies the ambient by the screen space ambient occlusion (used while SSAO is enabled)
+        this.programs['ambient.ssao'] = new ShaderProgram(this.gl);
+        this.programs['ambient.ssao'].attach(this.game.loader.resources['light.vert'], this.gl.VERTEX_SHADER, { SSAO: true });
+        this.programs['ambient.ssao'].attach(this.game.loader.resources['ambient.frag'], this.gl.FRAGMENT_SHADER, { SSAO: true });
+        this.programs['ambient.ssao'].link();
 
         // Load the models
         this.meshes['ground'] = MeshUtils.Plane(this.gl, {min:[0,0], max:[50,50]});
@@ -159,7 +177,9 @@ export default class TexturedMaterialsScene extends Scene {
         this.textures['black'] = TextureUtils.SingleColor(this.gl, [0, 0, 0, 255]);
 
         // Create the 3D ojbects
-        this.objects['ground'] = {
+        this.root = new SceneNode<Object3D>('root');
+
+        this.root.addChild(new SceneNode('ground', {
             mesh: this.meshes['ground'],
             material: {
                 albedo: this.textures['ground.albedo'],
@@ -172,10 +192,9 @@ export default class TexturedMaterialsScene extends Scene {
                 emissive_tint: vec3.fromValues(1, 1, 1),
                 ambient_occlusion: this.textures['white']
             },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(0, 0, 0), vec3.fromValues(100, 1, 100))
-        };
+        }, {position: vec3.fromValues(0, 0, 0), scale: vec3.fromValues(100, 1, 100)}));
 
-        this.objects['asphalt suzanne'] = {
+        this.root.addChild(new SceneNode('asphalt suzanne', {
             mesh: this.meshes['suzanne'],
             material: {
                 albedo: this.textures['asphalt.albedo'],
@@ -188,11 +207,10 @@ export default class TexturedMaterialsScene extends Scene {
                 emissive_tint: vec3.fromValues(1, 1, 1),
                 ambient_occlusion: this.textures['suzanne.ao']
             },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(-4, 1, 0), vec3.fromValues(1, 1, 1))
-        };
+        }, {position: vec3.fromValues(-4, 1, 0), scale: vec3.fromValues(1, 1, 1)}));
 
         
-        this.objects['metal suzanne'] = {
+        this.root.addChild(new SceneNode('metal suzanne', {
             mesh: this.meshes['suzanne'],
             material: {
                 albedo: this.textures['metal.albedo'],
@@ -205,10 +223,9 @@ export default class TexturedMaterialsScene extends Scene {
                 emissive_tint: vec3.fromValues(1, 1, 1),
                 ambient_occlusion: this.textures['suzanne.ao']
             },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(0, 1, 0), vec3.fromValues(1, 1, 1))
-        };
+        }, {position: vec3.fromValues(0, 1, 0), scale: vec3.fromValues(1, 1, 1)}));
 
-        this.objects['wood suzanne'] = {
+        this.root.addChild(new SceneNode('wood suzanne', {
             mesh: this.meshes['suzanne'],
             material: {
                 albedo: this.textures['wood.albedo'],
@@ -221,8 +238,7 @@ export default class TexturedMaterialsScene extends Scene {
                 emissive_tint: vec3.fromValues(1, 1, 1),
                 ambient_occlusion: this.textures['suzanne.ao']
             },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(4, 1, 0), vec3.fromValues(1, 1, 1))
-        };
+        }, {position: vec3.fromValues(4, 1, 0), scale: vec3.fromValues(1, 1, 1)}));
 
         // Create a regular sampler for textures rendered on the scene objects
         this.samplers['regular'] = this.gl.createSampler();
@@ -252,12 +268,27 @@ export default class TexturedMaterialsScene extends Scene {
         // Use a dark grey clear color
         this.gl.clearColor(0.1,0.1,0.1,1);
 
+        this.hdr = new HDRPipeline(this.gl, this.game.loader);
+        this.ssao = new SSAO(this.gl, this.game.loader);
+
         this.setupControls();
     }
     
     public draw(deltaTime: number): void {
         this.controller.update(deltaTime); // Update camera
+        this.cullingStats = { drawn: 0, culled: 0 };
+
+        // Compute the screen space ambient occlusion from a depth prepass of all the objects
+        if(this.ssao.enabled){
+            this.ssao.render(this.camera, (program)=>{
+                this.cull(this.camera.ViewProjectionMatrix).forEach((node)=>{
+                    program.setUniformMatrix4fv("M", false, node.worldMatrix);
+                    node.data.mesh.draw(this.gl.TRIANGLES);
+                });
+            });
+        }
 
+        this.hdr.begin(); // Draw into the HDR target instead of the canvas
         this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT); // Clear color and depth
 
         let first_light = true;
@@ -274,8 +305,10 @@ export default class TexturedMaterialsScene extends Scene {
                 this.gl.blendFunc(this.gl.ONE, this.gl.ONE); // This config will make the output = src_color + dest_color
             }
 
-            let program = this.programs[light.type]; // Get the shader to use with this light type
+            const useSSAO = light.type == 'ambient' && this.ssao.enabled;
+            let program = this.programs[useSSAO ? 'ambient.ssao' : light.type]; // Get the shader to use with this light type
             program.use(); // Use it
+            if(useSSAO) this.ssao.bind(program, 5); // (units 0-4 are used by the material)
 
             // Send the VP and camera position
             program.setUniformMatrix4fv("VP", false, this.camera.ViewProjectionMatrix);
@@ -304,13 +337,13 @@ export default class TexturedMaterialsScene extends Scene {
                 }
             }
 
-            // Loop over objects and draw them
-            for(let name in this.objects){
-                let obj = this.objects[name];
+            // Walk over the scene graph and draw every node that holds an object inside the view
+            this.cull(this.camera.ViewProjectionMatrix).forEach((node)=>{
+                let obj = node.data;
 
-                // Create model matrix for the object
-                program.setUniformMatrix4fv("M", false, obj.modelMatrix);
-                program.setUniformMatrix4fv("M_it", true, mat4.invert(mat4.create(), obj.modelMatrix));
+                // Send the model matrix (and its inverse for the normals) of the object
+                program.setUniformMatrix4fv("M", false, node.worldMatrix);
+                program.setUniformMatrix4fv("M_it", true, node.inverseWorldMatrix);
                 
                 // Send material properties and bind the textures
                 program.setUniform3f("material.albedo_tint", obj.material.albedo_tint);
@@ -345,8 +378,21 @@ export default class TexturedMaterialsScene extends Scene {
                 
                 // Draw the object
                 obj.mesh.draw(this.gl.TRIANGLES);
-            }   
+            });
         }
+
+        this.hdr.end(deltaTime); // Tone map the HDR image to the canvas
+
+        if(this.ssao.enabled && this.ssao.debug) this.ssao.drawDebug(); // Show the occlusion instead of the scene
+
+        const stats = this.cullingStats;
+        this.cullingLabel.textContent = `${stats.culled} of ${stats.drawn + stats.culled} draws culled`;
+    }
+
+    // Returns the nodes to draw with the given VP matrix (all of them if the culling is disabled) and counts them in the culling stats
+    private cull(VP: mat4): SceneNode<Object3D>[] {
+        this.frustum.update(VP);
+        return Frustum.Cull(this.root, this.culling ? this.frustum : null, this.cullingStats);
     }
     
     public end(): void {
@@ -356,6 +402,8 @@ export default class TexturedMaterialsScene extends Scene {
         for(let key in this.meshes)
             this.meshes[key].dispose();
         this.meshes = {};
+        this.hdr.dispose();
+        this.ssao.dispose();
         this.clearControls();
     }
 
@@ -365,6 +413,7 @@ export default class TexturedMaterialsScene extends Scene {
     /////////////////////////////////////////////////////////
     private setupControls() {
         const controls = document.querySelector('#controls');
+        this.cullingLabel = <label className="control-label"></label>;
         
         
 
@@ -376,6 +425,13 @@ export default class TexturedMaterialsScene extends Scene {
                         return <CheckBox value={light.enabled} onchange={(v)=>{light.enabled=v;}}/>
                     })}
                 </div>
+                {this.hdr.controls()}
+                {this.ssao.controls()}
+                <div className="control-row">
+                    <CheckBox value={this.culling} onchange={(v)=>{ this.culling = v; }}/>
+                    <label className="control-label">Frustum Culling</label>
+                    {this.cullingLabel}
+                </div>
             </div>
             
         );
@@ -1,11 +1,23 @@
-import { Scene } from '../common/game';
+import Game, { Scene } from '../common/game';
+import ShaderVariantCache from '../common/shader-variants';
 import ShaderProgram from '../common/shader-program';
+import UniformBuffer, { UniformBlockSchema } from '../common/uniform-buffer';
+import RenderTarget from '../common/render-target';
+import EnvironmentMap from '../common/environment';
+import HDRPipeline from '../common/hdr-pipeline';
+import SSAO from '../common/ssao';
+import VarianceShadowMaps from '../common/variance-shadow-maps';
+import ShadowCascades from '../common/shadow-cascades';
+import ShadowAtlas, { ShadowTile, ShadowTileRequest } from '../common/shadow-atlas';
 import Mesh from '../common/mesh';
 import * as MeshUtils from '../common/mesh-utils';
+import Frustum, { CullingStats } from '../common/frustum';
 import * as TextureUtils from '../common/texture-utils';
 import Camera from '../common/camera';
 import FlyCameraController from '../common/camera-controllers/fly-camera-controller';
-import { vec3, mat4, quat } from 'gl-matrix';
+import { SceneNode } from '../common/scene-graph';
+import * as SceneDescription from '../common/scene-description';
+import { vec3, mat4 } from 'gl-matrix';
 import { Vector, Selector, Color, NumberInput, CheckBox } from '../common/dom-utils';
 import { createElement, StatelessProps, StatelessComponent } from 'tsx-create-element';
 
@@ -17,27 +29,57 @@ interface AmbientLight {
     skyColor: vec3,
     groundColor: vec3,
     skyDirection: vec3,
-    hasShadow: false // Ambient lights can't have shadow (they actually have shadow but they are hard to implement in realtime)
+    hasShadow: false, // Ambient lights can't have shadow (they actually have shadow but they are hard to implement in realtime)
+    buffer: UniformBuffer // The uniform buffer that stores the light data for the shader (see ShadowMappingScene.LightSchemas)
+};
+
+// The environment light is an ambient light read from an HDR image (see EnvironmentMap), its buffer is the buffer of the environment map
+interface EnvironmentLight {
+    type: 'environment',
+    enabled: boolean,
+    environment: EnvironmentMap,
+    skybox: boolean, // If true, the environment is drawn behind the scene
+    hasShadow: false,
+    buffer: UniformBuffer
+};
+
+// The shadow filter properties are the same for every light type that casts shadows (see common/shadow-filtering.glsl)
+interface ShadowFiltering {
+    shadowFilter: SceneDescription.ShadowFilter, // How the shadow edges are softened
+    shadowPCFPattern: SceneDescription.PCFPattern, // The sample pattern of PCF
+    shadowFilterRadius: number, // The PCF radius in texels (also the minimum PCSS radius)
+    shadowSamples: number, // The number of Poisson disk samples for PCF and for each step of PCSS
+    shadowLightSize: number, // The radius of the light which sets the PCSS penumbra size (for directional lights, it is the angular radius in radians)
+    shadowBlurRadius: number, // The VSM and EVSM moments are blurred with this radius in texels
+    shadowBleedReduction: number, // VSM and EVSM cut off the shadow values below this to hide light bleeding
+    shadowExponents: [number, number], // The positive and negative EVSM warp exponents
+    shadowMoments: WebGLTexture[], // The moments of each shadow map (only created when the light uses VSM or EVSM)
+    shadowTiles: ShadowTile[] // The tile of each shadow map in the shadow atlas (empty if the light uses VSM or EVSM, or if the atlas is full)
 };
 
 // Here, we will implement Cascaded Shadow Maps for Directional Lights
-interface DirectionalLight {
+interface DirectionalLight extends ShadowFiltering {
     type: 'directional',
     enabled: boolean,
     color: vec3,
     direction: vec3
     hasShadow: boolean,
-    shadowMaps: WebGLTexture[], // This will store the shadow map for each cascade
+    buffer: UniformBuffer,
     shadowVPs: mat4[], // This will store the View Projection matrix for each cascade
-    cascades: number[], // This will store the cascade distance (how much far from the camera does a shadow map cover)
+    cascades: number[], // This will store the far distance of each cascade along the camera view direction (computed every frame, see ShadowCascades.Splits)
+    cascadeCount: number, // The number of cascades (at most MAX_CASCADES)
+    cascadeLambda: number, // How the view is split between the cascades: 0 for uniform splits and 1 for logarithmic splits
+    cascadeBlend: number, // The fraction at the end of each cascade where it is blended with the next cascade
+    cascadeDebug: boolean, // If true, the light is tinted by the color of each cascade and the shadow maps are shown on the screen
     shadowMapResolution: number, // The resolution of each shadow map
     shadowBias: number, // The shadow bias (will be explained later in the code)
     shadowSlopeBias: number, // The shadow slope (will be explained later in the code)
-    shadowDistance: number // How far along the shadow direction can the shadow map cover
+    shadowMaxDistance: number, // How far from the camera do the cascades cover (or the camera far if it is nearer)
+    shadowDistance: number // How far along the shadow direction can the shadow map cover (measured toward the light from the back of each cascade)
 };
 
 // Here, we will implement Cube Shadow Maps for Point Lights
-interface PointLight {
+interface PointLight extends ShadowFiltering {
     type: 'point',
     enabled: boolean,
     color: vec3,
@@ -46,9 +88,9 @@ interface PointLight {
     attenuation_linear: number,
     attenuation_constant: number,
     hasShadow: boolean,
-    shadowMaps: WebGLTexture[], // This will store the shadow map for each direction (6 faces in total)
-    shadowVPs: mat4[], // This will store the View Projection matrix for each direction
-    shadowMapResolution: number, // The resolution of each shadow map
+    buffer: UniformBuffer,
+    shadowVPs: mat4[], // This will store the View Projection matrix for each cube face
+    shadowMapResolution: number, // The resolution of each cube face
     shadowBias: number, // The shadow bias (will be explained later in the code)
     shadowSlopeBias: number, // The shadow slope (will be explained later in the code)
     shadowNear: number, // The nearest depth the shadow can see
@@ -56,7 +98,7 @@ interface PointLight {
 };
 
 // Here, we will implement Shadow Maps for Spot Lights
-interface SpotLight {
+interface SpotLight extends ShadowFiltering {
     type: 'spot',
     enabled: boolean,
     color: vec3,
@@ -68,8 +110,8 @@ interface SpotLight {
     inner_cone: number,
     outer_cone: number,
     hasShadow: boolean,
-    shadowMaps: WebGLTexture[], // This will store the shadow map (we only need 1 but we still use an array to be consistent with other light types)
-    shadowVPs: mat4[], // This will store the View Projection matrix (we also need only one)
+    buffer: UniformBuffer,
+    shadowVPs: mat4[], // This will store the View Projection matrix (we only need 1 but we still use an array to be consistent with other light types)
     shadowMapResolution: number, // The resolution of the shadow map
     shadowBias: number, // The shadow bias (will be explained later in the code)
     shadowSlopeBias: number, // The shadow slope (will be explained later in the code)
@@ -78,10 +120,12 @@ interface SpotLight {
 };
 
 // This union type: it can be any of the specified types
-type Light = AmbientLight | DirectionalLight | PointLight | SpotLight;
+type Light = AmbientLight | EnvironmentLight | DirectionalLight | PointLight | SpotLight;
+type ShadowCaster = DirectionalLight | PointLight | SpotLight;
 
-// The material properties are the same as TexturedModelsScene
+// The material properties are the same as TexturedModelsScene with a metallic map for the physically based model
 interface Material {
+    model: SceneDescription.MaterialModel, // Selects the lit.frag variant used to draw the objects with this material
     albedo: WebGLTexture,
     albedo_tint: vec3,
     specular: WebGLTexture,
@@ -90,165 +134,281 @@ interface Material {
     roughness_scale: number,
     ambient_occlusion: WebGLTexture,
     emissive: WebGLTexture,
-    emissive_tint: vec3
+    emissive_tint: vec3,
+    metallic: WebGLTexture,
+    metallic_scale: number
 };
 
-// This will represent an object in 3D space
+// This will represent an object in 3D space (its transformation is stored in the scene node that holds it)
+// The object has a material for each submesh of its mesh (or one material if the mesh has no submeshes)
+// If the object has instances, its mesh is an instanced mesh that is drawn "instances" times in one draw call (see MeshUtils.InstancedMesh)
 interface Object3D {
     mesh: Mesh,
-    material: Material,
-    modelMatrix: mat4
+    materials: Material[],
+    instances: number
 };
 
+// Draws the mesh of an object or one of its submeshes (all of its instances if it is instanced)
+function drawObject(obj: Object3D, gl: WebGL2RenderingContext, submesh: number = -1){
+    if(submesh >= 0 && submesh < obj.mesh.submeshes.length) obj.mesh.drawSubmesh(submesh, gl.TRIANGLES, obj.instances);
+    else if(obj.instances > 0) obj.mesh.drawInstanced(obj.instances, gl.TRIANGLES);
+    else obj.mesh.draw(gl.TRIANGLES);
+}
+
+// The variance filters draw the moments into their own float textures instead of using the shadow atlas
+function usesMoments(light: ShadowFiltering): boolean {
+    return light.shadowFilter == 'vsm' || light.shadowFilter == 'evsm';
+}
+
 // Given a vector, this will return an arbitrary perpendicular vector
 function perpendicular(directon: vec3): vec3 {
     return vec3.cross(vec3.create(), directon, directon[1] == 0 && directon[2] == 0 ? [0, 0, 1] : [1, 0, 0]);
 }
 
 // In this scene we will draw a scene with shadow mapping
+// The content of the scene (meshes, textures, materials, lights and objects) is read from a JSON scene description (see static/scenes)
+// So this class can be used to draw any scene description without writing a new scene class
 export default class ShadowMappingScene extends Scene {
-    programs: {[name: string]: ShaderProgram} = {};
+    descriptionUrl: string; // The url of the scene description file
+    description: SceneDescription.SceneDescription;
+    shaders: ShaderVariantCache; // The shader variants are compiled on demand (e.g. for each light type with or without shadows)
     camera: Camera;
     controller: FlyCameraController;
     meshes: {[name: string]: Mesh} = {};
     textures: {[name: string]: WebGLTexture} = {};
     samplers: {[name: string]: WebGLSampler} = {};
-    frameBuffer: WebGLFramebuffer; // We need a frame buffer to draw shadow maps
-
-    // We will store the lights here
-    lights: Light[] = [
-        { type: "ambient", enabled: true, skyColor: vec3.fromValues(0.2, 0.3, 0.4), groundColor: vec3.fromValues(0.1, 0.1, 0.1), skyDirection: vec3.fromValues(0,1,0), hasShadow: false},
-        { type: 'directional', enabled: true, color: vec3.fromValues(0.5,0.5,0.5), direction:vec3.fromValues(-1,-1,-1), hasShadow: true, shadowMaps:[], shadowVPs: [], cascades: [2, 10, 100], shadowMapResolution: 1024, shadowBias: 1, shadowSlopeBias: 1.5, shadowDistance: 800 },
-        { type: 'point', enabled: true, color: vec3.fromValues(10,8,2), position:vec3.fromValues(0,2.5,0), attenuation_quadratic:0, attenuation_linear:1, attenuation_constant:0, hasShadow: true, shadowMaps:[], shadowVPs: [], shadowMapResolution: 256, shadowBias: 1, shadowSlopeBias: 1.5, shadowNear: 0.01, shadowFar: 100 },
-        { type: 'spot', enabled: true, color: vec3.fromValues(5,0,0), position:vec3.fromValues(-2,4,6), direction:vec3.fromValues(0,-1,-1), attenuation_quadratic:0, attenuation_linear:1, attenuation_constant:0, inner_cone: 0.25*Math.PI, outer_cone: 0.3*Math.PI, hasShadow: true, shadowMaps:[], shadowVPs: [], shadowMapResolution: 512, shadowBias: 1, shadowSlopeBias: 1.5, shadowNear: 0.01, shadowFar: 100 },
-    ];
+    shadowTarget: RenderTarget; // We need a render target to draw shadow maps (each shadow map is attached to it before drawing)
+    cameraBuffer: UniformBuffer; // The camera data is uploaded once per frame to this buffer and read by every program (see common/camera.glsl)
+    hdr: HDRPipeline; // The scene is drawn in HDR then tone mapped to the canvas (the lights can be much brighter than 1)
+    ssao: SSAO; // The screen space ambient occlusion darkens the ambient and environment lights where objects are close to each other
+    vsm: VarianceShadowMaps; // Creates and blurs the moments of the lights that use the VSM or EVSM shadow filters
+    cascadeViewer: ShadowCascades; // Shows the cascades of a directional light on the screen (for debugging)
+    shadowAtlas: ShadowAtlas; // The shadow maps of every light are tiles of this texture (except for the variance filters which use their own moments textures)
+
+    // Every pass (the camera, each shadow map and the SSAO prepass) only draws the objects inside the frustum of its VP matrix
+    frustum: Frustum = new Frustum();
+    culling: boolean = true;
+    cullingStats: CullingStats = { drawn: 0, culled: 0 }; // The draws of the current frame
+    cullingLabel: HTMLElement; // Shows the culling stats of the last frame
 
-    // And we will store the objects here
-    objects: {[name: string]: Object3D} = {};
+    // We will store the lights here (they will be created from the scene description)
+    lights: Light[] = [];
+
+    // This overrides the material model of every object so that the models can be compared on the same scene ('described' keeps the model of each material)
+    materialModel: SceneDescription.MaterialModel | 'described' = 'described';
+
+    // And we will store the objects here in a scene graph
+    root: SceneNode<Object3D>;
 
     static readonly MAX_CASCADES = 4; // The maximum number of shadow cascades we support (its a design choice)
+    static readonly SHADOW_ATLAS_SIZE = 4096; // The width and height of the shadow atlas (it holds 16 shadow maps of 1024x1024)
+
+    // The layouts of the uniform blocks in the shaders (they must match the blocks in common/camera.glsl and shadow-map/lit.frag)
+    static readonly CameraSchema: UniformBlockSchema = { VP: 'mat4', cam_position: 'vec3' };
+    // The shadow filter settings are appended to the block of every light type that casts shadows (see ShadowFilterSettings in common/shadow-filtering.glsl)
+    static readonly ShadowFilterSchema: UniformBlockSchema = { shadow_filter_radius: 'float', shadow_samples: 'int', shadow_light_size: 'float', shadow_depth_range: 'vec2', shadow_bleed_reduction: 'float', shadow_exponents: 'vec2' };
+    static readonly LightSchemas: {[type in Light['type']]: UniformBlockSchema} = {
+        ambient: { skyColor: 'vec3', groundColor: 'vec3', skyDirection: 'vec3' },
+        environment: EnvironmentMap.Schema,
+        directional: { color: 'vec3', direction: 'vec3', shadowVPs: ['mat4', ShadowMappingScene.MAX_CASCADES], shadow_tiles: ['vec4', ShadowMappingScene.MAX_CASCADES], cascades: ['float', ShadowMappingScene.MAX_CASCADES], active_cascades: 'int', view_direction: 'vec3', cascade_blend: 'float', ...ShadowMappingScene.ShadowFilterSchema },
+        point: { color: 'vec3', position: 'vec3', attenuation_quadratic: 'float', attenuation_linear: 'float', attenuation_constant: 'float', shadowVPs: ['mat4', 6], shadow_tiles: ['vec4', 6], ...ShadowMappingScene.ShadowFilterSchema },
+        spot: { color: 'vec3', position: 'vec3', direction: 'vec3', attenuation_quadratic: 'float', attenuation_linear: 'float', attenuation_constant: 'float', inner_cone: 'float', outer_cone: 'float', shadowVPs: ['mat4', 1], shadow_tiles: ['vec4', 1], ...ShadowMappingScene.ShadowFilterSchema }
+    };
+
+    // The names shown for each option (used as the options of the shadow filter selectors)
+    static readonly ShadowFilters: {[filter in SceneDescription.ShadowFilter]: string} = {
+        hardware: 'Hardware (2x2)',
+        pcf: 'PCF',
+        pcss: 'PCSS',
+        vsm: 'VSM',
+        evsm: 'EVSM'
+    };
+    static readonly PCFPatterns: {[pattern in SceneDescription.PCFPattern]: string} = {
+        grid: 'Grid',
+        poisson: 'Poisson Disk'
+    };
 
-    // The cube face directions and up vectors
+    // The cube face directions and up vectors (in the order of the cube map faces: +x, -x, +y, -y, +z, -z)
+    // The up vectors match the orientation that the cube map expects for each face so a face can be drawn with a regular perspective camera
     static readonly PointShadowDirections = [
-        [-1,  0,  0],
-        [ 0, -1,  0],
-        [ 0,  0, -1],
         [ 1,  0,  0],
+        [-1,  0,  0],
         [ 0,  1,  0],
-        [ 0,  0,  1]
+        [ 0, -1,  0],
+        [ 0,  0,  1],
+        [ 0,  0, -1]
     ];
 
     static readonly PointShadowUps = [
-        [ 0, -1,  0],
-        [ 0,  0, -1],
         [ 0, -1,  0],
         [ 0, -1,  0],
+        [ 0,  0,  1],
         [ 0,  0, -1],
+        [ 0, -1,  0],
         [ 0, -1,  0]
     ];
 
+    public constructor(game: Game, descriptionUrl: string = 'scenes/shadow-mapping.json'){
+        super(game);
+        this.descriptionUrl = descriptionUrl;
+    }
+
+    // Since Game creates the scenes from their types, this will create a scene type that draws the given scene description
+    public static FromDescription(descriptionUrl: string): new (game: Game) => ShadowMappingScene {
+        return class extends ShadowMappingScene {
+            public constructor(game: Game){ super(game, descriptionUrl); }
+        };
+    }
+
     public load(): void {
-        // We need shaders designed to support shadow maps
+        // We need a shader designed to support shadow maps (lit.frag has a variant for each light type and whether it casts shadows)
         // We also need shaders for drawing shadow maps (shadow.vert, shadow.frag)
+        // Then we read the scene description and once it is loaded, we request the files it needs (the loader will wait for them too)
+        // The environment lights need the shaders that precompute the environment maps and we need the HDR pipeline shaders
+        EnvironmentMap.load(this.game.loader);
+        HDRPipeline.load(this.game.loader);
+        SSAO.load(this.game.loader);
+        VarianceShadowMaps.load(this.game.loader);
+        ShadowCascades.load(this.game.loader);
         this.game.loader.load({
-            ["light.vert"]:{url:'shaders/phong/shadow-map/light.vert', type:'text'},
-            ["ambient.frag"]:{url:'shaders/phong/shadow-map/ambient.frag', type:'text'},
-            ["directional.frag"]:{url:'shaders/phong/shadow-map/directional.frag', type:'text'},
-            ["point.frag"]:{url:'shaders/phong/shadow-map/point.frag', type:'text'},
-            ["spot.frag"]:{url:'shaders/phong/shadow-map/spot.frag', type:'text'},
-            ["shadow.vert"]:{url:'shaders/phong/shadow-map/shadow.vert', type:'text'},
-            ["shadow.frag"]:{url:'shaders/phong/shadow-map/shadow.frag', type:'text'},
-            ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
-            ["house"]:{url:'models/House/House.obj', type:'text'},
-            ["wood.albedo"]:{url:'images/Wood/albedo.jpg', type:'image'},
-            ["wood.roughness"]:{url:'images/Wood/roughness.jpg', type:'image'},
-            ["wood.specular"]:{url:'images/Wood/specular.jpg', type:'image'},
-            ["suzanne.ao"]:{url:'images/Suzanne/ambient_occlusion.jpg', type:'image'},
-            ["house.albedo"]:{url:'models/House/House.jpeg', type:'image'},
+            ["light.vert"]:{url:'shaders/phong/shadow-map/light.vert', type:'shader'},
+            ["lit.frag"]:{url:'shaders/phong/shadow-map/lit.frag', type:'shader'},
+            ["shadow.vert"]:{url:'shaders/phong/shadow-map/shadow.vert', type:'shader'},
+            ["shadow.frag"]:{url:'shaders/phong/shadow-map/shadow.frag', type:'shader'},
+            [this.descriptionUrl]:{url:this.descriptionUrl, type:'json', success:(name, data, resource, loader)=>{
+                SceneDescription.LoadResources(loader, data, this.descriptionUrl);
+            }},
         });
     } 
     
     public start(): void {
-        // For each light type, compile and link a shader
-        for(let type of ['ambient', 'directional', 'point', 'spot']){
-            this.programs[type] = new ShaderProgram(this.gl);
-            this.programs[type].attach(this.game.loader.resources['light.vert'], this.gl.VERTEX_SHADER);
-            this.programs[type].attach(this.game.loader.resources[`${type}.frag`], this.gl.FRAGMENT_SHADER);
-            this.programs[type].link();
-        }
+        // Register the shaders, each variant will be compiled and linked the first time it is requested
+        this.shaders = new ShaderVariantCache(this.gl);
+        this.shaders.register('lit', {
+            vertex: this.game.loader.resources['light.vert'],
+            fragment: this.game.loader.resources['lit.frag'],
+            defines: { MAX_CASCADES: ShadowMappingScene.MAX_CASCADES }
+        });
+        // And a shader for drawing shadow maps
+        this.shaders.register('shadow', { vertex: this.game.loader.resources['shadow.vert'], fragment: this.game.loader.resources['shadow.frag'] });
 
-        // Create a shader for drawing shadow maps
-        this.programs['shadow'] = new ShaderProgram(this.gl);
-        this.programs['shadow'].attach(this.game.loader.resources['shadow.vert'], this.gl.VERTEX_SHADER);
-        this.programs['shadow'].attach(this.game.loader.resources['shadow.frag'], this.gl.FRAGMENT_SHADER);
-        this.programs['shadow'].link();
+        this.description = this.game.loader.resources[this.descriptionUrl];
 
         // Load the models
-        this.meshes['ground'] = MeshUtils.Plane(this.gl, {min:[0,0], max:[50,50]});
-        this.meshes['suzanne'] = MeshUtils.LoadOBJMesh(this.gl, this.game.loader.resources["suzanne"]);
-        this.meshes['house'] = MeshUtils.LoadOBJMesh(this.gl, this.game.loader.resources["house"]);
-
-        // Load the textures
-        this.textures['wood.albedo'] = TextureUtils.LoadImage(this.gl, this.game.loader.resources['wood.albedo']);
-        this.textures['wood.roughness'] = TextureUtils.LoadImage(this.gl, this.game.loader.resources['wood.roughness']);
-        this.textures['wood.specular'] = TextureUtils.LoadImage(this.gl, this.game.loader.resources['wood.specular']);
-        this.textures['suzanne.ao'] = TextureUtils.LoadImage(this.gl, this.game.loader.resources['suzanne.ao']);
-        this.textures['house.albedo'] = TextureUtils.LoadImage(this.gl, this.game.loader.resources['house.albedo']);
-        this.textures['ground.albedo'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [26, 26, 26, 255], [196, 196, 196, 255]);
-        this.textures['ground.specular'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [255, 255, 255, 255], [64, 64, 64, 255]);
-        this.textures['ground.roughness'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [52, 52, 52, 255], [245, 245, 245, 255]);
+        this.meshes = SceneDescription.CreateMeshes(this.gl, this.game.loader, this.description, this.descriptionUrl);
+
+        // Create some default textures (materials can refer to them by name and they are used for missing material properties)
+        // Then load the textures of the scene
         this.textures['white'] = TextureUtils.SingleColor(this.gl, [255, 255, 255, 255]);
         this.textures['black'] = TextureUtils.SingleColor(this.gl, [0, 0, 0, 255]);
         this.textures['grey'] = TextureUtils.SingleColor(this.gl, [128, 128, 128, 255]);
+        Object.assign(this.textures, SceneDescription.CreateTextures(this.gl, this.game.loader, this.description, this.descriptionUrl));
 
-        // Create the 3D ojbects
-        this.objects['ground'] = {
-            mesh: this.meshes['ground'],
-            material: {
-                albedo: this.textures['ground.albedo'],
-                albedo_tint: vec3.fromValues(1, 1, 1),
-                specular: this.textures['ground.specular'],
-                specular_tint: vec3.fromValues(1, 1, 1),
-                roughness: this.textures['ground.roughness'],
-                roughness_scale: 1,
-                emissive: this.textures['black'],
-                emissive_tint: vec3.fromValues(1, 1, 1),
-                ambient_occlusion: this.textures['white']
-            },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(0, 0, 0), vec3.fromValues(100, 1, 100))
-        };
+        // Create the materials
+        const materials: {[name: string]: Material} = {};
+        for(const name in this.description.materials ?? {}){
+            const material = this.description.materials[name];
+            const texture = (textureName: string, fallback: string) => {
+                textureName = textureName ?? fallback;
+                if(!(textureName in this.textures)) console.error(`The texture "${textureName}" used by the material "${name}" is not found`);
+                return this.textures[textureName] ?? this.textures[fallback];
+            };
+            materials[name] = {
+                model: material.model ?? 'phong',
+                albedo: texture(material.albedo, 'white'),
+                albedo_tint: SceneDescription.ToVec3(material.albedo_tint, [1, 1, 1]),
+                specular: texture(material.specular, 'black'),
+                specular_tint: SceneDescription.ToVec3(material.specular_tint, [1, 1, 1]),
+                roughness: texture(material.roughness, 'grey'),
+                roughness_scale: material.roughness_scale ?? 1,
+                emissive: texture(material.emissive, 'black'),
+                emissive_tint: SceneDescription.ToVec3(material.emissive_tint, [1, 1, 1]),
+                ambient_occlusion: texture(material.ambient_occlusion, 'white'),
+                metallic: texture(material.metallic, 'black'),
+                metallic_scale: material.metallic_scale ?? 1
+            };
+        }
 
-        this.objects['house'] = {
-            mesh: this.meshes['house'],
-            material: {
-                albedo: this.textures['house.albedo'],
-                albedo_tint: vec3.fromValues(1, 1, 1),
-                specular: this.textures['black'],
-                specular_tint: vec3.fromValues(1, 1, 1),
-                roughness: this.textures['grey'],
-                roughness_scale: 1,
-                emissive: this.textures['black'],
-                emissive_tint: vec3.fromValues(1, 1, 1),
-                ambient_occlusion: this.textures['white']
-            },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(0, 0, 0), vec3.fromValues(1, 1, 1))
+        // Create the 3D ojbects (each object in the description can have children so we build the scene graph recursively)
+        this.root = new SceneNode<Object3D>('root');
+        const createNode = (object: SceneDescription.ObjectDescription, parent: SceneNode<Object3D>) => {
+            let data: Object3D = undefined;
+            if(object.mesh !== undefined){
+                const described = this.meshes[object.mesh];
+                // Each submesh takes the material of its slot from "materials" (the slots that are not listed take "material")
+                const slots = described?.submeshes.map(submesh => submesh.material) ?? [];
+                const names = (slots.length > 0 ? slots : ['default']).map(slot => object.materials?.[slot] ?? object.material);
+                const missing = names.findIndex(name => !(name in materials));
+                if(described === undefined) console.error(`The mesh "${object.mesh}" used by the object "${object.name}" is not found`);
+                else if(missing >= 0) console.error(`The material "${names[missing]}" used by the object "${object.name}" is not found`);
+                else if(object.instances === undefined) data = { mesh: described, materials: names.map(name => materials[name]), instances: 0 };
+                else {
+                    // Each instanced object gets its own instanced mesh (it shares the vertices and submeshes of the described mesh)
+                    const instances = SceneDescription.CreateInstances(object.instances);
+                    const mesh = MeshUtils.InstancedMesh(this.gl, described, instances);
+                    this.meshes[`${object.name}.instances`] = mesh;
+                    data = { mesh, materials: names.map(name => materials[name]), instances: instances.length };
+                }
+            }
+            const node = parent.addChild(new SceneNode(object.name, data, SceneDescription.ObjectTransform(object)));
+            for(const child of object.children ?? []) createNode(child, node);
         };
+        for(const object of this.description.objects ?? []) createNode(object, this.root);
 
-        this.objects['wood suzanne'] = {
-            mesh: this.meshes['suzanne'],
-            material: {
-                albedo: this.textures['wood.albedo'],
-                albedo_tint: vec3.fromValues(1, 1, 1),
-                specular: this.textures['wood.specular'],
-                specular_tint: vec3.fromValues(1, 1, 1),
-                roughness: this.textures['wood.roughness'],
-                roughness_scale: 1,
-                emissive: this.textures['black'],
-                emissive_tint: vec3.fromValues(1, 1, 1),
-                ambient_occlusion: this.textures['suzanne.ao']
-            },
-            modelMatrix: mat4.fromRotationTranslationScale(mat4.create(), quat.create(), vec3.fromValues(-2, 1, 4), vec3.fromValues(1, 1, 1))
-        };
+        // The variance shadow maps need float textures so we check if the device supports them before creating the lights
+        this.vsm = new VarianceShadowMaps(this.gl, this.game.loader);
+
+        // Create the lights
+        // Each light gets a uniform buffer to store its data (the layout depends on the light type)
+        this.lights = (this.description.lights ?? []).map((light): Light => {
+            const enabled = light.enabled ?? true;
+            if(light.type == 'environment'){
+                // The environment map is precomputed here (this takes a moment since it integrates the whole image for each texel of the prefiltered map)
+                const environment = new EnvironmentMap(this.gl, this.game.loader, SceneDescription.EnvironmentImage(this.game.loader, light.url, this.descriptionUrl));
+                environment.intensity = light.intensity ?? 1;
+                return { type: 'environment', enabled, environment, skybox: light.skybox ?? true, hasShadow: false, buffer: environment.buffer };
+            }
+            const buffer = new UniformBuffer(this.gl, ShadowMappingScene.LightSchemas[light.type]);
+            if(light.type == 'ambient'){
+                return { type: 'ambient', enabled, skyColor: SceneDescription.ToVec3(light.skyColor), groundColor: SceneDescription.ToVec3(light.groundColor), skyDirection: SceneDescription.ToVec3(light.skyDirection, [0, 1, 0]), hasShadow: false, buffer };
+            }
+            const shadow = light.shadow ?? {};
+            const shadowProperties = {
+                buffer,
+                hasShadow: light.shadow !== undefined,
+                shadowVPs: [] as mat4[],
+                shadowMapResolution: shadow.resolution ?? 1024,
+                shadowBias: shadow.bias ?? 1,
+                shadowSlopeBias: shadow.slopeBias ?? 1.5,
+                shadowFilter: shadow.filter ?? 'hardware',
+                shadowPCFPattern: shadow.pattern ?? 'poisson',
+                shadowFilterRadius: shadow.filterRadius ?? 1.5,
+                shadowSamples: shadow.samples ?? 16,
+                shadowLightSize: shadow.lightSize ?? 0.1,
+                shadowBlurRadius: shadow.blurRadius ?? 2,
+                shadowBleedReduction: shadow.bleedReduction ?? 0.2,
+                shadowExponents: [shadow.exponents?.[0] ?? 40, shadow.exponents?.[1] ?? 5] as [number, number],
+                shadowMoments: [] as WebGLTexture[],
+                shadowTiles: [] as ShadowTile[]
+            };
+            if((shadowProperties.shadowFilter == 'vsm' || shadowProperties.shadowFilter == 'evsm') && !this.vsm.supported){
+                console.warn(`The shadow filter "${shadowProperties.shadowFilter}" needs to render to floating point textures which this device doesn't support so PCF is used instead`);
+                shadowProperties.shadowFilter = 'pcf';
+            }
+            if(light.type == 'directional'){
+                // The light size of directional lights is an angle (written in degrees like the cone angles)
+                return { type: 'directional', enabled, color: SceneDescription.ToVec3(light.color), direction: SceneDescription.ToVec3(light.direction), ...shadowProperties, shadowLightSize: (shadow.lightSize ?? 1) * Math.PI / 180,
+                    cascades: [], cascadeCount: Math.min(Math.max(light.shadow?.cascades ?? 3, 1), ShadowMappingScene.MAX_CASCADES), cascadeLambda: light.shadow?.lambda ?? 0.75, cascadeBlend: light.shadow?.blend ?? 0.1, cascadeDebug: false,
+                    shadowMaxDistance: light.shadow?.maxDistance ?? 100, shadowDistance: light.shadow?.distance ?? 800 };
+            }
+            const shadowRange = { shadowNear: light.shadow?.near ?? 0.01, shadowFar: light.shadow?.far ?? 100 };
+            const attenuation = { attenuation_quadratic: light.attenuation?.quadratic ?? 0, attenuation_linear: light.attenuation?.linear ?? 0, attenuation_constant: light.attenuation?.constant ?? 1 };
+            if(light.type == 'point'){
+                return { type: 'point', enabled, color: SceneDescription.ToVec3(light.color), position: SceneDescription.ToVec3(light.position), ...attenuation, ...shadowProperties, ...shadowRange };
+            } else {
+                return { type: 'spot', enabled, color: SceneDescription.ToVec3(light.color), position: SceneDescription.ToVec3(light.position), direction: SceneDescription.ToVec3(light.direction), ...attenuation, inner_cone: light.inner_cone * Math.PI / 180, outer_cone: light.outer_cone * Math.PI / 180, ...shadowProperties, ...shadowRange };
+            }
+        });
 
         // Create a regular sampler for textures rendered on the scene objects
         this.samplers['regular'] = this.gl.createSampler();
@@ -269,29 +429,44 @@ export default class ShadowMappingScene extends Scene {
         this.gl.samplerParameteri(this.samplers['shadow'], this.gl.TEXTURE_COMPARE_FUNC, this.gl.LESS);
         this.gl.samplerParameteri(this.samplers['shadow'], this.gl.TEXTURE_COMPARE_MODE, this.gl.COMPARE_REF_TO_TEXTURE);
 
+        // PCSS needs the depth of the blockers so it reads the shadow maps without comparison (depth textures can't be filtered so we use the nearest filter)
+        this.samplers['depth'] = this.gl.createSampler();
+        this.gl.samplerParameteri(this.samplers['depth'], this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
+        this.gl.samplerParameteri(this.samplers['depth'], this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
+        this.gl.samplerParameteri(this.samplers['depth'], this.gl.TEXTURE_MAG_FILTER, this.gl.NEAREST);
+        this.gl.samplerParameteri(this.samplers['depth'], this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST);
+
+        // The moments of the variance shadow maps are read with linear filtering (this is why they can be soft with a single sample)
+        this.samplers['moments'] = this.gl.createSampler();
+        this.gl.samplerParameteri(this.samplers['moments'], this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
+        this.gl.samplerParameteri(this.samplers['moments'], this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
+        this.gl.samplerParameteri(this.samplers['moments'], this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
+        this.gl.samplerParameteri(this.samplers['moments'], this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
+
         // Now we need to allocate the shadow maps
+        // Instead of a texture for each shadow map, all the shadow maps are tiles of one large depth texture (the shadow atlas) which is reallocated every frame
         // Since shadow maps are depth textures, we can use one of the depth component formats. Here we use DEPTH_COMPONENT32F which is honsetly an overkill, we could use some smaller such as DEPTH_COMPONENT16 and DEPTH_COMPONENT24
-        for(let light of this.lights){
-            if(light.type == "spot"){
-                // spot lights need 1 shadow map only
-                light.shadowMaps[0] = TextureUtils.RenderTexture(this.gl, [light.shadowMapResolution, light.shadowMapResolution], this.gl.DEPTH_COMPONENT32F);
-            } else if(light.type == "directional"){
-                // spot lights need 1 shadow map for each cascade
-                for(let i = 0; i < light.cascades.length; i++) light.shadowMaps[i] = TextureUtils.RenderTexture(this.gl, [light.shadowMapResolution, light.shadowMapResolution], this.gl.DEPTH_COMPONENT32F);
-            } else if(light.type == "point"){
-                // spot lights need 1 shadow map for each direction (size in total)
-                for(let i = 0; i < ShadowMappingScene.PointShadowUps.length; i++) light.shadowMaps[i] = TextureUtils.RenderTexture(this.gl, [light.shadowMapResolution, light.shadowMapResolution], this.gl.DEPTH_COMPONENT32F);
-            }
-        }
+        this.shadowAtlas = new ShadowAtlas(this.gl, ShadowMappingScene.SHADOW_ATLAS_SIZE);
+
+        // We will create one render target for drawing shadow maps (it has no attachments of its own since we attach the shadow maps to it)
+        this.shadowTarget = new RenderTarget(this.gl, [1, 1]);
 
-        // We will create one frame buffer for drawing shadow maps
-        this.frameBuffer = this.gl.createFramebuffer();
+        // And a uniform buffer for the camera data
+        this.cameraBuffer = new UniformBuffer(this.gl, ShadowMappingScene.CameraSchema);
+
+        // The scene will be drawn into an HDR render target then tone mapped to the canvas
+        this.hdr = new HDRPipeline(this.gl, this.game.loader);
+        this.ssao = new SSAO(this.gl, this.game.loader);
+        this.cascadeViewer = new ShadowCascades(this.gl, this.game.loader);
 
         // Create a camera and a controller
         this.camera = new Camera();
         this.camera.type = 'perspective';
-        this.camera.position = vec3.fromValues(5,5,5);
-        this.camera.direction = vec3.fromValues(-1,-1,-1);
+        this.camera.position = SceneDescription.ToVec3(this.description.camera?.position, [5, 5, 5]);
+        this.camera.direction = SceneDescription.ToVec3(this.description.camera?.direction, [-1, -1, -1]);
+        this.camera.perspectiveFoVy = (this.description.camera?.fovy ?? 90) * Math.PI / 180;
+        this.camera.near = this.description.camera?.near ?? this.camera.near;
+        this.camera.far = this.description.camera?.far ?? this.camera.far;
         this.camera.aspectRatio = this.gl.drawingBufferWidth/this.gl.drawingBufferHeight;
         
         this.controller = new FlyCameraController(this.camera, this.game.input);
@@ -313,15 +488,25 @@ export default class ShadowMappingScene extends Scene {
     
     public draw(deltaTime: number): void {
         this.controller.update(deltaTime); // Update camera
+        this.cullingStats = { drawn: 0, culled: 0 };
 
         // first, we need to render the shadow maps
-        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.frameBuffer); // so we bind our frame buffer
-        let shadowProgram = this.programs['shadow']; 
-        shadowProgram.use(); // Use the shadow program
+        // Each shadow map gets a tile of the shadow atlas whose size depends on how much of the screen the light can reach
+        this.allocateShadowTiles();
+        this.shadowTarget.bind(); // so we bind our render target (this remembers the canvas viewport so that unbind can restore it)
         this.gl.enable(this.gl.POLYGON_OFFSET_FILL); // enable the polygon offset (we will know why soon)
+        // The whole atlas is cleared once then each tile is drawn with a viewport that covers only the tile
+        this.shadowTarget.attachTexture(this.gl.DEPTH_ATTACHMENT, this.shadowAtlas.texture, [this.shadowAtlas.size, this.shadowAtlas.size]);
+        this.gl.clear(this.gl.DEPTH_BUFFER_BIT);
         // And now for each light, we will render its shadow maps
         for(let light of this.lights){
-            if(!light.enabled || !light.hasShadow) continue; // If it is disabled or has no shadow, continue
+            if(!light.enabled || !this.drawsShadow(light)) continue; // If it is disabled or has no shadow (or no room in the atlas), continue
+            if(light.type == 'ambient' || light.type == 'environment') continue;
+            // The variance shadow maps (VSM and EVSM) store the moments of the depth in float textures instead of the atlas
+            const moments = usesMoments(light);
+            // The resolution of each shadow map (the tiles can have different sizes) and how many shadow maps (or cube faces) the light needs
+            const count = light.type == 'directional' ? ShadowMappingScene.CascadeCount(light) : light.type == 'point' ? 6 : 1;
+            const resolutions: number[] = moments ? Array(count).fill(light.shadowMapResolution) : light.shadowTiles.map(tile => tile.size);
             // Now we need to build the VP matrices of the light
             if(light.type == "spot"){
                 // Spot lights are like one perspective camera looking from the camera position toward the camera direction with a field of view angle equal to double the outer cone angle
@@ -330,26 +515,22 @@ export default class ShadowMappingScene extends Scene {
                     mat4.lookAt(mat4.create(), light.position, vec3.add(vec3.create(), light.position, light.direction), perpendicular(light.direction)));
             } else if(light.type == "directional"){
                 // Each cascade in the directional light is like an orthographic camera looking from the sky at th world
-                // There are many options for choosing the cascade matrices. Here, we use the stable fit algorithm from Unity which is not efficient but easy to implement and removes shadow edge swimming when the camera rotates since the cascades are always axis aligned and centered around the camera
+                // There are many options for choosing the cascade matrices. Here, we split the camera frustum into slices and fit each cascade to its slice (see ShadowCascades)
+                // The cascade size doesn't change when the camera rotates and the cascade moves in whole texels which removes shadow edge swimming
                 // But why use cascades instead of one shadow map?
                 // Well we can have one shadow map cover the whole world but without a crazily highly resolution, the quality will be horrible
                 // On the other side, if the shadow map covers a small area, we won't see shadow outside it which will probably feel unrealistic in open world environments
                 // A solution is Cascaded Shadow Map where we use multiple shadow maps, one that cover a small area around the camera and one that covers a vast area with low quality and we can add more cascades in between
                 // This will allow us to get good quality on near objects using the first cascade and for farther objects, a large cascade with low quality will not be very noticeable since they are far anyway
-                // Usually, the cascade size are organized in an exponential fashion but we free to choose whatever we like. 
-                const dir = vec3.normalize(vec3.create(), light.direction);
-                // We will assume that the light is away from the camera with the distance of 0.5 * light.shadowDistance
-                // Ideally, 0.5 * light.shadowDistance should be equal to the diameter of the world but we can compromise
-                const V = mat4.lookAt(mat4.create(), vec3.scaleAndAdd(vec3.create(), this.camera.position,  dir, -light.shadowDistance/2), this.camera.position, perpendicular(light.direction));
-                // While all the cascade look in the same direction, they have different area of effect to they need projection matrices with different orthographics sizes
-                for(let i = 0; i < light.cascades.length; i++) {
-                    const size = light.cascades[i];
-                    light.shadowVPs[i] = mat4.mul(mat4.create(), 
-                        mat4.ortho(mat4.create(), -size, size, -size, size, 0, light.shadowDistance), 
-                        V);
+                // Usually, the cascade size are organized in an exponential fashion (the practical split scheme mixes it with uniform splits using the lambda)
+                light.cascades = ShadowCascades.Splits(this.camera.near, Math.min(this.camera.far, light.shadowMaxDistance), count, light.cascadeLambda);
+                // Ideally, light.shadowDistance should be equal to the diameter of the world so that every object between the light and the cascade can cast a shadow but we can compromise
+                for(let i = 0; i < count; i++){
+                    light.shadowVPs[i] = ShadowCascades.Fit(this.camera, i == 0 ? this.camera.near : light.cascades[i - 1], light.cascades[i], light.direction, resolutions[i], light.shadowDistance);
                 }
+                light.shadowVPs.length = count;
             } else if(light.type == "point"){
-                // Points lights are split into 6 perspective cameras, each looking along a specific axis (-x, -y, -z, +x, +y, +z)
+                // Points lights are split into 6 perspective cameras, each looking along a specific axis (+x, -x, +y, -y, +z, -z) and drawing one face of the cube (a tile of the atlas or a face of the moments cube map)
                 // All the directions have the same projection matrix with a field of view = 90 degrees
                 const P = mat4.perspective(mat4.create(), Math.PI/2, 1, light.shadowNear, light.shadowFar);
                 // Each matrix has a different view depending on the direction
@@ -360,18 +541,55 @@ export default class ShadowMappingScene extends Scene {
                 }
             }
 
-            // For each shadow map in the light, we need to render the scene
-            for(let i = 0; i < light.shadowMaps.length; i++){
-                // We attach the shadow map texture to the frame buffer 
-                this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, this.gl.DEPTH_ATTACHMENT, this.gl.TEXTURE_2D, light.shadowMaps[i], 0);
-                // Quick check to se if it works
-                if(this.gl.checkFramebufferStatus(this.gl.FRAMEBUFFER) != this.gl.FRAMEBUFFER_COMPLETE) console.error("FrameBuffer is Incomplete");
-                // Set the viewport to match the shadow map resolution
-                this.gl.viewport(0, 0, light.shadowMapResolution, light.shadowMapResolution);
-                // We only need to clear the depth
-                this.gl.clear(this.gl.DEPTH_BUFFER_BIT);
-                // Send the VP matrix
-                shadowProgram.setUniformMatrix4fv("VP", false, light.shadowVPs[i]);
+            // The moments of point lights are stored in a cube map (the other lights need a moments texture for each shadow map)
+            const cube = moments && light.type == 'point';
+            const resolution = light.shadowMapResolution;
+            const momentsCount = cube ? 1 : count;
+            if(moments && light.shadowMoments.length != momentsCount){
+                for(const texture of light.shadowMoments) this.gl.deleteTexture(texture);
+                light.shadowMoments = Array.from({length: momentsCount}, () => this.vsm.createMoments(resolution, cube));
+            }
+            const exponents = this.vsm.clampExponents(light.shadowExponents);
+            const size: [number, number] = [resolution, resolution];
+
+            // The shadow program writes the moments for the variance filters (the perspective depth of spot lights is linearized first)
+            // For the moments cube map of point lights, it writes the distance from the light instead of the depth (see shadow.frag)
+            // Instanced objects need another variant so the program is picked for each object and its uniforms are sent whenever it changes
+            const shadowKeywords = { MOMENTS: moments && light.shadowFilter, SHADOW_PERSPECTIVE: moments && light.type == 'spot', SHADOW_CUBE: cube };
+            const depthRange: [number, number] = light.type == 'directional' ? [0, light.shadowDistance] : [light.shadowNear, light.shadowFar];
+            const lightPosition = light.type == 'point' ? light.position : null;
+            const depthBias: [number, number] = [light.shadowBias, light.shadowSlopeBias];
+            let shadowProgram: ShaderProgram = null;
+            const useShadowProgram = (instanced: boolean, VP: mat4) => {
+                const variant = this.shaders.getVariant('shadow', { ...shadowKeywords, INSTANCED: instanced });
+                if(variant === shadowProgram) return;
+                shadowProgram = variant;
+                shadowProgram.use(); // Use the shadow program
+                shadowProgram.setUniformMatrix4fv("VP", false, VP); // Send the VP matrix
+                if(moments || cube) shadowProgram.setUniform2f("depth_range", depthRange);
+                if(moments) shadowProgram.setUniform2f("exponents", exponents);
+                if(cube){
+                    shadowProgram.setUniform3f("light_position", lightPosition);
+                    shadowProgram.setUniform2f("depth_bias", depthBias);
+                }
+            };
+
+            // For each shadow map (or cube face) in the light, we need to render the scene
+            for(let i = 0; i < count; i++){
+                if(moments){
+                    // The moments are drawn with a depth texture of their own (the variance filters never read the depth)
+                    // This also checks that the frame buffer is complete and sets the viewport to match the shadow map resolution
+                    this.shadowTarget.attachTexture(this.gl.DEPTH_ATTACHMENT, this.vsm.depthTexture(resolution), size);
+                    // The moments are cleared to the moments of the farthest depth (nothing blocks the light)
+                    // A cube face is drawn into a 2D texture first since the blur can only read 2D textures
+                    this.shadowTarget.attachTexture(this.gl.COLOR_ATTACHMENT0, cube ? this.vsm.faceTexture(resolution) : light.shadowMoments[i], size);
+                    this.gl.clearBufferfv(this.gl.COLOR, 0, this.vsm.clearValues(light.shadowFilter == 'evsm', exponents));
+                    // We only need to clear the depth
+                    this.gl.clear(this.gl.DEPTH_BUFFER_BIT);
+                } else {
+                    // The atlas is already attached and cleared so we only need to draw into the tile
+                    this.shadowAtlas.beginTile(light.shadowTiles[i]);
+                }
                 // Here we set the polygon offset to apply shadow bias... but what is bias? and why?
                 // Well, this is needed to hide what is called "Shadow Acne". This happens when parts of the triangle is occluded by itself due to the pixelation error on the shadow map
                 // Since the triangle will be rasterized into pixels, we only store a discrete version of the triangle depth.
@@ -387,23 +605,53 @@ export default class ShadowMappingScene extends Scene {
                 // Still, there are no universal values that work for every scene and light so we keep them as tweakable parameters.
                 // Note: polygonOffset only works if we enable POLYGON_OFFSET_FILL
                 this.gl.polygonOffset(light.shadowSlopeBias, light.shadowBias);
-                for(let name in this.objects){
-                    let obj = this.objects[name];
-                    shadowProgram.setUniformMatrix4fv("M", false, obj.modelMatrix);
-                    obj.mesh.draw(this.gl.TRIANGLES);
+                // Only the objects inside the frustum of the shadow map can cast a shadow into it
+                const VP = light.shadowVPs[i];
+                shadowProgram = null; // Each shadow map has its own VP so the uniforms are sent again
+                this.cull(VP).forEach((node)=>{
+                    useShadowProgram(node.data.instances > 0, VP);
+                    shadowProgram.setUniformMatrix4fv("M", false, node.worldMatrix);
+                    drawObject(node.data, this.gl);
+                });
+
+                // Blur the moments (for cube maps, the blur also copies the face texture into the cube face)
+                if(moments){
+                    if(cube) this.vsm.blur(this.vsm.faceTexture(resolution), light.shadowMoments[0], resolution, light.shadowBlurRadius, i);
+                    else this.vsm.blur(light.shadowMoments[i], light.shadowMoments[i], resolution, light.shadowBlurRadius);
                 }
             }
 
+            // Detach the moments (the next lights may not write any color) and attach the atlas again
+            if(moments){
+                this.shadowTarget.attachTexture(this.gl.COLOR_ATTACHMENT0, null, size);
+                this.shadowTarget.attachTexture(this.gl.DEPTH_ATTACHMENT, this.shadowAtlas.texture, [this.shadowAtlas.size, this.shadowAtlas.size]);
+            }
         }
         // Now we have finished drawing all the shadow maps so we no longer need the POLYGON_OFFSET_FILL
         this.gl.disable(this.gl.POLYGON_OFFSET_FILL);
 
-        // Go back to the canvas frame buffer to draw the scene
-        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
-        // Set the viewport to fullscreen
-        this.gl.viewport(0, 0, this.gl.drawingBufferWidth, this.gl.drawingBufferHeight);
+        // Go back to the canvas frame buffer (and the fullscreen viewport) then start drawing the scene into the HDR target
+        this.shadowTarget.unbind();
+
+        // Compute the screen space ambient occlusion from a depth prepass of all the objects (only the ambient passes use it)
+        const ssao = this.ssao.enabled && this.lights.some(light => light.enabled && (light.type == 'ambient' || light.type == 'environment'));
+        if(ssao){
+            this.ssao.render(this.camera, (_, useVariant)=>{
+                this.cull(this.camera.ViewProjectionMatrix).forEach((node)=>{
+                    const program = useVariant(node.data.instances > 0);
+                    program.setUniformMatrix4fv("M", false, node.worldMatrix);
+                    drawObject(node.data, this.gl);
+                });
+            });
+        }
+
+        this.hdr.begin();
         this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT); // Clear color and depth
 
+        // Send the VP and camera position once for the whole frame
+        this.cameraBuffer.setValues({ VP: this.camera.ViewProjectionMatrix, cam_position: this.camera.position });
+        this.cameraBuffer.upload();
+
         let first_light = true;
         // for each light, draw the whole scene
         for(const light of this.lights){
@@ -418,112 +666,254 @@ export default class ShadowMappingScene extends Scene {
                 this.gl.blendFunc(this.gl.ONE, this.gl.ONE); // This config will make the output = src_color + dest_color
             }
 
-            let program = this.programs[light.type]; // Get the shader to use with this light type
-            program.use(); // Use it
+            let shadowUnits: number[] = []; // The texture units of the shadow maps (if the light has shadows)
+            let shadowFilter: SceneDescription.ShadowFilter | false = false; // The shadow filter and PCF pattern select the shader variant (if the light has shadows)
+            let pcfPattern: SceneDescription.PCFPattern | false = false;
+            let shadowed = false, atlas = false; // Whether the shadows are drawn this frame and whether they are in the shadow atlas
+            const cascadeDebug = light.type == 'directional' && this.drawsShadow(light) && light.cascadeDebug; // Tint the cascades of this light
 
-            // Send the VP and camera position
-            program.setUniformMatrix4fv("VP", false, this.camera.ViewProjectionMatrix);
-            program.setUniform3f("cam_position", this.camera.position);
-
-            // Send the light properties depending on its type (remember to normalize the light direction)
+            // Store the light properties in its buffer depending on its type (remember to normalize the light direction)
             if(light.type == 'ambient'){
-                program.setUniform3f(`light.skyColor`, light.skyColor);
-                program.setUniform3f(`light.groundColor`, light.groundColor);
-                program.setUniform3f(`light.skyDirection`, vec3.normalize(vec3.create(), light.skyDirection));
-            } else {
-                program.setUniform3f(`light.color`, light.color);
+                light.buffer.setValues({
+                    skyColor: light.skyColor,
+                    groundColor: light.groundColor,
+                    skyDirection: vec3.normalize(vec3.create(), light.skyDirection)
+                });
+            } else if(light.type != 'environment') {
+                light.buffer.set('color', light.color);
                 
                 if(light.type == 'directional' || light.type == 'spot'){
-                    program.setUniform3f(`light.direction`, vec3.normalize(vec3.create(), light.direction));
+                    light.buffer.set('direction', vec3.normalize(vec3.create(), light.direction));
                 }
                 if(light.type == 'point' || light.type == 'spot'){
-                    program.setUniform3f(`light.position`, light.position);
-                    program.setUniform1f(`light.attenuation_quadratic`, light.attenuation_quadratic);
-                    program.setUniform1f(`light.attenuation_linear`, light.attenuation_linear);
-                    program.setUniform1f(`light.attenuation_constant`, light.attenuation_constant);
+                    light.buffer.setValues({
+                        position: light.position,
+                        attenuation_quadratic: light.attenuation_quadratic,
+                        attenuation_linear: light.attenuation_linear,
+                        attenuation_constant: light.attenuation_constant
+                    });
                 }
                 if(light.type == 'spot'){
-                    program.setUniform1f(`light.inner_cone`, light.inner_cone);
-                    program.setUniform1f(`light.outer_cone`, light.outer_cone);
+                    light.buffer.setValues({ inner_cone: light.inner_cone, outer_cone: light.outer_cone });
                 }
 
-                // Tell the shader if this light has shadows
-                program.setUniform1f(`light.hasShadow`, light.hasShadow?1:0);
-                if(light.hasShadow){
-                    // If this light has shadows, we send the shadow maps and VPs
-                    for(let i = 0; i < light.shadowMaps.length; i++){
-                        program.setUniformMatrix4fv(`light.shadowVPs[${i}]`, false, light.shadowVPs[i]);
-                        this.gl.activeTexture(this.gl.TEXTURE5 + i); // We start binding from unit 5 since we use units 0-4 for material properties
-                        this.gl.bindTexture(this.gl.TEXTURE_2D, light.shadowMaps[i]);
-                        this.gl.bindSampler(5 + i, this.samplers['shadow']);
-                        program.setUniform1i(`light.shadowMaps[${i}]`, 5 + i);
+                if(this.drawsShadow(light)){
+                    // If this light has shadows, we bind the shadow maps (we start binding from unit 6 since we use units 0-5 for material properties)
+                    // The depth filters read the shadow atlas (one texture for all the shadow maps) and the variance filters read the moments of each shadow map instead
+                    // PCSS reads the raw depth without comparison
+                    shadowed = true;
+                    shadowFilter = light.shadowFilter;
+                    pcfPattern = light.shadowFilter == 'pcf' ? light.shadowPCFPattern : false;
+                    const moments = usesMoments(light);
+                    atlas = !moments;
+                    const textures = moments ? light.shadowMoments : [this.shadowAtlas.texture];
+                    const sampler = this.samplers[moments ? 'moments' : light.shadowFilter == 'pcss' ? 'depth' : 'shadow'];
+                    const units = textures.map((_, i) => 6 + i);
+                    for(let i = 0; i < textures.length; i++){
+                        this.gl.activeTexture(this.gl.TEXTURE0 + units[i]);
+                        this.gl.bindTexture(moments && light.type == 'point' ? this.gl.TEXTURE_CUBE_MAP : this.gl.TEXTURE_2D, textures[i]);
+                        this.gl.bindSampler(units[i], sampler);
                     }
-                    // For directional lights, we also need to send the cascade sizes and number of active cascades 
+                    // The size of the light in the shadow map UVs (at a unit distance from the light for perspective shadow maps)
+                    // A spot light projection covers 2*tan(outer_cone) at a unit distance and a point light face covers 2*tan(45) = 2
+                    // For directional lights, we send the tangent of the angle and the shader divides it by the size of the cascade
+                    const lightSize = light.type == 'directional' ? Math.tan(light.shadowLightSize) : light.type == 'spot' ? light.shadowLightSize / (2 * Math.tan(light.outer_cone)) : light.shadowLightSize / 2;
+                    light.buffer.setValues({
+                        shadow_filter_radius: light.shadowFilterRadius,
+                        shadow_samples: light.shadowSamples,
+                        shadow_light_size: lightSize,
+                        shadow_depth_range: light.type == 'directional' ? [0, light.shadowDistance] : [light.shadowNear, light.shadowFar],
+                        shadow_bleed_reduction: light.shadowBleedReduction,
+                        shadow_exponents: this.vsm.clampExponents(light.shadowExponents)
+                    });
+                    // The UV rectangle of each tile in the atlas (the moments textures are whole textures so their tiles are never read)
+                    const tiles = light.shadowTiles.map(tile => tile.rect);
                     if(light.type == 'directional'){
-                        program.setUniform1i('light.active_cascades', light.cascades.length);
-                        for(let i = 0; i < light.cascades.length; i++){
-                            program.setUniform1f(`light.cascades[${i}]`, light.cascades[i]);
-                        }
-                        // Since GLSL doesn't allow looping on a sampler array where some some samplers are bound the wrong parameters, we bind them to the last shadow map sampler
-                        let last = light.shadowMaps.length - 1;
-                        for(let i = light.shadowMaps.length; i < ShadowMappingScene.MAX_CASCADES; i++){
-                            program.setUniformMatrix4fv(`light.shadowVPs[${i}]`, false, light.shadowVPs[last]);
-                            program.setUniform1i(`light.shadowMaps[${i}]`, 5 + last);
-                            program.setUniform1f(`light.cascades[${i}]`, light.cascades[last]);
-                        }
+                        // For directional lights, we also need to send the cascade sizes and number of active cascades 
+                        // Since GLSL doesn't allow looping on a sampler array where some some samplers are bound the wrong parameters, we fill the rest of the arrays with the last cascade
+                        const pad = <T,>(list: T[]) => [...list, ...Array(ShadowMappingScene.MAX_CASCADES - list.length).fill(list[list.length - 1])];
+                        light.buffer.setValues({
+                            shadowVPs: pad(light.shadowVPs),
+                            cascades: pad(light.cascades),
+                            active_cascades: light.cascades.length,
+                            view_direction: vec3.normalize(vec3.create(), this.camera.direction),
+                            cascade_blend: Math.min(Math.max(light.cascadeBlend, 0), 1)
+                        });
+                        if(atlas) light.buffer.set('shadow_tiles', pad(tiles));
+                        shadowUnits = moments ? pad(units) : units;
+                    } else {
+                        // Otherwise, we just send the shadow maps, VPs and tiles (the moments cube map of point lights is read with a direction so it doesn't need the VPs)
+                        light.buffer.set('shadowVPs', light.shadowVPs);
+                        if(atlas) light.buffer.set('shadow_tiles', tiles);
+                        shadowUnits = units;
                     }
                 }
             }
+            light.buffer.upload(); // Send the light data to the GPU (only if it changed)
 
-            // Loop over objects and draw them
-            for(let name in this.objects){
-                let obj = this.objects[name];
+            // Walk over the scene graph and draw every node that holds an object inside the view
+            let program: ShaderProgram = null;
+            this.cull(this.camera.ViewProjectionMatrix).forEach((node)=>{
+                let obj = node.data;
 
-                // Create model matrix for the object
-                program.setUniformMatrix4fv("M", false, obj.modelMatrix);
-                program.setUniformMatrix4fv("M_it", true, mat4.invert(mat4.create(), obj.modelMatrix));
+                // Each submesh is drawn with its own material (a mesh without submeshes is drawn as one part)
+                obj.materials.forEach((material, index)=>{
+                    // Get the shader variant to use with this light type and the material model of this object (shadows are compiled out of the variants for lights without shadows)
+                    // Since objects usually share the same model, we only switch programs when the variant changes
+                    const model = this.materialModel == 'described' ? material.model : this.materialModel;
+                    const ambient = light.type == 'ambient' || light.type == 'environment';
+                    const variant = this.shaders.getVariant('lit', { LIGHT: light.type, SHADOW: shadowed, SHADOW_ATLAS: atlas, SHADOW_FILTER: shadowFilter, PCF_PATTERN: pcfPattern, CASCADE_DEBUG: cascadeDebug, MATERIAL: model, SSAO: ssao && ambient, INSTANCED: obj.instances > 0 });
+                    if(variant !== program){
+                        program = variant;
+                        program.use(); // Use it
+
+                        // Connect the uniform blocks of the program to the camera buffer and the buffer of this light
+                        program.bindUniformBlock('Camera', this.cameraBuffer);
+                        if(light.type == 'environment') light.environment.bind(program, 6); // The environment has its own block and textures (we use the units after the material)
+                        else program.bindUniformBlock('Light', light.buffer);
+                        if(shadowUnits.length > 0) program.set(atlas ? 'shadowAtlas' : 'shadowMaps', atlas ? shadowUnits[0] : shadowUnits);
+                        if(ssao && ambient) this.ssao.bind(program, 8); // (units 6 and 7 are used by the environment)
+                    }
+
+                    // Send the model matrix (and its inverse for the normals) of the object
+                    program.setUniformMatrix4fv("M", false, node.worldMatrix);
+                    program.setUniformMatrix4fv("M_it", true, node.inverseWorldMatrix);
                 
-                // Send material properties and bind the textures
-                program.setUniform3f("material.albedo_tint", obj.material.albedo_tint);
-                program.setUniform3f("material.specular_tint", obj.material.specular_tint);
-                program.setUniform3f("material.emissive_tint", obj.material.emissive_tint);
-                program.setUniform1f("material.roughness_scale", obj.material.roughness_scale);
-
-                this.gl.activeTexture(this.gl.TEXTURE0);
-                this.gl.bindTexture(this.gl.TEXTURE_2D, obj.material.albedo);
-                this.gl.bindSampler(0, this.samplers['regular']);
-                program.setUniform1i("material.albedo", 0);
-
-                this.gl.activeTexture(this.gl.TEXTURE1);
-                this.gl.bindTexture(this.gl.TEXTURE_2D, obj.material.specular);
-                this.gl.bindSampler(1, this.samplers['regular']);
-                program.setUniform1i("material.specular", 1);
-
-                this.gl.activeTexture(this.gl.TEXTURE2);
-                this.gl.bindTexture(this.gl.TEXTURE_2D, obj.material.roughness);
-                this.gl.bindSampler(2, this.samplers['regular']);
-                program.setUniform1i("material.roughness", 2);
-
-                this.gl.activeTexture(this.gl.TEXTURE3);
-                this.gl.bindTexture(this.gl.TEXTURE_2D, obj.material.emissive);
-                this.gl.bindSampler(3, this.samplers['regular']);
-                program.setUniform1i("material.emissive", 3);
-
-                this.gl.activeTexture(this.gl.TEXTURE4);
-                this.gl.bindTexture(this.gl.TEXTURE_2D, obj.material.ambient_occlusion);
-                this.gl.bindSampler(4, this.samplers['regular']);
-                program.setUniform1i("material.ambient_occlusion", 4);
-
-                // Draw the object
-                obj.mesh.draw(this.gl.TRIANGLES);
-            }   
+                    // Send material properties and bind the textures
+                    program.setUniform3f("material.albedo_tint", material.albedo_tint);
+                    program.setUniform3f("material.specular_tint", material.specular_tint);
+                    program.setUniform3f("material.emissive_tint", material.emissive_tint);
+                    program.setUniform1f("material.roughness_scale", material.roughness_scale);
+
+                    this.gl.activeTexture(this.gl.TEXTURE0);
+                    this.gl.bindTexture(this.gl.TEXTURE_2D, material.albedo);
+                    this.gl.bindSampler(0, this.samplers['regular']);
+                    program.setUniform1i("material.albedo", 0);
+
+                    this.gl.activeTexture(this.gl.TEXTURE1);
+                    this.gl.bindTexture(this.gl.TEXTURE_2D, material.specular);
+                    this.gl.bindSampler(1, this.samplers['regular']);
+                    program.setUniform1i("material.specular", 1);
+
+                    this.gl.activeTexture(this.gl.TEXTURE2);
+                    this.gl.bindTexture(this.gl.TEXTURE_2D, material.roughness);
+                    this.gl.bindSampler(2, this.samplers['regular']);
+                    program.setUniform1i("material.roughness", 2);
+
+                    this.gl.activeTexture(this.gl.TEXTURE3);
+                    this.gl.bindTexture(this.gl.TEXTURE_2D, material.emissive);
+                    this.gl.bindSampler(3, this.samplers['regular']);
+                    program.setUniform1i("material.emissive", 3);
+
+                    this.gl.activeTexture(this.gl.TEXTURE4);
+                    this.gl.bindTexture(this.gl.TEXTURE_2D, material.ambient_occlusion);
+                    this.gl.bindSampler(4, this.samplers['regular']);
+                    program.setUniform1i("material.ambient_occlusion", 4);
+
+                    if(model == 'pbr'){
+                        // Only the physically based variant reads the metallic map
+                        program.setUniform1f("material.metallic_scale", material.metallic_scale);
+                        this.gl.activeTexture(this.gl.TEXTURE5);
+                        this.gl.bindTexture(this.gl.TEXTURE_2D, material.metallic);
+                        this.gl.bindSampler(5, this.samplers['regular']);
+                        program.setUniform1i("material.metallic", 5);
+                    }
+
+                    // Draw the submesh (or all of its instances)
+                    drawObject(obj, this.gl, index);
+                });
+            });
+        }
+
+        // Finally, we draw the environment behind the scene (it replaces the clear color so it shouldn't be blended)
+        const sky = this.lights.find(light => light.type == 'environment' && light.enabled && light.skybox) as EnvironmentLight;
+        if(sky){
+            this.gl.disable(this.gl.BLEND);
+            sky.environment.drawSkybox(this.cameraBuffer, this.camera.ViewProjectionMatrix);
         }
+
+        // Now, we tone map the HDR image to the canvas
+        this.hdr.end(deltaTime);
+
+        if(ssao && this.ssao.debug) this.ssao.drawDebug(); // Show the occlusion instead of the scene
+
+        // Show the cascade shadow maps of the first directional light that debugs its cascades
+        const debugged = this.lights.find(light => light.type == 'directional' && light.enabled && this.drawsShadow(light) && light.cascadeDebug) as DirectionalLight;
+        if(debugged){
+            // The variance filters show the first moment (the depth) of each whole moments texture and the depth filters show the tiles of the atlas
+            const maps = usesMoments(debugged) ?
+                debugged.shadowMoments.map(texture => ({ texture, rect: [0, 0, 1, 1] as [number, number, number, number] })) :
+                debugged.shadowTiles.map(tile => ({ texture: this.shadowAtlas.texture, rect: tile.rect }));
+            this.cascadeViewer.drawDebug(maps);
+        }
+
+        const stats = this.cullingStats;
+        this.cullingLabel.textContent = `${stats.culled} of ${stats.drawn + stats.culled} draws culled`;
+    }
+
+    // Returns the nodes to draw with the given VP matrix (all of them if the culling is disabled) and counts them in the culling stats
+    private cull(VP: mat4): SceneNode<Object3D>[] {
+        this.frustum.update(VP);
+        return Frustum.Cull(this.root, this.culling ? this.frustum : null, this.cullingStats);
+    }
+
+    // Gives a tile of the shadow atlas to each shadow map of the lights that use a depth filter
+    // The directional light cascades cover the whole view so they are the most important, and the spot and point lights are as important as the part of the screen they can reach
+    // If the atlas is full, a light gets no tiles and it is drawn without shadows in this frame
+    private allocateShadowTiles(){
+        const requests: ShadowTileRequest[] = [];
+        const owners: ShadowCaster[] = [];
+        for(const light of this.lights){
+            if(light.type == 'ambient' || light.type == 'environment') continue;
+            light.shadowTiles = [];
+            if(!light.enabled || !light.hasShadow || usesMoments(light)) continue;
+            const count = light.type == 'directional' ? ShadowMappingScene.CascadeCount(light) : light.type == 'point' ? 6 : 1;
+            const importance = light.type == 'directional' ? 1 : this.screenImportance(light.position, light.shadowFar);
+            // The tiles of a light are requested together since the light has no shadow unless it gets all of them
+            requests.push({ resolution: light.shadowMapResolution, importance, count });
+            owners.push(light);
+        }
+        const tiles = this.shadowAtlas.allocate(requests);
+        owners.forEach((light, index) => { light.shadowTiles = tiles[index]; });
+    }
+
+    // How much of the screen a light can reach: the size of the sphere around it (with the shadow range as its radius) relative to the screen height
+    // It is 1 if the camera is inside the sphere
+    private screenImportance(position: vec3, range: number): number {
+        const distance = vec3.distance(this.camera.position, position);
+        if(distance <= range) return 1;
+        const halfHeight = this.camera.type == 'perspective' ? distance * Math.tan(this.camera.perspectiveFoVy / 2) : this.camera.orthographicHeight / 2;
+        return Math.min(range / halfHeight, 1);
+    }
+
+    // Whether the shadows of the light are drawn in this frame (the depth filters also need tiles in the shadow atlas)
+    private drawsShadow(light: Light): boolean {
+        if(light.type == 'ambient' || light.type == 'environment' || !light.hasShadow) return false;
+        return usesMoments(light) || light.shadowTiles.length > 0;
+    }
+
+    // The number of cascades of a directional light (limited to MAX_CASCADES)
+    static CascadeCount(light: DirectionalLight): number {
+        return Math.min(Math.max(Math.round(light.cascadeCount), 1), ShadowMappingScene.MAX_CASCADES);
     }
     
     public end(): void {
-        for(let key in this.programs)
-            this.programs[key].dispose();
-        this.programs = {};
+        this.shaders.dispose();
+        this.cameraBuffer.dispose();
+        this.shadowTarget.dispose();
+        this.hdr.dispose();
+        this.ssao.dispose();
+        this.vsm.dispose();
+        this.cascadeViewer.dispose();
+        this.shadowAtlas.dispose();
+        for(let light of this.lights){
+            if(light.type == 'environment') light.environment.dispose(); // (this also disposes its buffer)
+            else light.buffer.dispose();
+            if(light.type == 'directional' || light.type == 'point' || light.type == 'spot'){
+                for(const texture of light.shadowMoments) this.gl.deleteTexture(texture);
+            }
+        }
+        this.lights = [];
         for(let key in this.meshes)
             this.meshes[key].dispose();
         this.meshes = {};
@@ -539,6 +929,7 @@ export default class ShadowMappingScene extends Scene {
 
     private setupControls() {
         const controls = document.querySelector('#controls');
+        this.cullingLabel = <label className="control-label"></label>;
         
         this.controls = this.lights.map((light)=>{
             if(light.type == 'ambient'){
@@ -560,6 +951,21 @@ export default class ShadowMappingScene extends Scene {
                         <Vector vector={light.skyDirection}/>
                     </div>
                 </div>
+            } else if(light.type == 'environment'){
+                return <div>
+                    <div className="control-row">
+                        <CheckBox value={light.enabled} onchange={(v)=>{light.enabled=v;}}/>
+                        <label className="control-label">Environment Light</label>
+                    </div>
+                    <div className="control-row">
+                        <label className="control-label">Intensity</label>
+                        <NumberInput value={light.environment.intensity} onchange={(v)=>{light.environment.intensity=v;}}/>
+                    </div>
+                    <div className="control-row">
+                        <CheckBox value={light.skybox} onchange={(v)=>{light.skybox=v;}}/>
+                        <label className="control-label">Skybox</label>
+                    </div>
+                </div>
             } else if(light.type == 'directional'){
                 return <div>
                     <div className="control-row">
@@ -590,8 +996,19 @@ export default class ShadowMappingScene extends Scene {
                     </div>
                     <div className="control-row">
                         <label className="control-label">Cascades</label>
-                        {light.cascades.map((v,i)=>{return <NumberInput value={light.cascades[i]} onchange={(v)=>{light.cascades[i]=v;}}/>})}
+                        <NumberInput value={light.cascadeCount} onchange={(v)=>{light.cascadeCount=Math.min(Math.max(Math.round(v), 1), ShadowMappingScene.MAX_CASCADES);}}/>
+                        <label className="control-label">Split Lambda</label>
+                        <NumberInput value={light.cascadeLambda} onchange={(v)=>{light.cascadeLambda=v;}}/>
+                        <label className="control-label">Blend</label>
+                        <NumberInput value={light.cascadeBlend} onchange={(v)=>{light.cascadeBlend=v;}}/>
                     </div>
+                    <div className="control-row">
+                        <label className="control-label">Max Distance</label>
+                        <NumberInput value={light.shadowMaxDistance} onchange={(v)=>{light.shadowMaxDistance=v;}}/>
+                        <CheckBox value={light.cascadeDebug} onchange={(v)=>{light.cascadeDebug=v;}}/>
+                        <label className="control-label">Debug Cascades</label>
+                    </div>
+                    {this.shadowFilterControls(light)}
                 </div>;
             } else if(light.type == 'point'){
                 return <div>
@@ -632,6 +1049,7 @@ export default class ShadowMappingScene extends Scene {
                         <label className="control-label">Shadow Slope Bias</label>
                         <NumberInput value={light.shadowSlopeBias} onchange={(v)=>{light.shadowSlopeBias=v;}}/>
                     </div>
+                    {this.shadowFilterControls(light)}
                 </div>;
             } else if(light.type == 'spot'){
                 return <div>
@@ -682,6 +1100,7 @@ export default class ShadowMappingScene extends Scene {
                         <label className="control-label">Shadow Slope Bias</label>
                         <NumberInput value={light.shadowSlopeBias} onchange={(v)=>{light.shadowSlopeBias=v;}}/>
                     </div>
+                    {this.shadowFilterControls(light)}
                 </div>;
             }
         });
@@ -691,6 +1110,21 @@ export default class ShadowMappingScene extends Scene {
 
         controls.appendChild(
             <div>
+                <div className="control-row">
+                    <label className="control-label">Material Model</label>
+                    <Selector 
+                        options={{described: "As Described", phong: "Phong", pbr: "PBR"}} 
+                        value={this.materialModel} 
+                        onchange={(v)=>{ this.materialModel = v; }}
+                    />
+                </div>
+                {this.hdr.controls()}
+                {this.ssao.controls()}
+                <div className="control-row">
+                    <CheckBox value={this.culling} onchange={(v)=>{ this.culling = v; }}/>
+                    <label className="control-label">Frustum Culling</label>
+                    {this.cullingLabel}
+                </div>
                 <div className="control-row">
                     <label className="control-label">Light</label>
                     <Selector 
@@ -709,6 +1143,38 @@ export default class ShadowMappingScene extends Scene {
         
     }
 
+    // The shadow filter rows are the same for every light type that casts shadows (the light size of directional lights is shown in degrees)
+    private shadowFilterControls(light: DirectionalLight | PointLight | SpotLight): HTMLElement[] {
+        const filters: {[filter: string]: string} = {...ShadowMappingScene.ShadowFilters};
+        if(!this.vsm.supported){ delete filters['vsm']; delete filters['evsm']; } // The variance filters need float textures
+        const angle = light.type == 'directional';
+        return [
+            <div className="control-row">
+                <label className="control-label">Shadow Filter</label>
+                <Selector options={filters} value={light.shadowFilter} onchange={(v)=>{light.shadowFilter=v;}}/>
+                <label className="control-label">PCF Pattern</label>
+                <Selector options={ShadowMappingScene.PCFPatterns} value={light.shadowPCFPattern} onchange={(v)=>{light.shadowPCFPattern=v;}}/>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Filter Radius</label>
+                <NumberInput value={light.shadowFilterRadius} onchange={(v)=>{light.shadowFilterRadius=v;}}/>
+                <label className="control-label">Samples</label>
+                <NumberInput value={light.shadowSamples} onchange={(v)=>{light.shadowSamples=v;}}/>
+                <label className="control-label">{angle ? "Light Angle" : "Light Size"}</label>
+                <NumberInput value={angle ? light.shadowLightSize * 180 / Math.PI : light.shadowLightSize} onchange={(v)=>{light.shadowLightSize = angle ? v * Math.PI / 180 : v;}}/>
+            </div>,
+            <div className="control-row">
+                <label className="control-label">Blur Radius</label>
+                <NumberInput value={light.shadowBlurRadius} onchange={(v)=>{light.shadowBlurRadius=v;}}/>
+                <label className="control-label">Bleed Reduction</label>
+                <NumberInput value={light.shadowBleedReduction} onchange={(v)=>{light.shadowBleedReduction=v;}}/>
+                <label className="control-label">EVSM Exponents</label>
+                <NumberInput value={light.shadowExponents[0]} onchange={(v)=>{light.shadowExponents[0]=v;}}/>
+                <NumberInput value={light.shadowExponents[1]} onchange={(v)=>{light.shadowExponents[1]=v;}}/>
+            </div>
+        ];
+    }
+
     private clearControls() {
         const controls = document.querySelector('#controls');
         controls.innerHTML = "";
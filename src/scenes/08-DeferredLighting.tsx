@@ -0,0 +1,273 @@
+import { Scene } from '../common/game';
+import DeferredRenderer, { DeferredObject, DeferredMaterial, GBufferView } from '../common/deferred-renderer';
+import { Light, AmbientLight, DirectionalLight, PointLight } from '../common/lights';
+import Mesh from '../common/mesh';
+import * as MeshUtils from '../common/mesh-utils';
+import * as TextureUtils from '../common/texture-utils';
+import Camera from '../common/camera';
+import FlyCameraController from '../common/camera-controllers/fly-camera-controller';
+import { SceneNode } from '../common/scene-graph';
+import { vec3 } from 'gl-matrix';
+import { Selector, Color, NumberInput, CheckBox } from '../common/dom-utils';
+import { createElement } from 'tsx-create-element';
+
+// Each moving point light follows a circle around the center of the scene
+interface Orbit {
+    radius: number,
+    height: number,
+    speed: number, // In radians per second
+    angle: number
+};
+
+// In this scene we will draw the textured materials scene with many point lights using a deferred renderer (see DeferredRenderer)
+// With multi-pass lighting, each light would draw all the objects again but here each light only shades the pixels inside its volume
+export default class DeferredLightingScene extends Scene {
+    renderer: DeferredRenderer;
+    camera: Camera;
+    controller: FlyCameraController;
+    meshes: {[name: string]: Mesh} = {};
+    textures: {[name: string]: WebGLTexture} = {};
+
+    // We will store the lights here
+    lights: Light[] = [];
+    pointLights: PointLight[] = []; // The moving point lights (they are also in "lights")
+    orbits: Orbit[] = [];
+    markers: SceneNode<DeferredObject>[] = []; // A small glowing sphere is drawn at each point light position
+
+    // And we will store the objects here in a scene graph
+    root: SceneNode<DeferredObject>;
+
+    view: GBufferView = 'lit'; // What we show on the screen (the lit scene or one of the G-buffer channels)
+    pointLightCount: number = 64; // How many of the point lights are enabled
+    animate: boolean = true;
+    cullingLabel: HTMLElement; // Shows the culling stats of the last frame
+
+    static readonly MAX_POINT_LIGHTS = 256;
+
+    public load(): void {
+        // The renderer requests its own shaders
+        DeferredRenderer.load(this.game.loader);
+        this.game.loader.load({
+            ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
+            ["house"]:{url:'models/House/House.obj', type:'text'},
+            ["house.albedo"]:{url:'models/House/House.jpeg', type:'image'},
+            ["asphalt.albedo"]:{url:'images/Asphalt/albedo.jpg', type:'image'},
+            ["asphalt.emissive"]:{url:'images/Asphalt/emissive.jpg', type:'image'},
+            ["asphalt.roughness"]:{url:'images/Asphalt/roughness.jpg', type:'image'},
+            ["asphalt.specular"]:{url:'images/Asphalt/specular.jpg', type:'image'},
+            ["metal.albedo"]:{url:'images/Metal/albedo.jpg', type:'image'},
+            ["metal.roughness"]:{url:'images/Metal/roughness.jpg', type:'image'},
+            ["metal.specular"]:{url:'images/Metal/specular.jpg', type:'image'},
+            ["wood.albedo"]:{url:'images/Wood/albedo.jpg', type:'image'},
+            ["wood.roughness"]:{url:'images/Wood/roughness.jpg', type:'image'},
+            ["wood.specular"]:{url:'images/Wood/specular.jpg', type:'image'},
+            ["suzanne.ao"]:{url:'images/Suzanne/ambient_occlusion.jpg', type:'image'},
+        });
+    }
+
+    public start(): void {
+        this.renderer = new DeferredRenderer(this.gl, this.game.loader);
+
+        // Load the models
+        this.meshes['ground'] = MeshUtils.Plane(this.gl, {min:[0,0], max:[50,50]});
+        this.meshes['suzanne'] = MeshUtils.LoadOBJMesh(this.gl, this.game.loader.resources["suzanne"]);
+        this.meshes['house'] = MeshUtils.LoadOBJMesh(this.gl, this.game.loader.resources["house"]);
+        this.meshes['sphere'] = MeshUtils.Sphere(this.gl, 8);
+
+        // Load the textures
+        for(const name of ['house.albedo', 'asphalt.albedo', 'asphalt.emissive', 'asphalt.roughness', 'asphalt.specular', 'metal.albedo', 'metal.roughness', 'metal.specular', 'wood.albedo', 'wood.roughness', 'wood.specular', 'suzanne.ao']){
+            this.textures[name] = TextureUtils.LoadImage(this.gl, this.game.loader.resources[name]);
+        }
+        this.textures['ground.albedo'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [26, 26, 26, 255], [196, 196, 196, 255]);
+        this.textures['ground.specular'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [255, 255, 255, 255], [64, 64, 64, 255]);
+        this.textures['ground.roughness'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [52, 52, 52, 255], [245, 245, 245, 255]);
+        this.textures['white'] = TextureUtils.SingleColor(this.gl, [255, 255, 255, 255]);
+        this.textures['black'] = TextureUtils.SingleColor(this.gl, [0, 0, 0, 255]);
+        this.textures['grey'] = TextureUtils.SingleColor(this.gl, [128, 128, 128, 255]);
+
+        // A helper to create materials (the missing properties get sensible defaults)
+        const material = (properties: Partial<DeferredMaterial>): DeferredMaterial => ({
+            albedo: this.textures['white'],
+            albedo_tint: vec3.fromValues(1, 1, 1),
+            specular: this.textures['black'],
+            specular_tint: vec3.fromValues(1, 1, 1),
+            roughness: this.textures['grey'],
+            roughness_scale: 1,
+            emissive: this.textures['black'],
+            emissive_tint: vec3.fromValues(1, 1, 1),
+            ambient_occlusion: this.textures['white'],
+            ...properties
+        });
+
+        // Create the 3D ojbects
+        this.root = new SceneNode<DeferredObject>('root');
+
+        this.root.addChild(new SceneNode('ground', {
+            mesh: this.meshes['ground'],
+            material: material({ albedo: this.textures['ground.albedo'], specular: this.textures['ground.specular'], roughness: this.textures['ground.roughness'] })
+        }, {position: vec3.fromValues(0, 0, 0), scale: vec3.fromValues(100, 1, 100)}));
+
+        this.root.addChild(new SceneNode('house', {
+            mesh: this.meshes['house'],
+            material: material({ albedo: this.textures['house.albedo'] })
+        }, {position: vec3.fromValues(0, 0, -8)}));
+
+        this.root.addChild(new SceneNode('asphalt suzanne', {
+            mesh: this.meshes['suzanne'],
+            material: material({ albedo: this.textures['asphalt.albedo'], specular: this.textures['asphalt.specular'], roughness: this.textures['asphalt.roughness'], emissive: this.textures['asphalt.emissive'], ambient_occlusion: this.textures['suzanne.ao'] })
+        }, {position: vec3.fromValues(-4, 1, 0)}));
+
+        this.root.addChild(new SceneNode('metal suzanne', {
+            mesh: this.meshes['suzanne'],
+            material: material({ albedo: this.textures['metal.albedo'], specular: this.textures['metal.specular'], roughness: this.textures['metal.roughness'], ambient_occlusion: this.textures['suzanne.ao'] })
+        }, {position: vec3.fromValues(0, 1, 0)}));
+
+        this.root.addChild(new SceneNode('wood suzanne', {
+            mesh: this.meshes['suzanne'],
+            material: material({ albedo: this.textures['wood.albedo'], specular: this.textures['wood.specular'], roughness: this.textures['wood.roughness'], ambient_occlusion: this.textures['suzanne.ao'] })
+        }, {position: vec3.fromValues(4, 1, 0)}));
+
+        // Create the lights, we start with a dim ambient and directional light and two spot lights
+        this.lights = [
+            { type: 'ambient', enabled: true, skyColor: vec3.fromValues(0.05, 0.05, 0.1), groundColor: vec3.fromValues(0.02, 0.02, 0.02), skyDirection: vec3.fromValues(0,1,0)},
+            { type: 'directional', enabled: true, color: vec3.fromValues(0.2,0.2,0.2), direction:vec3.fromValues(-1,-1,-1) },
+            { type: 'spot', enabled: true, color: vec3.fromValues(5,5,5), position:vec3.fromValues(+3,+1,-3), direction:vec3.fromValues(-1,0,+1), attenuation_quadratic:1, attenuation_linear:0, attenuation_constant:0, inner_cone: 0.25*Math.PI, outer_cone: 0.3*Math.PI },
+            { type: 'spot', enabled: true, color: vec3.fromValues(5,5,5), position:vec3.fromValues(-3,+1,-3), direction:vec3.fromValues(+1,0,+1), attenuation_quadratic:1, attenuation_linear:0, attenuation_constant:0, inner_cone: 0.25*Math.PI, outer_cone: 0.3*Math.PI },
+        ];
+
+        // Then we add many moving point lights with random colors
+        // Each light has a marker sphere whose emissive tint is the light color (they share the same vector so changing the color changes both)
+        this.pointLights = [];
+        this.orbits = [];
+        this.markers = [];
+        for(let i = 0; i < DeferredLightingScene.MAX_POINT_LIGHTS; i++){
+            const hue = Math.random();
+            const color = vec3.fromValues(
+                Math.max(0, Math.min(1, Math.abs(hue * 6 - 3) - 1)),
+                Math.max(0, Math.min(1, 2 - Math.abs(hue * 6 - 2))),
+                Math.max(0, Math.min(1, 2 - Math.abs(hue * 6 - 4)))
+            ); // A fully saturated color from the hue
+            const light: PointLight = { type: 'point', enabled: i < this.pointLightCount, color: color, position: vec3.create(), attenuation_quadratic: 1, attenuation_linear: 0, attenuation_constant: 1 };
+            this.pointLights.push(light);
+            this.orbits.push({ radius: 2 + 20 * Math.random(), height: 0.25 + 2 * Math.random(), speed: (0.2 + 0.6 * Math.random()) * (Math.random() < 0.5 ? -1 : 1), angle: 2 * Math.PI * Math.random() });
+            this.markers.push(this.root.addChild(new SceneNode(`point light ${i}`, {
+                mesh: this.meshes['sphere'],
+                material: material({ albedo_tint: vec3.fromValues(0, 0, 0), emissive: this.textures['white'], emissive_tint: color })
+            }, {scale: vec3.fromValues(0.05, 0.05, 0.05)})));
+        }
+        this.lights.push(...this.pointLights);
+        this.updatePointLights(0);
+
+        // Create a camera and a controller
+        this.camera = new Camera();
+        this.camera.type = 'perspective';
+        this.camera.position = vec3.fromValues(8,6,8);
+        this.camera.direction = vec3.fromValues(-1,-0.75,-1);
+        this.camera.aspectRatio = this.gl.drawingBufferWidth/this.gl.drawingBufferHeight;
+
+        this.controller = new FlyCameraController(this.camera, this.game.input);
+        this.controller.movementSensitivity = 0.01;
+
+        // As usual, we enable face culling and depth testing
+        this.gl.enable(this.gl.CULL_FACE);
+        this.gl.cullFace(this.gl.BACK);
+        this.gl.frontFace(this.gl.CCW);
+
+        this.gl.enable(this.gl.DEPTH_TEST);
+        this.gl.depthFunc(this.gl.LEQUAL);
+
+        // Use a dark grey clear color
+        this.gl.clearColor(0.1,0.1,0.1,1);
+
+        this.setupControls();
+    }
+
+    // Moves the point lights along their orbits and enables the first "pointLightCount" lights
+    private updatePointLights(deltaTime: number){
+        this.pointLights.forEach((light, i) => {
+            const orbit = this.orbits[i];
+            if(this.animate) orbit.angle += orbit.speed * deltaTime / 1000;
+            vec3.set(light.position, orbit.radius * Math.cos(orbit.angle), orbit.height, orbit.radius * Math.sin(orbit.angle));
+            light.enabled = i < this.pointLightCount;
+            this.markers[i].position = light.position;
+            this.markers[i].setParent(light.enabled ? this.root : null); // The markers of the disabled lights are detached so they are not drawn
+        });
+    }
+
+    public draw(deltaTime: number): void {
+        this.controller.update(deltaTime); // Update camera
+        this.updatePointLights(deltaTime);
+
+        // The renderer draws the G-buffer then lights it (or shows one of its channels)
+        this.renderer.render(this.root, this.camera, this.lights, this.view);
+
+        const stats = this.renderer.cullingStats;
+        this.cullingLabel.textContent = `${stats.culled} of ${stats.drawn + stats.culled} draws culled`;
+    }
+
+    public end(): void {
+        this.renderer.dispose();
+        for(let key in this.meshes)
+            this.meshes[key].dispose();
+        this.meshes = {};
+        for(let key in this.textures)
+            this.gl.deleteTexture(this.textures[key]);
+        this.textures = {};
+        this.lights = [];
+        this.pointLights = [];
+        this.markers = [];
+        this.clearControls();
+    }
+
+
+    /////////////////////////////////////////////////////////
+    ////// ADD CONTROL TO THE WEBPAGE (NOT IMPORTNANT) //////
+    /////////////////////////////////////////////////////////
+
+    private setupControls() {
+        const controls = document.querySelector('#controls');
+        this.cullingLabel = <label className="control-label"></label>;
+        const [ambient, directional] = this.lights as [AmbientLight, DirectionalLight]; // The first two lights (see start)
+
+        controls.appendChild(
+            <div>
+                <div className="control-row">
+                    <label className="control-label">View</label>
+                    <Selector options={DeferredRenderer.Views} value={this.view} onchange={(v)=>{this.view=v as GBufferView;}}/>
+                </div>
+                <div className="control-row">
+                    <label className="control-label">Point Lights</label>
+                    <NumberInput value={this.pointLightCount} onchange={(v)=>{this.pointLightCount=Math.max(0, Math.min(DeferredLightingScene.MAX_POINT_LIGHTS, Math.floor(v)));}}/>
+                    <CheckBox value={this.animate} onchange={(v)=>{this.animate=v;}}/>
+                    <label className="control-label">Animate</label>
+                </div>
+                <div className="control-row">
+                    <CheckBox value={this.renderer.useLightVolumes} onchange={(v)=>{this.renderer.useLightVolumes=v;}}/>
+                    <label className="control-label">Light Volumes</label>
+                    <label className="control-label">Light Threshold</label>
+                    <NumberInput value={this.renderer.lightThreshold} onchange={(v)=>{this.renderer.lightThreshold=v;}}/>
+                </div>
+                <div className="control-row">
+                    <CheckBox value={this.renderer.culling} onchange={(v)=>{this.renderer.culling=v;}}/>
+                    <label className="control-label">Frustum Culling</label>
+                    {this.cullingLabel}
+                </div>
+                <div className="control-row">
+                    <CheckBox value={ambient.enabled} onchange={(v)=>{ambient.enabled=v;}}/>
+                    <label className="control-label">Ambient Light</label>
+                    <Color color={ambient.skyColor}/>
+                </div>
+                <div className="control-row">
+                    <CheckBox value={directional.enabled} onchange={(v)=>{directional.enabled=v;}}/>
+                    <label className="control-label">Directional Light</label>
+                    <Color color={directional.color}/>
+                </div>
+            </div>
+        );
+    }
+
+    private clearControls() {
+        const controls = document.querySelector('#controls');
+        controls.innerHTML = "";
+    }
+}
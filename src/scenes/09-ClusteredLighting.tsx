@@ -0,0 +1,373 @@
+import { Scene } from '../common/game';
+import ShaderVariantCache from '../common/shader-variants';
+import UniformBuffer, { UniformBlockSchema } from '../common/uniform-buffer';
+import LightClusters from '../common/light-clusters';
+import { AmbientLight, DirectionalLight, PointLight, SpotLight } from '../common/lights';
+import Mesh from '../common/mesh';
+import Frustum, { CullingStats } from '../common/frustum';
+import * as MeshUtils from '../common/mesh-utils';
+import * as TextureUtils from '../common/texture-utils';
+import Camera from '../common/camera';
+import FlyCameraController from '../common/camera-controllers/fly-camera-controller';
+import { SceneNode } from '../common/scene-graph';
+import { vec3, mat4 } from 'gl-matrix';
+import { Color, NumberInput, CheckBox } from '../common/dom-utils';
+import { createElement } from 'tsx-create-element';
+
+// The material properties are the same as TexturedModelsScene
+interface Material {
+    albedo: WebGLTexture,
+    albedo_tint: vec3,
+    specular: WebGLTexture,
+    specular_tint: vec3
+    roughness: WebGLTexture,
+    roughness_scale: number,
+    ambient_occlusion: WebGLTexture,
+    emissive: WebGLTexture,
+    emissive_tint: vec3
+};
+
+// This will represent an object in 3D space (its transformation is stored in the scene node that holds it)
+interface Object3D {
+    mesh: Mesh,
+    material: Material
+};
+
+// Each moving light follows a circle around the center of the scene
+interface Orbit {
+    radius: number,
+    height: number,
+    speed: number, // In radians per second
+    angle: number
+};
+
+// In this scene we will draw hundreds of moving point and spot lights in a single forward pass using clustered shading (see LightClusters)
+// Every frame, the lights are assigned to the clusters of the camera frustum on the CPU, then each pixel only loops over the lights of its cluster
+export default class ClusteredLightingScene extends Scene {
+    shaders: ShaderVariantCache;
+    clusters: LightClusters;
+    cameraBuffer: UniformBuffer; // The camera data (see common/camera.glsl)
+    camera: Camera;
+    controller: FlyCameraController;
+    meshes: {[name: string]: Mesh} = {};
+    textures: {[name: string]: WebGLTexture} = {};
+    sampler: WebGLSampler;
+
+    // The ambient and directional lights are sent as uniforms while the moving lights are clustered
+    ambient: AmbientLight;
+    directional: DirectionalLight;
+    lights: (PointLight | SpotLight)[] = [];
+    orbits: Orbit[] = [];
+    markers: SceneNode<Object3D>[] = []; // A small glowing sphere is drawn at each light position
+
+    // And we will store the objects here in a scene graph
+    root: SceneNode<Object3D>;
+
+    lightCount: number = 320; // How many of the moving lights are enabled
+    animate: boolean = true;
+    heatmap: boolean = false; // If true, we show the number of lights in each cluster instead of the lit scene
+
+    // Only the objects inside the view frustum are drawn
+    frustum: Frustum = new Frustum();
+    culling: boolean = true;
+    cullingStats: CullingStats = { drawn: 0, culled: 0 }; // The draws of the current frame
+    cullingLabel: HTMLElement; // Shows the culling stats of the last frame
+
+    static readonly MAX_LIGHTS = 1024;
+    static readonly SPOT_LIGHT_EVERY = 8; // Every 8th light is a spot light (the rest are point lights)
+
+    static readonly CameraSchema: UniformBlockSchema = { VP: 'mat4', cam_position: 'vec3' };
+
+    public load(): void {
+        // We reuse the vertex shader of the shadow mapping scene since it reads the camera from a uniform block too
+        this.game.loader.load({
+            ["light.vert"]:{url:'shaders/phong/shadow-map/light.vert', type:'shader'},
+            ["lit.frag"]:{url:'shaders/phong/clustered/lit.frag', type:'shader'},
+            ["suzanne"]:{url:'models/Suzanne/Suzanne.obj', type:'text'},
+            ["house"]:{url:'models/House/House.obj', type:'text'},
+            ["house.albedo"]:{url:'models/House/House.jpeg', type:'image'},
+            ["metal.albedo"]:{url:'images/Metal/albedo.jpg', type:'image'},
+            ["metal.roughness"]:{url:'images/Metal/roughness.jpg', type:'image'},
+            ["metal.specular"]:{url:'images/Metal/specular.jpg', type:'image'},
+            ["wood.albedo"]:{url:'images/Wood/albedo.jpg', type:'image'},
+            ["wood.roughness"]:{url:'images/Wood/roughness.jpg', type:'image'},
+            ["wood.specular"]:{url:'images/Wood/specular.jpg', type:'image'},
+            ["suzanne.ao"]:{url:'images/Suzanne/ambient_occlusion.jpg', type:'image'},
+        });
+    }
+
+    public start(): void {
+        this.shaders = new ShaderVariantCache(this.gl);
+        this.shaders.register('lit', { vertex: this.game.loader.resources['light.vert'], fragment: this.game.loader.resources['lit.frag'] });
+
+        this.clusters = new LightClusters(this.gl, { maxLights: ClusteredLightingScene.MAX_LIGHTS });
+        this.cameraBuffer = new UniformBuffer(this.gl, ClusteredLightingScene.CameraSchema);
+
+        // Load the models
+        this.meshes['ground'] = MeshUtils.Plane(this.gl, {min:[0,0], max:[50,50]});
+        this.meshes['suzanne'] = MeshUtils.LoadOBJMesh(this.gl, this.game.loader.resources["suzanne"]);
+        this.meshes['house'] = MeshUtils.LoadOBJMesh(this.gl, this.game.loader.resources["house"]);
+        this.meshes['sphere'] = MeshUtils.Sphere(this.gl, 8);
+
+        // Load the textures
+        for(const name of ['house.albedo', 'metal.albedo', 'metal.roughness', 'metal.specular', 'wood.albedo', 'wood.roughness', 'wood.specular', 'suzanne.ao']){
+            this.textures[name] = TextureUtils.LoadImage(this.gl, this.game.loader.resources[name]);
+        }
+        this.textures['ground.albedo'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [26, 26, 26, 255], [196, 196, 196, 255]);
+        this.textures['ground.specular'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [255, 255, 255, 255], [64, 64, 64, 255]);
+        this.textures['ground.roughness'] = TextureUtils.CheckerBoard(this.gl, [1024, 1024], [256, 256], [52, 52, 52, 255], [245, 245, 245, 255]);
+        this.textures['white'] = TextureUtils.SingleColor(this.gl, [255, 255, 255, 255]);
+        this.textures['black'] = TextureUtils.SingleColor(this.gl, [0, 0, 0, 255]);
+        this.textures['grey'] = TextureUtils.SingleColor(this.gl, [128, 128, 128, 255]);
+
+        // A helper to create materials (the missing properties get sensible defaults)
+        const material = (properties: Partial<Material>): Material => ({
+            albedo: this.textures['white'],
+            albedo_tint: vec3.fromValues(1, 1, 1),
+            specular: this.textures['black'],
+            specular_tint: vec3.fromValues(1, 1, 1),
+            roughness: this.textures['grey'],
+            roughness_scale: 1,
+            emissive: this.textures['black'],
+            emissive_tint: vec3.fromValues(1, 1, 1),
+            ambient_occlusion: this.textures['white'],
+            ...properties
+        });
+
+        // Create the 3D ojbects
+        this.root = new SceneNode<Object3D>('root');
+
+        this.root.addChild(new SceneNode('ground', {
+            mesh: this.meshes['ground'],
+            material: material({ albedo: this.textures['ground.albedo'], specular: this.textures['ground.specular'], roughness: this.textures['ground.roughness'] })
+        }, {position: vec3.fromValues(0, 0, 0), scale: vec3.fromValues(100, 1, 100)}));
+
+        this.root.addChild(new SceneNode('house', {
+            mesh: this.meshes['house'],
+            material: material({ albedo: this.textures['house.albedo'] })
+        }, {position: vec3.fromValues(0, 0, -8)}));
+
+        // A grid of suzannes so that the lights have something to shine on
+        for(let i = -3; i <= 3; i++){
+            for(let j = -3; j <= 3; j++){
+                const metal = (i + j) % 2 == 0;
+                this.root.addChild(new SceneNode(`suzanne ${i} ${j}`, {
+                    mesh: this.meshes['suzanne'],
+                    material: material(metal ?
+                        { albedo: this.textures['metal.albedo'], specular: this.textures['metal.specular'], roughness: this.textures['metal.roughness'], ambient_occlusion: this.textures['suzanne.ao'] } :
+                        { albedo: this.textures['wood.albedo'], specular: this.textures['wood.specular'], roughness: this.textures['wood.roughness'], ambient_occlusion: this.textures['suzanne.ao'] })
+                }, {position: vec3.fromValues(4 * i, 1, 4 * j + 8)}));
+            }
+        }
+
+        // Create a dim ambient and directional light
+        this.ambient = { type: 'ambient', enabled: true, skyColor: vec3.fromValues(0.05, 0.05, 0.1), groundColor: vec3.fromValues(0.02, 0.02, 0.02), skyDirection: vec3.fromValues(0,1,0) };
+        this.directional = { type: 'directional', enabled: true, color: vec3.fromValues(0.1,0.1,0.1), direction:vec3.fromValues(-1,-1,-1) };
+
+        // Then we add the moving lights with random colors (spot lights look down at the ground)
+        // Each light has a marker sphere whose emissive tint is the light color (they share the same vector so changing the color changes both)
+        this.lights = [];
+        this.orbits = [];
+        this.markers = [];
+        for(let i = 0; i < ClusteredLightingScene.MAX_LIGHTS; i++){
+            const hue = Math.random();
+            const color = vec3.fromValues(
+                Math.max(0, Math.min(1, Math.abs(hue * 6 - 3) - 1)),
+                Math.max(0, Math.min(1, 2 - Math.abs(hue * 6 - 2))),
+                Math.max(0, Math.min(1, 2 - Math.abs(hue * 6 - 4)))
+            ); // A fully saturated color from the hue
+            const attenuation = { attenuation_quadratic: 4, attenuation_linear: 0, attenuation_constant: 1 };
+            if(i % ClusteredLightingScene.SPOT_LIGHT_EVERY == ClusteredLightingScene.SPOT_LIGHT_EVERY - 1){
+                this.lights.push({ type: 'spot', enabled: true, color: vec3.scale(color, color, 4), position: vec3.create(), direction: vec3.fromValues(0, -1, 0), ...attenuation, inner_cone: 0.15*Math.PI, outer_cone: 0.2*Math.PI });
+            } else {
+                this.lights.push({ type: 'point', enabled: true, color: color, position: vec3.create(), ...attenuation });
+            }
+            this.orbits.push({ radius: 2 + 30 * Math.random(), height: 0.25 + 2 * Math.random(), speed: (0.1 + 0.4 * Math.random()) * (Math.random() < 0.5 ? -1 : 1), angle: 2 * Math.PI * Math.random() });
+            this.markers.push(this.root.addChild(new SceneNode(`light ${i}`, {
+                mesh: this.meshes['sphere'],
+                material: material({ albedo_tint: vec3.fromValues(0, 0, 0), emissive: this.textures['white'], emissive_tint: color })
+            }, {scale: vec3.fromValues(0.05, 0.05, 0.05)})));
+        }
+        this.updateLights(0);
+
+        // Create a regular sampler for textures rendered on the scene objects
+        this.sampler = this.gl.createSampler();
+        this.gl.samplerParameteri(this.sampler, this.gl.TEXTURE_WRAP_S, this.gl.REPEAT);
+        this.gl.samplerParameteri(this.sampler, this.gl.TEXTURE_WRAP_T, this.gl.REPEAT);
+        this.gl.samplerParameteri(this.sampler, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
+        this.gl.samplerParameteri(this.sampler, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR_MIPMAP_LINEAR);
+
+        // Create a camera and a controller
+        this.camera = new Camera();
+        this.camera.type = 'perspective';
+        this.camera.position = vec3.fromValues(12,8,20);
+        this.camera.direction = vec3.fromValues(-1,-0.6,-1);
+        this.camera.far = 200; // A closer far plane gives the clusters a better depth distribution
+        this.camera.aspectRatio = this.gl.drawingBufferWidth/this.gl.drawingBufferHeight;
+
+        this.controller = new FlyCameraController(this.camera, this.game.input);
+        this.controller.movementSensitivity = 0.01;
+
+        // As usual, we enable face culling and depth testing
+        this.gl.enable(this.gl.CULL_FACE);
+        this.gl.cullFace(this.gl.BACK);
+        this.gl.frontFace(this.gl.CCW);
+
+        this.gl.enable(this.gl.DEPTH_TEST);
+        this.gl.depthFunc(this.gl.LEQUAL);
+
+        // Since all the lights are drawn in one pass, we don't need blending
+        this.gl.disable(this.gl.BLEND);
+
+        // Use a dark grey clear color
+        this.gl.clearColor(0.1,0.1,0.1,1);
+
+        this.setupControls();
+    }
+
+    // Moves the lights along their orbits and enables the first "lightCount" lights
+    private updateLights(deltaTime: number){
+        this.lights.forEach((light, i) => {
+            const orbit = this.orbits[i];
+            if(this.animate) orbit.angle += orbit.speed * deltaTime / 1000;
+            vec3.set(light.position, orbit.radius * Math.cos(orbit.angle), orbit.height, orbit.radius * Math.sin(orbit.angle));
+            light.enabled = i < this.lightCount;
+            this.markers[i].position = light.position;
+            this.markers[i].setParent(light.enabled ? this.root : null); // The markers of the disabled lights are detached so they are not drawn
+        });
+    }
+
+    public draw(deltaTime: number): void {
+        this.controller.update(deltaTime); // Update camera
+        this.updateLights(deltaTime);
+        this.cullingStats = { drawn: 0, culled: 0 };
+
+        // Assign the lights to the clusters of the camera frustum and upload them
+        this.clusters.update(this.camera, this.lights, [this.gl.drawingBufferWidth, this.gl.drawingBufferHeight]);
+
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT); // Clear color and depth
+
+        // Send the VP and camera position once for the whole frame
+        this.cameraBuffer.setValues({ VP: this.camera.ViewProjectionMatrix, cam_position: this.camera.position });
+        this.cameraBuffer.upload();
+
+        const program = this.shaders.getVariant('lit', { HEATMAP: this.heatmap });
+        program.use();
+        program.bindUniformBlock('Camera', this.cameraBuffer);
+        this.clusters.bind(program, 5); // We use the units 0-4 for material properties so the cluster textures start from unit 5
+
+        if(!this.heatmap){
+            // A disabled light is sent as a black light
+            const black = vec3.fromValues(0, 0, 0);
+            program.set('ambient', {
+                skyColor: this.ambient.enabled ? this.ambient.skyColor : black,
+                groundColor: this.ambient.enabled ? this.ambient.groundColor : black,
+                skyDirection: vec3.normalize(vec3.create(), this.ambient.skyDirection)
+            });
+            program.set('directional', {
+                color: this.directional.enabled ? this.directional.color : black,
+                direction: vec3.normalize(vec3.create(), this.directional.direction)
+            });
+        }
+
+        // Walk over the scene graph and draw every node that holds an object inside the view
+        this.cull(this.camera.ViewProjectionMatrix).forEach((node)=>{
+            let obj = node.data;
+
+            // Send the model matrix of the object
+            program.setUniformMatrix4fv("M", false, node.worldMatrix);
+
+            // The heatmap doesn't need the normals or the material (so the compiler removes their uniforms)
+            if(!this.heatmap){
+                program.setUniformMatrix4fv("M_it", true, node.inverseWorldMatrix);
+                // Send material properties and bind the textures
+                program.set('material', {
+                    albedo_tint: obj.material.albedo_tint,
+                    specular_tint: obj.material.specular_tint,
+                    emissive_tint: obj.material.emissive_tint,
+                    roughness_scale: obj.material.roughness_scale
+                });
+                program.setTexture('material.albedo', 0, this.gl.TEXTURE_2D, obj.material.albedo, this.sampler);
+                program.setTexture('material.specular', 1, this.gl.TEXTURE_2D, obj.material.specular, this.sampler);
+                program.setTexture('material.roughness', 2, this.gl.TEXTURE_2D, obj.material.roughness, this.sampler);
+                program.setTexture('material.emissive', 3, this.gl.TEXTURE_2D, obj.material.emissive, this.sampler);
+                program.setTexture('material.ambient_occlusion', 4, this.gl.TEXTURE_2D, obj.material.ambient_occlusion, this.sampler);
+            }
+
+            // Draw the object
+            obj.mesh.draw(this.gl.TRIANGLES);
+        });
+
+        const stats = this.cullingStats;
+        this.cullingLabel.textContent = `${stats.culled} of ${stats.drawn + stats.culled} draws culled`;
+    }
+
+    // Returns the nodes to draw with the given VP matrix (all of them if the culling is disabled) and counts them in the culling stats
+    private cull(VP: mat4): SceneNode<Object3D>[] {
+        this.frustum.update(VP);
+        return Frustum.Cull(this.root, this.culling ? this.frustum : null, this.cullingStats);
+    }
+
+    public end(): void {
+        this.shaders.dispose();
+        this.clusters.dispose();
+        this.cameraBuffer.dispose();
+        this.gl.deleteSampler(this.sampler);
+        for(let key in this.meshes)
+            this.meshes[key].dispose();
+        this.meshes = {};
+        for(let key in this.textures)
+            this.gl.deleteTexture(this.textures[key]);
+        this.textures = {};
+        this.lights = [];
+        this.markers = [];
+        this.clearControls();
+    }
+
+
+    /////////////////////////////////////////////////////////
+    ////// ADD CONTROL TO THE WEBPAGE (NOT IMPORTNANT) //////
+    /////////////////////////////////////////////////////////
+
+    private setupControls() {
+        const controls = document.querySelector('#controls');
+        this.cullingLabel = <label className="control-label"></label>;
+
+        controls.appendChild(
+            <div>
+                <div className="control-row">
+                    <label className="control-label">Lights</label>
+                    <NumberInput value={this.lightCount} onchange={(v)=>{this.lightCount=Math.max(0, Math.min(ClusteredLightingScene.MAX_LIGHTS, Math.floor(v)));}}/>
+                    <CheckBox value={this.animate} onchange={(v)=>{this.animate=v;}}/>
+                    <label className="control-label">Animate</label>
+                </div>
+                <div className="control-row">
+                    <label className="control-label">Light Threshold</label>
+                    <NumberInput value={this.clusters.lightThreshold} onchange={(v)=>{this.clusters.lightThreshold=v;}}/>
+                    <CheckBox value={this.heatmap} onchange={(v)=>{this.heatmap=v;}}/>
+                    <label className="control-label">Cluster Heatmap</label>
+                </div>
+                <div className="control-row">
+                    <CheckBox value={this.culling} onchange={(v)=>{ this.culling = v; }}/>
+                    <label className="control-label">Frustum Culling</label>
+                    {this.cullingLabel}
+                </div>
+                <div className="control-row">
+                    <CheckBox value={this.ambient.enabled} onchange={(v)=>{this.ambient.enabled=v;}}/>
+                    <label className="control-label">Ambient Light</label>
+                    <Color color={this.ambient.skyColor}/>
+                </div>
+                <div className="control-row">
+                    <CheckBox value={this.directional.enabled} onchange={(v)=>{this.directional.enabled=v;}}/>
+                    <label className="control-label">Directional Light</label>
+                    <Color color={this.directional.color}/>
+                </div>
+            </div>
+        );
+    }
+
+    private clearControls() {
+        const controls = document.querySelector('#controls');
+        controls.innerHTML = "";
+    }
+}
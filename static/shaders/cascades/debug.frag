@@ -0,0 +1,22 @@
+#version 300 es
+precision highp float;
+
+// This shows the depth of a cascade shadow map as a grey scale image (black is at the light) with a border in the debug color of the cascade
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "common/cascade-colors.glsl"
+
+#define BORDER 0.02f // The border width in the UVs of the shadow map
+
+uniform sampler2D shadow_map;
+uniform vec4 tile; // The UV rectangle of the shadow map in the texture (x, y, width, height)
+uniform int cascade;
+
+void main(){
+    vec2 edge = min(v_screencoord, 1.0f - v_screencoord);
+    if(min(edge.x, edge.y) < BORDER) color = vec4(cascadeColor(cascade), 1.0f);
+    else color = vec4(vec3(texture(shadow_map, tile.xy + v_screencoord * tile.zw).r), 1.0f);
+}
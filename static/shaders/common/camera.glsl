@@ -0,0 +1,7 @@
+// The camera data shared by all the objects drawn in a frame
+// It is stored in a uniform buffer (see UniformBuffer) so that it is uploaded once per frame instead of once per object and program
+
+layout(std140) uniform Camera {
+    mat4 VP;
+    vec3 cam_position;
+};
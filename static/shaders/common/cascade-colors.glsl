@@ -0,0 +1,13 @@
+// The debug colors of the shadow cascades (shared by the cascade tint of shadow-map/lit.frag and the shadow maps drawn by cascades/debug.frag)
+// There is a color for each cascade up to 4 cascades (the later cascades reuse the last color)
+
+const vec3 CASCADE_COLORS[4] = vec3[4](
+    vec3(1.0f, 0.3f, 0.3f),
+    vec3(0.3f, 1.0f, 0.3f),
+    vec3(0.3f, 0.3f, 1.0f),
+    vec3(1.0f, 1.0f, 0.3f)
+);
+
+vec3 cascadeColor(int cascade){
+    return CASCADE_COLORS[clamp(cascade, 0, 3)];
+}
@@ -0,0 +1,52 @@
+// The clustered point and spot lights (see LightClusters)
+// Each pixel finds the cluster that contains it then loops over the lights assigned to that cluster only
+
+#include "common/camera.glsl"
+
+uniform highp sampler2D cluster_lights; // 4 texels per light (one light per row)
+uniform highp usampler2D cluster_ranges; // The offset and count of the lights of each cluster in cluster_indices
+uniform highp usampler2D cluster_indices; // The light indices of all the clusters (stored in rows)
+
+layout(std140) uniform Clusters {
+    ivec3 cluster_counts; // The number of clusters along x, y and z
+    bool logarithmic_depth; // If true, the slices are exponential along the depth (for perspective cameras)
+    vec3 view_forward; // The camera direction (used to compute the depth of the pixel)
+    float depth_scale; // slice = floor(f(depth) * depth_scale + depth_bias) where f is log if logarithmic_depth is true
+    float depth_bias;
+    vec2 screen_size; // The viewport size in pixels
+};
+
+struct ClusteredLight {
+    vec3 color;
+    bool spot; // If false, it is a point light
+    vec3 position;
+    float radius; // The light is faded out to 0 at this distance
+    vec3 direction;
+    float cos_inner_cone;
+    vec3 attenuation; // (quadratic, linear, constant)
+    float cos_outer_cone;
+};
+
+ClusteredLight readClusteredLight(uint index){
+    int row = int(index);
+    vec4 t0 = texelFetch(cluster_lights, ivec2(0, row), 0);
+    vec4 t1 = texelFetch(cluster_lights, ivec2(1, row), 0);
+    vec4 t2 = texelFetch(cluster_lights, ivec2(2, row), 0);
+    vec4 t3 = texelFetch(cluster_lights, ivec2(3, row), 0);
+    return ClusteredLight(t0.rgb, t0.a > 0.5f, t1.xyz, t1.w, t2.xyz, t2.w, t3.xyz, t3.w);
+}
+
+// Returns the offset and the count of the lights in the cluster that contains the pixel (world is the world position of the pixel)
+uvec2 findCluster(vec3 world){
+    float depth = dot(world - cam_position, view_forward);
+    int slice = int(floor((logarithmic_depth ? log(max(depth, 1e-4f)) : depth) * depth_scale + depth_bias));
+    ivec2 tile = ivec2(gl_FragCoord.xy / screen_size * vec2(cluster_counts.xy));
+    ivec3 cluster = clamp(ivec3(tile, slice), ivec3(0), cluster_counts - 1);
+    return texelFetch(cluster_ranges, ivec2(cluster.x + cluster.y * cluster_counts.x, cluster.z), 0).rg;
+}
+
+// Returns the light index at the given position in the index list
+uint clusterLightIndex(uint position){
+    int width = textureSize(cluster_indices, 0).x;
+    return texelFetch(cluster_indices, ivec2(int(position) % width, int(position) / width), 0).r;
+}
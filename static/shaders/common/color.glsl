@@ -0,0 +1,12 @@
+// Color functions shared by the HDR and post processing shaders
+
+// The relative luminance of a linear color (Rec. 709 weights)
+float luminance(vec3 color){
+    return dot(color, vec3(0.2126f, 0.7152f, 0.0722f));
+}
+
+// Monitors expect colors encoded with the sRGB transfer function (roughly a gamma of 1/2.2), while lighting is computed on linear colors
+vec3 linearToSRGB(vec3 color){
+    color = clamp(color, 0.0f, 1.0f);
+    return mix(12.92f * color, 1.055f * pow(color, vec3(1.0f / 2.4f)) - 0.055f, step(0.0031308f, color));
+}
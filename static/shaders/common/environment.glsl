@@ -0,0 +1,35 @@
+// The environment lighting (image based lighting) read by the lit shaders (see EnvironmentMap)
+// The diffuse irradiance is stored as 9 spherical harmonics coefficients and the specular uses the split sum approximation
+// Like the other lights, the values are scaled so that a white lambertian surface reflects the irradiance divided by PI (the average radiance around the normal)
+
+layout(std140) uniform Environment {
+    vec3 environment_sh[9]; // Already convolved with the cosine lobe and divided by PI
+    float environment_intensity;
+    float environment_max_lod; // The mip level of the prefiltered map used for a roughness of 1
+};
+
+uniform samplerCube environment_specular; // The prefiltered specular map (each mip level is for a roughness)
+uniform sampler2D environment_brdf; // The BRDF lookup table (see ibl/brdf.frag)
+
+// Evaluates the spherical harmonics (the constants are the normalization factors of the bands 0, 1 and 2)
+vec3 environmentIrradiance(vec3 n){
+    vec3 irradiance =
+        0.282095f * environment_sh[0] +
+        0.488603f * (environment_sh[1] * n.y + environment_sh[2] * n.z + environment_sh[3] * n.x) +
+        1.092548f * (environment_sh[4] * n.x * n.y + environment_sh[5] * n.y * n.z + environment_sh[7] * n.x * n.z) +
+        0.315392f * environment_sh[6] * (3.0f * n.z * n.z - 1.0f) +
+        0.546274f * environment_sh[8] * (n.x * n.x - n.y * n.y);
+    return environment_intensity * max(irradiance, vec3(0.0f));
+}
+
+// Reads the environment around the reflection direction blurred according to the roughness
+vec3 environmentRadiance(vec3 r, float roughness){
+    return environment_intensity * textureLod(environment_specular, r, roughness * environment_max_lod).rgb;
+}
+
+// The specular reflection of the environment for a surface with the reflectance F0 (see common/pbr.glsl)
+vec3 environmentSpecular(vec3 n, vec3 v, vec3 F0, float roughness){
+    float NdotV = max(dot(n, v), 0.0f);
+    vec2 brdf = texture(environment_brdf, vec2(NdotV, roughness)).rg;
+    return environmentRadiance(reflect(-v, n), roughness) * (F0 * brdf.x + brdf.y);
+}
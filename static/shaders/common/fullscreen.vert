@@ -0,0 +1,13 @@
+#version 300 es
+
+// This draws a triangle that covers the whole screen (call drawArrays(TRIANGLES, 0, 3) without any vertex attributes)
+// The vertices are (-1,-1), (3,-1) and (-1,3) so the part of the triangle outside the screen is clipped
+// We use one triangle instead of a quad (two triangles) so that no pixels are shaded twice along the diagonal
+
+out vec2 v_screencoord; // The screen coordinates in the range [0, 1]
+
+void main(){
+    vec2 position = vec2(float((gl_VertexID & 1) << 2) - 1.0f, float((gl_VertexID & 2) << 1) - 1.0f);
+    v_screencoord = 0.5f * position + 0.5f;
+    gl_Position = vec4(position, 0.0f, 1.0f);
+}
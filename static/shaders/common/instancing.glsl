@@ -0,0 +1,16 @@
+// The per instance attributes of instanced meshes (see MeshUtils.InstancedMesh), they are only read when the shader is compiled with INSTANCED
+// The matrix of each instance is relative to the model matrix of the object (so the whole group can be moved by its scene node)
+// A mat4 attribute takes 4 locations (one for each column) so the matrix takes the locations 4 to 7
+
+layout(location=4) in mat4 instance_M;
+layout(location=8) in vec3 instance_tint; // Multiplies the albedo of the instance
+
+// Returns the model matrix of the current vertex given the model matrix of the object
+mat4 instanceModel(mat4 M){
+    return M * instance_M;
+}
+
+// Transforms a normal by the inverse transpose of the instance matrix (so instances can be scaled non-uniformly)
+vec3 instanceNormal(vec3 normal){
+    return transpose(inverse(mat3(instance_M))) * normal;
+}
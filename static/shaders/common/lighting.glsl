@@ -0,0 +1,17 @@
+// The lighting terms shared by all the phong shaders
+
+float diffuse(vec3 n, vec3 l){
+    //Diffuse (Lambert) term computation: reflected light = cosine the light incidence angle on the surface
+    //max(0, ..) is used since light shouldn't be negative
+    return max(0.0f, dot(n,l));
+}
+
+float specular(vec3 n, vec3 l, vec3 v, float shininess){
+    //Phong Specular term computation
+    return pow(max(0.0f, dot(v,reflect(-l, n))), shininess);
+}
+
+float roughnessToShininess(float roughness){
+    // Converts the roughness to a phong shininess (specular power), a rougher surface has a wider specular highlight
+    return 2.0f/pow(max(0.01f,roughness), 4.0f) - 2.0f;
+}
@@ -0,0 +1,42 @@
+// The textured material shared by all the phong and physically based shaders
+
+struct Material {
+    sampler2D albedo; // Albedo will be used for diffuse and ambient
+    vec3 albedo_tint; // This tint will be multiplied by the the albedo to control its color
+    sampler2D specular;
+    vec3 specular_tint;
+    sampler2D roughness; // Roughness will be used for the specular
+    float roughness_scale; // This will be used to scale the roughness (Note: it should be less than 1)
+    sampler2D ambient_occlusion; // This will be used to occlude the ambient light
+    sampler2D emissive; // This will be used for emissive materials
+    vec3 emissive_tint;
+    sampler2D metallic; // This is only used by the physically based shaders (0 for dielectrics and 1 for metals)
+    float metallic_scale;
+};
+
+struct SampledMaterial {
+    vec3 albedo;
+    vec3 specular;
+    vec3 emissive;
+    float shininess;
+    float roughness;
+    float ambient_occlusion;
+};
+
+// This will sample the material textures and return the sampling results
+SampledMaterial sampleMaterial(Material material, vec2 texcoord){
+    SampledMaterial mat;
+    mat.albedo = material.albedo_tint * texture(material.albedo, texcoord).rgb;
+    mat.specular = material.specular_tint * texture(material.specular, texcoord).rgb;
+    mat.emissive = material.emissive_tint * texture(material.emissive, texcoord).rgb;
+    float roughness = material.roughness_scale * texture(material.roughness, texcoord).r;
+    mat.shininess = roughnessToShininess(roughness); // (see common/lighting.glsl)
+    mat.roughness = roughness;
+    mat.ambient_occlusion = texture(material.ambient_occlusion, texcoord).r;
+    return mat;
+}
+
+// The metallic map is sampled separately since the phong shaders don't need it
+float sampleMetallic(Material material, vec2 texcoord){
+    return clamp(material.metallic_scale * texture(material.metallic, texcoord).r, 0.0f, 1.0f);
+}
@@ -0,0 +1,81 @@
+// The physically based lighting terms (Cook-Torrance microfacet specular with a GGX distribution)
+// The light colors are treated as the irradiance on a surface facing the light so that a white lambertian surface is as bright as in the phong shaders
+
+const float PI = 3.14159265359f;
+
+// A surface is described by its albedo, reflectance at normal incidence (F0), roughness and metallic
+struct Surface {
+    vec3 albedo;
+    vec3 F0;
+    float roughness;
+    float metallic;
+};
+
+// Builds the surface from the sampled material
+// The specular map is reused as the reflectance of dielectrics (0.5 maps to the common 4%) while metals reflect using their albedo
+Surface pbrSurface(vec3 albedo, vec3 specular, float roughness, float metallic){
+    Surface surface;
+    surface.albedo = albedo;
+    surface.F0 = mix(0.08f * specular, albedo, metallic);
+    surface.roughness = clamp(roughness, 0.04f, 1.0f); // A roughness of 0 would make the highlight infinitely small and bright
+    surface.metallic = metallic;
+    return surface;
+}
+
+// GGX (Trowbridge-Reitz) normal distribution: how many microfacets are aligned with the half vector
+float distributionGGX(float NdotH, float roughness){
+    float a = roughness * roughness; // We use the perceptual roughness squared as in most engines
+    float a2 = a * a;
+    float d = NdotH * NdotH * (a2 - 1.0f) + 1.0f;
+    return a2 / (PI * d * d);
+}
+
+// Schlick-GGX approximation of the microfacet shadowing for one direction
+float geometrySchlickGGX(float NdotX, float k){
+    return NdotX / (NdotX * (1.0f - k) + k);
+}
+
+// Smith geometry term: the microfacets shadowing both the light and the view directions
+float geometrySmith(float NdotV, float NdotL, float roughness){
+    float r = roughness + 1.0f;
+    float k = r * r / 8.0f; // The remapping of k for direct lighting
+    return geometrySchlickGGX(NdotV, k) * geometrySchlickGGX(NdotL, k);
+}
+
+// Schlick approximation of the fresnel reflectance
+vec3 fresnelSchlick(float cosTheta, vec3 F0){
+    return F0 + (1.0f - F0) * pow(1.0f - cosTheta, 5.0f);
+}
+
+// For the ambient light, there is no single half vector so rough surfaces should reflect less at grazing angles
+vec3 fresnelSchlickRoughness(float cosTheta, vec3 F0, float roughness){
+    return F0 + (max(vec3(1.0f - roughness), F0) - F0) * pow(1.0f - cosTheta, 5.0f);
+}
+
+// Returns the light reflected towards the viewer for a light of unit color coming from the direction l
+vec3 cookTorrance(vec3 n, vec3 l, vec3 v, Surface surface){
+    float NdotL = max(dot(n, l), 0.0f);
+    if(NdotL <= 0.0f) return vec3(0.0f);
+    vec3 h = normalize(l + v);
+    float NdotV = max(dot(n, v), 1e-4f);
+    float NdotH = max(dot(n, h), 0.0f);
+    float HdotV = max(dot(h, v), 0.0f);
+
+    float D = distributionGGX(NdotH, surface.roughness);
+    float G = geometrySmith(NdotV, NdotL, surface.roughness);
+    vec3 F = fresnelSchlick(HdotV, surface.F0);
+    vec3 specular = D * G * F / (4.0f * NdotV * NdotL);
+
+    // Energy conservation: the light reflected by the specular is not available for the diffuse and metals have no diffuse at all
+    vec3 kD = (1.0f - F) * (1.0f - surface.metallic);
+    vec3 diffuse = kD * surface.albedo / PI;
+
+    return (diffuse + specular) * NdotL * PI; // (see the note about the light colors at the top of the file)
+}
+
+// Returns the reflected ambient light where irradiance is the ambient light arriving around the normal
+vec3 pbrAmbient(vec3 n, vec3 v, Surface surface, vec3 irradiance){
+    vec3 F = fresnelSchlickRoughness(max(dot(n, v), 0.0f), surface.F0, surface.roughness);
+    vec3 kD = (1.0f - F) * (1.0f - surface.metallic);
+    return (kD * surface.albedo + F) * irradiance;
+}
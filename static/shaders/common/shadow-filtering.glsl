@@ -0,0 +1,216 @@
+// The filters that soften the edges of the shadows (each light selects one, see ShadowMappingScene.ShadowFilters)
+// The filter is selected by one of the keywords:
+// - SHADOW_FILTER_HARDWARE (the default): one sample with the hardware comparison, the linear filtering only blends the 4 nearest texels so the edges are hard and aliased
+// - SHADOW_FILTER_PCF: Percentage Closer Filtering averages the comparisons of many samples around the pixel (on a grid with PCF_PATTERN_GRID or a rotated Poisson disk with PCF_PATTERN_POISSON)
+// - SHADOW_FILTER_PCSS: Percentage Closer Soft Shadows searches for the blockers around the pixel and makes the PCF radius grow with the distance between the blockers and the receiver (like the penumbra of an area light)
+// - SHADOW_FILTER_VSM and SHADOW_FILTER_EVSM: the shadow map stores the blurred moments of the depth and the shadow is estimated from them (see common/shadow-moments.glsl)
+// The type of the shadow maps depends on the filter so they should be declared as "ShadowMap"
+// PCSS reads the raw depth (it needs the blocker depths, not just the comparisons) so its shadow maps must be bound with a nearest sampler without comparison
+// The depth of spot and point lights comes from a perspective projection so SHADOW_PERSPECTIVE must be defined for them before including this file
+// Cube shadow maps (SHADOW_CUBE) only store the moments of point lights (the depth of the other filters is in the shadow atlas) and are read with a direction from the light instead of a UV
+// A 2D shadow map can be a tile of a shadow atlas (see ShadowAtlas): the filters work in the UVs of the tile and each sample is moved into the tile rectangle of the settings
+
+#include "common/shadow-moments.glsl"
+
+precision highp sampler2D; // The depth and the moments need the full precision
+precision highp samplerCube;
+
+#if defined(SHADOW_CUBE)
+#define ShadowMap samplerCube
+#elif defined(SHADOW_FILTER_PCSS) || defined(SHADOW_FILTER_VSM) || defined(SHADOW_FILTER_EVSM)
+#define ShadowMap sampler2D
+#else
+#define ShadowMap sampler2DShadow
+#endif
+
+// The position of the pixel in the shadow map: the UV and the depth (xy, z) or for cube shadow maps, the direction from the light and the depth (xyz, w)
+#ifdef SHADOW_CUBE
+#define ShadowCoord vec4
+#else
+#define ShadowCoord vec3
+#endif
+
+// The filter parameters of a light (they are read from its uniform block)
+struct ShadowFilterSettings {
+    float radius; // The PCF kernel radius in texels (it is rounded down for the grid) and the minimum PCSS radius
+    int samples; // The number of Poisson disk samples for PCF and for each PCSS step
+    float light_size; // The size of the light in shadow map UVs (for perspective shadow maps, at a unit distance from the light)
+    vec2 depth_range; // The near and far of the light projection
+    float bleed_reduction; // VSM and EVSM cut off the shadow values below this to remove the light bleeding (in the range [0, 1))
+    vec2 exponents; // The EVSM warp exponents
+    vec4 tile; // The UV rectangle (x, y, width, height) of the shadow map in its texture (vec4(0, 0, 1, 1) if the shadow map is the whole texture)
+};
+
+#define POISSON_SAMPLES 32
+#define MAX_PCF_GRID_RADIUS 4
+#define PCSS_MAX_SEARCH_RADIUS 0.05f // The blocker search radius is clamped to this (in UVs) to keep the number of samples reasonable
+#define SHADOW_MIN_VARIANCE 0.00001f // Prevents the variance from reaching 0 which causes acne on flat surfaces
+
+// Points in the unit disk that are not too close to each other (the first samples are spread so any prefix of the list covers the disk)
+const vec2 POISSON_DISK[POISSON_SAMPLES] = vec2[POISSON_SAMPLES](
+    vec2(-0.1150f, -0.0140f), vec2(0.9141f, 0.3960f), vec2(0.7596f, -0.6362f), vec2(-0.4547f, 0.8817f),
+    vec2(-0.6138f, -0.7820f), vec2(-0.9897f, -0.0351f), vec2(0.4239f, 0.8941f), vec2(0.0320f, -0.9040f),
+    vec2(0.4195f, -0.0176f), vec2(-0.5104f, 0.2926f), vec2(0.0987f, 0.6247f), vec2(0.3399f, -0.6188f),
+    vec2(0.7948f, -0.1888f), vec2(-0.8158f, 0.5615f), vec2(-0.0481f, 0.9310f), vec2(0.6250f, 0.5725f),
+    vec2(-0.4682f, -0.4889f), vec2(-0.2231f, 0.6535f), vec2(-0.4372f, -0.0223f), vec2(-0.0391f, -0.5904f),
+    vec2(0.3078f, 0.3833f), vec2(0.2744f, -0.2963f), vec2(-0.7287f, -0.2039f), vec2(-0.8173f, 0.2504f),
+    vec2(-0.7764f, -0.5124f), vec2(-0.2033f, 0.3037f), vec2(0.9851f, 0.0508f), vec2(0.7023f, 0.1760f),
+    vec2(0.5583f, -0.4036f), vec2(-0.3122f, -0.7575f), vec2(0.4026f, -0.9146f), vec2(-0.1798f, -0.3090f)
+);
+
+// The depth that the shadow map is compared to
+float shadowReference(ShadowCoord coord){
+#ifdef SHADOW_CUBE
+    return coord.w;
+#else
+    return coord.z;
+#endif
+}
+
+// The size of a texel in the UVs of the shadow map
+vec2 shadowTexel(ShadowMap map, ShadowFilterSettings settings){
+    return 1.0f / (vec2(textureSize(map, 0)) * settings.tile.zw);
+}
+
+// The texture coordinate of a sample moved by the offset (in UVs) from the pixel
+#ifdef SHADOW_CUBE
+vec3 shadowTap(ShadowMap map, ShadowCoord coord, vec2 offset, ShadowFilterSettings settings){
+    // The variance filters read a single sample at the pixel (the moments are already blurred) so the offset is always 0
+    return coord.xyz;
+}
+#else
+vec2 shadowTap(ShadowMap map, ShadowCoord coord, vec2 offset, ShadowFilterSettings settings){
+    // The sample is kept half a texel inside the tile so that the bilinear filter doesn't read the neighboring tiles
+    vec2 margin = 0.5f / vec2(textureSize(map, 0));
+    return clamp(settings.tile.xy + (coord.xy + offset) * settings.tile.zw, settings.tile.xy + margin, settings.tile.xy + settings.tile.zw - margin);
+}
+#endif
+
+#if defined(SHADOW_FILTER_PCSS) || defined(SHADOW_FILTER_VSM) || defined(SHADOW_FILTER_EVSM)
+// Reads the shadow map without comparison (the depth for PCSS and the moments for VSM and EVSM)
+vec4 shadowFetch(ShadowMap map, ShadowCoord coord, vec2 offset, ShadowFilterSettings settings){
+    return texture(map, shadowTap(map, coord, offset, settings));
+}
+#else
+// Compares the depth of the pixel with the shadow map (1 if the pixel is lit)
+float shadowCompare(ShadowMap map, ShadowCoord coord, vec2 offset, ShadowFilterSettings settings){
+    return texture(map, vec3(shadowTap(map, coord, offset, settings), coord.z));
+}
+#endif
+
+// The Poisson disk is rotated by a different angle for each pixel (interleaved gradient noise) which turns the banding of a few samples into noise
+mat2 shadowNoiseRotation(){
+    float angle = 6.2831853f * fract(52.9829189f * fract(dot(gl_FragCoord.xy, vec2(0.06711056f, 0.00583715f))));
+    float c = cos(angle), s = sin(angle);
+    return mat2(c, s, -s, c);
+}
+
+#if defined(SHADOW_FILTER_PCF)
+float shadowPCF(ShadowMap map, ShadowCoord coord, ShadowFilterSettings settings){
+    vec2 texel = shadowTexel(map, settings);
+    float lit = 0.0f;
+#ifdef PCF_PATTERN_GRID
+    // Every texel in a square around the pixel (each sample is still bilinearly filtered by the hardware comparison)
+    int radius = clamp(int(settings.radius), 0, MAX_PCF_GRID_RADIUS);
+    for(int y = -radius; y <= radius; y++){
+        for(int x = -radius; x <= radius; x++){
+            lit += shadowCompare(map, coord, vec2(x, y) * texel, settings);
+        }
+    }
+    return lit / float((2 * radius + 1) * (2 * radius + 1));
+#else
+    mat2 rotation = shadowNoiseRotation();
+    int count = clamp(settings.samples, 1, POISSON_SAMPLES);
+    for(int i = 0; i < count; i++){
+        lit += shadowCompare(map, coord, rotation * POISSON_DISK[i] * settings.radius * texel, settings);
+    }
+    return lit / float(count);
+#endif
+}
+#endif
+
+#if defined(SHADOW_FILTER_PCSS)
+// The penumbra of an area light grows with the distance between the blocker and the receiver (by similar triangles)
+// For perspective shadow maps, the UV size of a world distance also shrinks with the distance from the light
+float shadowPenumbra(float light_size, float receiver, float blocker){
+#ifdef SHADOW_PERSPECTIVE
+    return light_size * (receiver - blocker) / (blocker * receiver);
+#else
+    return light_size * (receiver - blocker);
+#endif
+}
+
+float shadowPCSS(ShadowMap map, ShadowCoord coord, ShadowFilterSettings settings){
+    vec2 texel = shadowTexel(map, settings);
+    mat2 rotation = shadowNoiseRotation();
+    int count = clamp(settings.samples, 1, POISSON_SAMPLES);
+    float reference = shadowReference(coord);
+    float receiver = linearShadowDepth(reference, settings.depth_range);
+
+    // 1- The blocker search: the blockers can be anywhere in the part of the shadow map that the light (seen from the receiver) covers
+    float searchRadius = clamp(shadowPenumbra(settings.light_size, receiver, settings.depth_range.x), texel.x, PCSS_MAX_SEARCH_RADIUS);
+    float blockerSum = 0.0f;
+    int blockers = 0;
+    for(int i = 0; i < count; i++){
+        float depth = shadowFetch(map, coord, rotation * POISSON_DISK[i] * searchRadius, settings).r;
+        if(depth < reference){
+            blockerSum += linearShadowDepth(depth, settings.depth_range);
+            blockers++;
+        }
+    }
+    if(blockers == 0) return 1.0f; // Nothing blocks the light
+
+    // 2- The penumbra size from the average blocker distance (it is at least the PCF radius)
+    float filterRadius = max(shadowPenumbra(settings.light_size, receiver, blockerSum / float(blockers)), settings.radius * texel.x);
+
+    // 3- PCF with the penumbra size (the depth is compared manually since the shadow map is read without a comparison sampler)
+    float lit = 0.0f;
+    for(int i = 0; i < count; i++){
+        lit += step(reference, shadowFetch(map, coord, rotation * POISSON_DISK[i] * filterRadius, settings).r);
+    }
+    return lit / float(count);
+}
+#endif
+
+#if defined(SHADOW_FILTER_VSM) || defined(SHADOW_FILTER_EVSM)
+// Chebyshev's inequality gives an upper bound of the fraction of the filtered area that is farther than the depth (lit) from the mean and variance of the depth
+// The bound is too high where occluders overlap (light bleeding) so the values below the bleed reduction are cut off
+float chebyshevUpperBound(vec2 moments, float depth, float minVariance, float bleed_reduction){
+    if(depth <= moments.x) return 1.0f;
+    float variance = max(moments.y - moments.x * moments.x, minVariance);
+    float d = depth - moments.x;
+    float pMax = variance / (variance + d * d);
+    bleed_reduction = clamp(bleed_reduction, 0.0f, 0.99f);
+    return clamp((pMax - bleed_reduction) / (1.0f - bleed_reduction), 0.0f, 1.0f);
+}
+
+float shadowVSM(ShadowMap map, ShadowCoord coord, ShadowFilterSettings settings){
+    vec4 moments = shadowFetch(map, coord, vec2(0.0f), settings);
+    float depth = momentsDepth(shadowReference(coord), settings.depth_range);
+#ifdef SHADOW_FILTER_EVSM
+    // Each warped depth gives a bound and the lower one is the tighter
+    vec2 warped = warpDepth(depth, settings.exponents);
+    vec2 minVariance = SHADOW_MIN_VARIANCE * settings.exponents * settings.exponents * warped * warped; // The minimum variance is scaled by the derivative of the warp
+    return min(
+        chebyshevUpperBound(moments.xy, warped.x, minVariance.x, settings.bleed_reduction),
+        chebyshevUpperBound(moments.zw, warped.y, minVariance.y, settings.bleed_reduction)
+    );
+#else
+    return chebyshevUpperBound(moments.xy, depth, SHADOW_MIN_VARIANCE, settings.bleed_reduction);
+#endif
+}
+#endif
+
+// Returns 1 if the pixel is in the light and 0 if it is in the shadow (values in between are in the penumbra)
+// The coordinate is the position of the pixel in the shadow map (see ShadowCoord)
+float sampleShadow(ShadowMap map, ShadowCoord coord, ShadowFilterSettings settings){
+#if defined(SHADOW_FILTER_PCF)
+    return shadowPCF(map, coord, settings);
+#elif defined(SHADOW_FILTER_PCSS)
+    return shadowPCSS(map, coord, settings);
+#elif defined(SHADOW_FILTER_VSM) || defined(SHADOW_FILTER_EVSM)
+    return shadowVSM(map, coord, settings);
+#else
+    return shadowCompare(map, coord, vec2(0.0f), settings);
+#endif
+}
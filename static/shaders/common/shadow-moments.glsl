@@ -0,0 +1,42 @@
+// The depth metric of variance shadow maps and the moments stored in them (shared by shadow.frag which writes the moments and shadow-filtering.glsl which reads them)
+// Variance shadow maps filter a shadow map by storing the moments of the depth (the depth and its square) which, unlike the depth comparison, can be blurred and linearly filtered
+// The depth of a perspective shadow map is not linear so we linearize it to the range [0, 1] between the near and far planes (define SHADOW_PERSPECTIVE for spot and point lights)
+// Cube shadow maps (SHADOW_CUBE) already store a linear depth: the distance from the light divided by the far
+// Exponential variance shadow maps (EVSM) store the moments of two exponentially warped depths instead which reduces the light bleeding of VSM (shadows leaking through overlapping occluders)
+
+// Returns the distance from the light of a shadow map depth (in the range [0, 1]) given the near and far of its projection
+float linearShadowDepth(float depth, vec2 range){
+#if defined(SHADOW_CUBE)
+    return depth * range.y;
+#elif defined(SHADOW_PERSPECTIVE)
+    float ndc = 2.0f * depth - 1.0f;
+    return 2.0f * range.x * range.y / (range.y + range.x - ndc * (range.y - range.x));
+#else
+    return mix(range.x, range.y, depth);
+#endif
+}
+
+// The depth that the moments are computed from (linear in the range [0, 1])
+float momentsDepth(float depth, vec2 range){
+#if defined(SHADOW_PERSPECTIVE) && !defined(SHADOW_CUBE)
+    return (linearShadowDepth(depth, range) - range.x) / (range.y - range.x);
+#else
+    return depth;
+#endif
+}
+
+// Warps the depth with a positive and a negative exponential (the exponents must be small enough to not overflow the moments format)
+vec2 warpDepth(float depth, vec2 exponents){
+    depth = 2.0f * depth - 1.0f;
+    return vec2(exp(exponents.x * depth), -exp(-exponents.y * depth));
+}
+
+// VSM stores (depth, depth^2) while EVSM stores (positive, positive^2, negative, negative^2)
+vec4 computeMoments(float depth, vec2 exponents){
+#ifdef MOMENTS_EVSM
+    vec2 warped = warpDepth(depth, exponents);
+    return vec4(warped.x, warped.x * warped.x, warped.y, warped.y * warped.y);
+#else
+    return vec4(depth, depth * depth, 0.0f, 0.0f);
+#endif
+}
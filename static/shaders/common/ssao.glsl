@@ -0,0 +1,14 @@
+// The screen space ambient occlusion computed by the SSAO pass (see ssao.tsx)
+// If SSAO is defined, the occlusion is read from the texture at the pixel position (it has the same size as the frame buffer), otherwise nothing is occluded
+
+#ifdef SSAO
+uniform sampler2D ssao;
+
+float screenSpaceOcclusion(){
+    return texelFetch(ssao, ivec2(gl_FragCoord.xy), 0).r;
+}
+#else
+float screenSpaceOcclusion(){
+    return 1.0f;
+}
+#endif
@@ -0,0 +1,39 @@
+#version 300 es
+precision highp float;
+
+// This shows one channel of the G-buffer on the screen (it is drawn with the full screen triangle)
+// The channel is selected by one of the keywords: VIEW_ALBEDO, VIEW_SPECULAR, VIEW_ROUGHNESS, VIEW_NORMAL, VIEW_EMISSIVE, VIEW_AMBIENT_OCCLUSION, VIEW_DEPTH or VIEW_POSITION
+
+out vec4 color;
+
+#include "deferred/gbuffer.glsl"
+
+uniform float near; // The camera near and far planes are used to linearize the depth
+uniform float far;
+
+void main(){
+    GBufferSample g = readGBuffer(ivec2(gl_FragCoord.xy));
+#if defined(VIEW_ALBEDO)
+    color = vec4(g.albedo, 1.0f);
+#elif defined(VIEW_SPECULAR)
+    color = vec4(g.specular, 1.0f);
+#elif defined(VIEW_ROUGHNESS)
+    color = vec4(vec3(g.roughness), 1.0f);
+#elif defined(VIEW_NORMAL)
+    color = vec4(0.5f * g.normal + 0.5f, 1.0f);
+#elif defined(VIEW_EMISSIVE)
+    color = vec4(g.emissive, 1.0f);
+#elif defined(VIEW_AMBIENT_OCCLUSION)
+    color = vec4(vec3(g.ambient_occlusion), 1.0f);
+#elif defined(VIEW_DEPTH)
+    // The depth is not linear (most of the range is used near the camera), so we convert it back to a distance and divide by the far plane
+    float z = 2.0f * g.depth - 1.0f;
+    float linear = 2.0f * near * far / (far + near - z * (far - near));
+    color = vec4(vec3(linear / far), 1.0f);
+#elif defined(VIEW_POSITION)
+    // We only show the fractional part so that each unit in the world becomes a gradient
+    color = vec4(g.depth == 1.0f ? vec3(0.0f) : fract(g.position), 1.0f);
+#else
+#error The G-buffer view is not defined (use one of the keywords VIEW_ALBEDO, VIEW_SPECULAR, VIEW_ROUGHNESS, VIEW_NORMAL, VIEW_EMISSIVE, VIEW_AMBIENT_OCCLUSION, VIEW_DEPTH or VIEW_POSITION)
+#endif
+}
@@ -0,0 +1,25 @@
+#version 300 es
+precision highp float;
+
+// The geometry pass doesn't compute any lighting, it only stores the sampled material and the normal of each pixel in the G-buffer
+// Each output is written to a different color attachment (see DeferredRenderer.GBufferFormats)
+
+in vec2 v_texcoord;
+in vec3 v_normal;
+
+layout(location=0) out vec4 albedo_ao; // rgb: albedo, a: ambient occlusion
+layout(location=1) out vec4 specular_roughness; // rgb: specular, a: roughness
+layout(location=2) out vec4 normal; // rgb: the world normal mapped from [-1, 1] to [0, 1]
+layout(location=3) out vec4 emissive; // rgb: emissive
+
+#include "common/material.glsl"
+
+uniform Material material;
+
+void main(){
+    // We don't use sampleMaterial since we need the roughness itself (the shininess can't be stored in [0, 1])
+    albedo_ao = vec4(material.albedo_tint * texture(material.albedo, v_texcoord).rgb, texture(material.ambient_occlusion, v_texcoord).r);
+    specular_roughness = vec4(material.specular_tint * texture(material.specular, v_texcoord).rgb, clamp(material.roughness_scale * texture(material.roughness, v_texcoord).r, 0.0f, 1.0f));
+    normal = vec4(0.5f * normalize(v_normal) + 0.5f, 1.0f);
+    emissive = vec4(material.emissive_tint * texture(material.emissive, v_texcoord).rgb, 1.0f);
+}
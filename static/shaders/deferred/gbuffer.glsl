@@ -0,0 +1,41 @@
+// Reads the G-buffer written by the geometry pass (see deferred/gbuffer.frag)
+// The G-buffer has the same size as the screen so we read the texel under the pixel using texelFetch (no filtering is needed)
+
+uniform sampler2D gbuffer_albedo_ao;
+uniform sampler2D gbuffer_specular_roughness;
+uniform sampler2D gbuffer_normal;
+uniform sampler2D gbuffer_emissive;
+uniform sampler2D gbuffer_depth;
+
+uniform mat4 VP_inverse; // Used to go back from the screen to the world
+
+struct GBufferSample {
+    vec3 albedo;
+    vec3 specular;
+    vec3 emissive;
+    vec3 normal;
+    vec3 position; // The world position
+    float roughness;
+    float ambient_occlusion;
+    float depth; // The depth in the range [0, 1] (1 means that nothing was drawn on this pixel)
+};
+
+GBufferSample readGBuffer(ivec2 pixel){
+    GBufferSample g;
+    vec4 albedo_ao = texelFetch(gbuffer_albedo_ao, pixel, 0);
+    vec4 specular_roughness = texelFetch(gbuffer_specular_roughness, pixel, 0);
+    g.albedo = albedo_ao.rgb;
+    g.ambient_occlusion = albedo_ao.a;
+    g.specular = specular_roughness.rgb;
+    g.roughness = specular_roughness.a;
+    g.emissive = texelFetch(gbuffer_emissive, pixel, 0).rgb;
+    g.normal = normalize(2.0f * texelFetch(gbuffer_normal, pixel, 0).xyz - 1.0f);
+    g.depth = texelFetch(gbuffer_depth, pixel, 0).r;
+    // To reconstruct the world position, we go from the window coordinates to the normalized device coordinates
+    // then we multiply by the inverse of the view projection matrix and divide by w
+    vec2 size = vec2(textureSize(gbuffer_depth, 0));
+    vec4 ndc = vec4(2.0f * (vec2(pixel) + 0.5f) / size - 1.0f, 2.0f * g.depth - 1.0f, 1.0f);
+    vec4 world = VP_inverse * ndc;
+    g.position = world.xyz / world.w;
+    return g;
+}
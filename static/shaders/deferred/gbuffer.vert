@@ -0,0 +1,20 @@
+#version 300 es
+layout(location=0) in vec3 position;
+layout(location=2) in vec2 texcoord;
+layout(location=3) in vec3 normal;
+
+// The geometry pass only needs the texture coordinates and the normal (the world position is reconstructed from the depth later)
+
+out vec2 v_texcoord;
+out vec3 v_normal;
+
+uniform mat4 M;
+uniform mat4 M_it;
+
+#include "common/camera.glsl"
+
+void main(){
+    gl_Position = VP * M * vec4(position, 1.0f);
+    v_texcoord = texcoord;
+    v_normal = (M_it * vec4(normal, 0.0f)).xyz;
+}
@@ -0,0 +1,91 @@
+#version 300 es
+precision highp float;
+
+// This shader adds the contribution of one light to the pixels it covers using the data in the G-buffer
+// The light type is selected by one of the keywords: LIGHT_EMISSIVE, LIGHT_AMBIENT, LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT
+// LIGHT_EMISSIVE is not a real light, it adds the emissive color of the materials (once per frame)
+// The same shader is used with the full screen triangle (common/fullscreen.vert) and the light volumes (deferred/volume.vert)
+// so it finds the pixel using gl_FragCoord instead of relying on the vertex shader outputs
+
+out vec4 color;
+
+#include "common/lighting.glsl"
+#include "common/camera.glsl"
+#include "deferred/gbuffer.glsl"
+
+#if defined(LIGHT_EMISSIVE)
+// The emissive pass has no light data
+#elif defined(LIGHT_AMBIENT)
+layout(std140) uniform Light {
+    vec3 skyColor;
+    vec3 groundColor;
+    vec3 skyDirection;
+} light;
+#elif defined(LIGHT_DIRECTIONAL)
+layout(std140) uniform Light {
+    vec3 color;
+    vec3 direction;
+} light;
+#elif defined(LIGHT_POINT)
+layout(std140) uniform Light {
+    vec3 color;
+    vec3 position;
+    float attenuation_quadratic;
+    float attenuation_linear;
+    float attenuation_constant;
+    float radius; // The radius of the light volume (the light is faded out to 0 at this distance)
+} light;
+#elif defined(LIGHT_SPOT)
+layout(std140) uniform Light {
+    vec3 color;
+    vec3 position;
+    vec3 direction;
+    float attenuation_quadratic;
+    float attenuation_linear;
+    float attenuation_constant;
+    float inner_cone;
+    float outer_cone;
+    float radius;
+} light;
+#else
+#error The light type is not defined (use one of the keywords LIGHT_EMISSIVE, LIGHT_AMBIENT, LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT)
+#endif
+
+void main(){
+    GBufferSample g = readGBuffer(ivec2(gl_FragCoord.xy));
+    if(g.depth == 1.0f) discard; // Nothing was drawn here so we keep the clear color
+
+#if defined(LIGHT_EMISSIVE)
+    color = vec4(g.emissive, 1.0f);
+#elif defined(LIGHT_AMBIENT)
+    color = vec4(g.albedo * g.ambient_occlusion * mix(light.groundColor, light.skyColor , 0.5f * dot(g.normal, light.skyDirection) + 0.5f), 1.0f);
+#else
+    vec3 n = g.normal;
+    vec3 v = normalize(cam_position - g.position);
+#if defined(LIGHT_DIRECTIONAL)
+    vec3 l = -light.direction;
+    float attenuation = 1.0f;
+#else
+    vec3 l = light.position - g.position;
+    float d = length(l);
+    l /= d;
+    float attenuation = 1.0f / (light.attenuation_constant +
+                                light.attenuation_linear * d +
+                                light.attenuation_quadratic * d * d);
+    // The attenuation never reaches 0 so we fade it out smoothly near the edge of the light volume (otherwise, we would see where the volume ends)
+    float falloff = clamp(1.0f - pow(d / light.radius, 4.0f), 0.0f, 1.0f);
+    attenuation *= falloff * falloff;
+#if defined(LIGHT_SPOT)
+    float angle = acos(dot(-l, light.direction));
+    attenuation *= smoothstep(light.outer_cone, light.inner_cone, angle);
+#endif
+#endif
+    color = vec4(
+        (
+            g.albedo*diffuse(n, l) +
+            g.specular*specular(n, l, v, roughnessToShininess(g.roughness))
+        ) * light.color * attenuation,
+        1.0f
+    );
+#endif
+}
@@ -0,0 +1,13 @@
+#version 300 es
+layout(location=0) in vec3 position;
+
+// This draws the volume of a light (a sphere that contains every pixel the light can reach) so that the light pass only shades those pixels
+// M scales the unit sphere to the light radius and moves it to the light position
+
+uniform mat4 M;
+
+#include "common/camera.glsl"
+
+void main(){
+    gl_Position = VP * M * vec4(position, 1.0f);
+}
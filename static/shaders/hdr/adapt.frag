@@ -0,0 +1,21 @@
+#version 300 es
+precision highp float;
+
+// This updates the luminance that the eye is adapted to (a 1x1 texture)
+// Like our eyes, the adaptation isn't instant so we move from the previous value towards the average luminance of this frame
+
+out vec4 color;
+
+uniform sampler2D log_luminance; // The log luminance with its mip levels (see hdr/luminance.frag)
+uniform sampler2D previous; // The adapted luminance of the previous frame
+uniform float last_level; // The level where the log luminance is 1x1
+uniform float blend; // How much we move towards the new average (1 means an instant adaptation)
+uniform float min_luminance;
+uniform float max_luminance;
+
+void main(){
+    float average = exp(textureLod(log_luminance, vec2(0.5f), last_level).r);
+    average = clamp(average, min_luminance, max_luminance);
+    float adapted = texelFetch(previous, ivec2(0), 0).r;
+    color = vec4(mix(adapted, average, blend), 0.0f, 0.0f, 1.0f);
+}
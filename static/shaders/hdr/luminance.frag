@@ -0,0 +1,18 @@
+#version 300 es
+precision highp float;
+
+// This writes the log of the luminance of the HDR image into a smaller texture
+// Then its mip levels are generated so that the last level (1x1) has the average log luminance (the log average is less affected by a few very bright pixels)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "common/color.glsl"
+
+uniform sampler2D hdr;
+
+void main(){
+    float lum = luminance(texture(hdr, v_screencoord).rgb);
+    color = vec4(log(max(lum, 1e-4f)), 0.0f, 0.0f, 1.0f);
+}
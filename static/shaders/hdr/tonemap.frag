@@ -0,0 +1,75 @@
+#version 300 es
+precision highp float;
+
+// This maps the HDR colors to the range [0, 1] that the screen can show
+// The operator is selected by one of the keywords: TONEMAP_NONE (just clip), TONEMAP_REINHARD, TONEMAP_ACES or TONEMAP_UNCHARTED2
+// If AUTO_EXPOSURE is defined, the exposure is computed from the adapted luminance so that the average luminance maps to the key value
+// If SRGB is defined, the output is encoded with the sRGB transfer function
+// The depth of the scene is copied too so that the frame buffer we draw to gets it (e.g. for the depth of field effect of the post processing stack)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "common/color.glsl"
+
+uniform sampler2D hdr;
+uniform sampler2D depth; // The depth of the scene (read with texelFetch since depth textures can't be filtered)
+uniform float exposure; // The exposure in stops (the color is multiplied by 2^exposure), with AUTO_EXPOSURE, it works as a compensation
+#ifdef AUTO_EXPOSURE
+uniform sampler2D adapted_luminance;
+uniform float key; // The value that the average luminance is mapped to (0.18 is middle grey)
+#endif
+#ifdef TONEMAP_REINHARD
+uniform float white_point; // The luminance that is mapped to white
+#endif
+
+// Reinhard's extended operator applied to the luminance (so the hue and saturation are kept)
+vec3 reinhard(vec3 color){
+    float l = luminance(color);
+    float mapped = l * (1.0f + l / (white_point * white_point)) / (1.0f + l);
+    return color * (mapped / max(l, 1e-4f));
+}
+
+// A fit of the ACES filmic curve by Krzysztof Narkowicz
+vec3 aces(vec3 x){
+    return clamp((x * (2.51f * x + 0.03f)) / (x * (2.43f * x + 0.59f) + 0.14f), 0.0f, 1.0f);
+}
+
+// The filmic curve by John Hable used in Uncharted 2
+vec3 hable(vec3 x){
+    const float A = 0.15f, B = 0.50f, C = 0.10f, D = 0.20f, E = 0.02f, F = 0.30f;
+    return ((x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F)) - E / F;
+}
+
+vec3 uncharted2(vec3 color){
+    const float W = 11.2f; // The linear white point
+    return hable(2.0f * color) / hable(vec3(W)); // (2 is the exposure bias used in the original)
+}
+
+void main(){
+    vec3 hdrColor = texture(hdr, v_screencoord).rgb;
+
+    float scale = exp2(exposure);
+#ifdef AUTO_EXPOSURE
+    scale *= key / texelFetch(adapted_luminance, ivec2(0), 0).r;
+#endif
+    hdrColor *= scale;
+
+#if defined(TONEMAP_REINHARD)
+    vec3 ldr = reinhard(hdrColor);
+#elif defined(TONEMAP_ACES)
+    vec3 ldr = aces(hdrColor);
+#elif defined(TONEMAP_UNCHARTED2)
+    vec3 ldr = uncharted2(hdrColor);
+#else
+    vec3 ldr = hdrColor;
+#endif
+    ldr = clamp(ldr, 0.0f, 1.0f);
+
+#ifdef SRGB
+    ldr = linearToSRGB(ldr);
+#endif
+    color = vec4(ldr, 1.0f);
+    gl_FragDepth = texelFetch(depth, ivec2(gl_FragCoord.xy), 0).r;
+}
@@ -0,0 +1,43 @@
+#version 300 es
+precision highp float;
+
+// This draws the BRDF lookup table of the split sum approximation
+// For a view angle (x = dot(n, v)) and a roughness (y), it stores the scale (red) and bias (green) applied to F0 to get the integral of the specular BRDF
+// So the specular reflection of the environment = prefiltered color * (F0 * scale + bias)
+// The number of samples (SAMPLES) is defined by EnvironmentMap
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "common/pbr.glsl"
+#include "ibl/sampling.glsl"
+
+void main(){
+    float NdotV = max(v_screencoord.x, 1e-3f);
+    float roughness = v_screencoord.y;
+    vec3 n = vec3(0.0f, 0.0f, 1.0f);
+    vec3 v = vec3(sqrt(1.0f - NdotV * NdotV), 0.0f, NdotV);
+
+    // For image based lighting, the geometry term uses k = a / 2 instead of the k used for direct lights
+    float a = roughness * roughness;
+    float k = a / 2.0f;
+
+    float scale = 0.0f, bias = 0.0f;
+    for(uint i = 0u; i < uint(SAMPLES); i++){
+        vec3 h = importanceSampleGGX(hammersley(i, uint(SAMPLES)), n, roughness);
+        vec3 l = normalize(2.0f * dot(v, h) * h - v);
+        float NdotL = max(l.z, 0.0f);
+        if(NdotL > 0.0f){
+            float NdotH = max(h.z, 0.0f);
+            float VdotH = max(dot(v, h), 0.0f);
+            float G = geometrySchlickGGX(NdotV, k) * geometrySchlickGGX(NdotL, k);
+            // The sample is weighted by BRDF * NdotL / pdf which simplifies to this (the distribution cancels out)
+            float visibility = G * VdotH / (NdotH * NdotV);
+            float fresnel = pow(1.0f - VdotH, 5.0f);
+            scale += (1.0f - fresnel) * visibility;
+            bias += fresnel * visibility;
+        }
+    }
+    color = vec4(scale / float(SAMPLES), bias / float(SAMPLES), 0.0f, 1.0f);
+}
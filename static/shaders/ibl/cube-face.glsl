@@ -0,0 +1,8 @@
+// Used to draw into the faces of a cube map with a full screen triangle (see common/fullscreen.vert)
+// The face matrix maps the screen coordinates in the range [-1, 1] (and 1 for the z) to a direction (see EnvironmentMap.CubeFaces)
+
+uniform mat3 face;
+
+vec3 cubeFaceDirection(vec2 screencoord){
+    return normalize(face * vec3(2.0f * screencoord - 1.0f, 1.0f));
+}
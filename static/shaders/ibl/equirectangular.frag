@@ -0,0 +1,20 @@
+#version 300 es
+precision highp float;
+
+// This draws a face of the environment cube map by reading the equirectangular image (a panorama where x is the longitude and y is the latitude)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "ibl/cube-face.glsl"
+
+uniform sampler2D equirectangular;
+
+const float PI = 3.14159265359f;
+
+void main(){
+    vec3 direction = cubeFaceDirection(v_screencoord);
+    vec2 uv = vec2(atan(direction.z, direction.x) / (2.0f * PI) + 0.5f, asin(clamp(direction.y, -1.0f, 1.0f)) / PI + 0.5f);
+    color = vec4(textureLod(equirectangular, uv, 0.0f).rgb, 1.0f);
+}
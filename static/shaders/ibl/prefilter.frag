@@ -0,0 +1,50 @@
+#version 300 es
+precision highp float;
+
+// This draws a face of a mip level of the prefiltered specular map
+// Each texel stores the environment convolved with the GGX lobe of the roughness of the mip level (the split sum approximation by Epic Games)
+// We assume that the view direction is the same as the normal (and the reflection direction) so the lobe only depends on the roughness
+// The number of samples (SAMPLES) is defined by EnvironmentMap
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "common/pbr.glsl"
+#include "ibl/cube-face.glsl"
+#include "ibl/sampling.glsl"
+
+uniform samplerCube environment;
+uniform float roughness;
+uniform float source_size; // The face size of the environment cube map (level 0)
+
+void main(){
+    vec3 n = cubeFaceDirection(v_screencoord);
+    vec3 v = n;
+
+    // A smooth surface reflects the environment as is
+    if(roughness <= 0.0f){
+        color = vec4(textureLod(environment, n, 0.0f).rgb, 1.0f);
+        return;
+    }
+
+    vec3 sum = vec3(0.0f);
+    float weight = 0.0f;
+    float texelSolidAngle = 4.0f * PI / (6.0f * source_size * source_size);
+    for(uint i = 0u; i < uint(SAMPLES); i++){
+        vec3 h = importanceSampleGGX(hammersley(i, uint(SAMPLES)), n, roughness);
+        vec3 l = normalize(2.0f * dot(v, h) * h - v);
+        float NdotL = dot(n, l);
+        if(NdotL > 0.0f){
+            // Each sample represents a solid angle that grows when the lobe is wider, so we read from a blurrier mip level of the environment to avoid bright dots
+            float NdotH = max(dot(n, h), 0.0f);
+            float HdotV = max(dot(h, v), 0.0f);
+            float pdf = distributionGGX(NdotH, roughness) * NdotH / (4.0f * HdotV) + 1e-4f;
+            float sampleSolidAngle = 1.0f / (float(SAMPLES) * pdf);
+            float lod = 0.5f * log2(sampleSolidAngle / texelSolidAngle) + 1.0f;
+            sum += textureLod(environment, l, max(lod, 0.0f)).rgb * NdotL;
+            weight += NdotL;
+        }
+    }
+    color = vec4(sum / max(weight, 1e-4f), 1.0f);
+}
@@ -0,0 +1,27 @@
+// The functions used to integrate the GGX lobe with importance sampling (see ibl/prefilter.frag and ibl/brdf.frag)
+
+// The Hammersley sequence gives well distributed 2D points which reduces the noise compared to random points
+// The second coordinate is the bits of i reversed (the Van der Corput sequence)
+vec2 hammersley(uint i, uint count){
+    uint bits = i;
+    bits = (bits << 16u) | (bits >> 16u);
+    bits = ((bits & 0x55555555u) << 1u) | ((bits & 0xAAAAAAAAu) >> 1u);
+    bits = ((bits & 0x33333333u) << 2u) | ((bits & 0xCCCCCCCCu) >> 2u);
+    bits = ((bits & 0x0F0F0F0Fu) << 4u) | ((bits & 0xF0F0F0F0u) >> 4u);
+    bits = ((bits & 0x00FF00FFu) << 8u) | ((bits & 0xFF00FF00u) >> 8u);
+    return vec2(float(i) / float(count), float(bits) * 2.3283064365386963e-10f); // divide by 2^32
+}
+
+// Returns a half vector around the normal n distributed like the GGX distribution (so more samples are taken where the lobe is larger)
+vec3 importanceSampleGGX(vec2 xi, vec3 n, float roughness){
+    float a = roughness * roughness; // (the same remapping as distributionGGX in common/pbr.glsl)
+    float phi = 2.0f * PI * xi.x;
+    float cosTheta = sqrt((1.0f - xi.y) / (1.0f + (a * a - 1.0f) * xi.y));
+    float sinTheta = sqrt(1.0f - cosTheta * cosTheta);
+    vec3 h = vec3(cos(phi) * sinTheta, sin(phi) * sinTheta, cosTheta);
+    // Go from the tangent space to the world space
+    vec3 up = abs(n.z) < 0.999f ? vec3(0.0f, 0.0f, 1.0f) : vec3(1.0f, 0.0f, 0.0f);
+    vec3 tangent = normalize(cross(up, n));
+    vec3 bitangent = cross(n, tangent);
+    return normalize(tangent * h.x + bitangent * h.y + n * h.z);
+}
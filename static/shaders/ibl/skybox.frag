@@ -0,0 +1,21 @@
+#version 300 es
+precision highp float;
+
+// Draws the environment behind the scene, the view direction of each pixel is found by unprojecting its position on the far plane
+
+in vec2 v_ndc;
+
+out vec4 color;
+
+#include "common/camera.glsl"
+#include "common/environment.glsl"
+
+uniform samplerCube skybox;
+uniform mat4 VP_inverse;
+uniform float lod; // Can be used to blur the background
+
+void main(){
+    vec4 world = VP_inverse * vec4(v_ndc, 1.0f, 1.0f);
+    vec3 direction = world.xyz / world.w - cam_position;
+    color = vec4(environment_intensity * textureLod(skybox, direction, lod).rgb, 1.0f);
+}
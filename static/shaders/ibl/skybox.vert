@@ -0,0 +1,11 @@
+#version 300 es
+
+// This draws a full screen triangle on the far plane (like common/fullscreen.vert but with a depth of 1)
+// Draw it after the opaque objects with the depth function LEQUAL so that it only covers the pixels where nothing was drawn
+
+out vec2 v_ndc; // The normalized device coordinates in the range [-1, 1]
+
+void main(){
+    v_ndc = vec2(float((gl_VertexID & 1) << 2) - 1.0f, float((gl_VertexID & 2) << 1) - 1.0f);
+    gl_Position = vec4(v_ndc, 1.0f, 1.0f);
+}
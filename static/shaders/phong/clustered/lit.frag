@@ -0,0 +1,71 @@
+#version 300 es
+precision highp float;
+precision highp int;
+
+// This shader draws all the lights in one pass (clustered forward shading)
+// The ambient and directional lights are regular uniforms and the point and spot lights are read from the clusters (see common/clustered-lights.glsl)
+// If HEATMAP is defined, the shader shows the number of lights in the cluster of each pixel instead (blue = no lights, red = HEATMAP_MAX or more)
+
+in vec2 v_texcoord;
+in vec3 v_world;
+in vec3 v_normal;
+in vec3 v_view;
+
+out vec4 color;
+
+#include "common/lighting.glsl"
+#include "common/material.glsl"
+#include "common/clustered-lights.glsl"
+
+#define HEATMAP_MAX 32.0f
+
+struct AmbientLight {
+    vec3 skyColor;
+    vec3 groundColor;
+    vec3 skyDirection;
+};
+
+struct DirectionalLight {
+    vec3 color;
+    vec3 direction;
+};
+
+uniform Material material;
+uniform AmbientLight ambient; // To disable a light, we set its colors to black
+uniform DirectionalLight directional;
+
+void main(){
+    uvec2 range = findCluster(v_world); // (offset, count)
+
+#ifdef HEATMAP
+    float heat = clamp(float(range.y) / HEATMAP_MAX, 0.0f, 1.0f);
+    color = vec4(heat < 0.5f ? mix(vec3(0, 0, 1), vec3(0, 1, 0), 2.0f * heat) : mix(vec3(0, 1, 0), vec3(1, 0, 0), 2.0f * heat - 1.0f), 1.0f);
+#else
+    SampledMaterial sampled = sampleMaterial(material, v_texcoord);
+
+    vec3 n = normalize(v_normal);
+    vec3 v = normalize(v_view);
+
+    vec3 result = sampled.emissive + sampled.albedo * sampled.ambient_occlusion * mix(ambient.groundColor, ambient.skyColor, 0.5f * dot(n, ambient.skyDirection) + 0.5f);
+
+    vec3 l = -directional.direction;
+    result += (sampled.albedo*diffuse(n, l) + sampled.specular*specular(n, l, v, sampled.shininess)) * directional.color;
+
+    for(uint i = 0u; i < range.y; i++){
+        ClusteredLight light = readClusteredLight(clusterLightIndex(range.x + i));
+        l = light.position - v_world;
+        float d = length(l);
+        if(d >= light.radius) continue; // The cluster is a box so some of its pixels can be outside the light sphere
+        l /= d;
+        float attenuation = 1.0f / dot(light.attenuation, vec3(d * d, d, 1.0f));
+        // Fade the light out near the edge of its sphere (the same as deferred/light.frag)
+        float falloff = clamp(1.0f - pow(d / light.radius, 4.0f), 0.0f, 1.0f);
+        attenuation *= falloff * falloff;
+        // For spot lights, the cone angles are stored as cosines so we compare the cosines instead of the angles
+        if(light.spot) attenuation *= smoothstep(light.cos_outer_cone, light.cos_inner_cone, dot(-l, light.direction));
+        result += (sampled.albedo*diffuse(n, l) + sampled.specular*specular(n, l, v, sampled.shininess)) * light.color * attenuation;
+    }
+
+    color = vec4(result, 1.0f);
+#endif
+}
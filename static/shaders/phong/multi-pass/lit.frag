@@ -0,0 +1,91 @@
+#version 300 es
+precision highp float;
+
+// This merges the fragment shaders in single-light into one shader that is compiled into a variant for each light type (see ShaderVariantCache)
+// The light type is selected by one of the keywords: LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT
+
+#ifndef LIGHT_DIRECTIONAL
+in vec3 v_world;
+#endif
+in vec3 v_normal;
+in vec3 v_view;
+
+out vec4 color;
+
+struct Material {
+    vec3 diffuse;
+    vec3 specular;
+    vec3 ambient;
+    float shininess;
+};
+uniform Material material;
+
+#if defined(LIGHT_DIRECTIONAL)
+struct DirectionalLight {
+    vec3 diffuse;
+    vec3 specular;
+    vec3 ambient;
+    vec3 direction;
+};
+uniform DirectionalLight light;
+#elif defined(LIGHT_POINT)
+struct PointLight {
+    vec3 diffuse;
+    vec3 specular;
+    vec3 ambient;
+    vec3 position;
+    float attenuation_quadratic;
+    float attenuation_linear;
+    float attenuation_constant;
+};
+uniform PointLight light;
+#elif defined(LIGHT_SPOT)
+struct SpotLight {
+    vec3 diffuse;
+    vec3 specular;
+    vec3 ambient;
+    vec3 position;
+    vec3 direction;
+    float attenuation_quadratic;
+    float attenuation_linear;
+    float attenuation_constant;
+    float inner_cone;
+    float outer_cone;
+};
+uniform SpotLight light;
+#else
+#error The light type is not defined (use one of the keywords LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT)
+#endif
+
+#include "common/lighting.glsl"
+
+void main(){
+    vec3 n = normalize(v_normal);
+    vec3 v = normalize(v_view);
+#if defined(LIGHT_DIRECTIONAL)
+    vec3 l = -light.direction; // For directional lights, the light vector is the inverse of the light direction
+    float attenuation = 1.0f; // and they don't get dimmer with distance
+#else
+    vec3 l = light.position - v_world; // Here we need to calculate the light vector
+    float d = length(l); // Get the distance between the light and the pixel
+    l /= d; // Normalize the light vector
+    // The attenuation is how much we dim the light as it gets farther
+    // Naturally, it should be d^2 but we allow for more artistic control
+    float attenuation = 1.0f / (light.attenuation_constant +
+                                light.attenuation_linear * d +
+                                light.attenuation_quadratic * d * d);
+#if defined(LIGHT_SPOT)
+    float angle = acos(dot(-l, light.direction)); // For spot lights, we need to know the angle between the light direction and light vector to get the angular attenuation
+    attenuation *= smoothstep(light.outer_cone, light.inner_cone, angle); // We use the smoothstep function to get a nice gradient between the inner and out cone
+#endif
+#endif
+    color = vec4(
+        material.ambient*light.ambient + 
+        (
+            material.diffuse*light.diffuse*diffuse(n, l) + 
+            material.specular*light.specular*specular(n, l, v, material.shininess)
+        )*attenuation,
+        1.0f
+    );
+    //Notice that Attenuation only affects diffuse and specular term
+}
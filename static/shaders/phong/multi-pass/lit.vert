@@ -0,0 +1,27 @@
+#version 300 es
+layout(location=0) in vec3 position;
+layout(location=3) in vec3 normal;
+
+// This is the same as the vertex shaders in single-light but it is compiled into a variant for each light type (see ShaderVariantCache)
+// The world position is only needed by the lights that have a position (LIGHT_POINT and LIGHT_SPOT)
+
+#ifndef LIGHT_DIRECTIONAL
+out vec3 v_world;
+#endif
+out vec3 v_normal;
+out vec3 v_view;
+
+uniform mat4 M;
+uniform mat4 M_it;
+uniform mat4 VP;
+uniform vec3 cam_position;
+
+void main(){
+    vec4 world = M * vec4(position, 1.0f);
+    gl_Position = VP * world; 
+#ifndef LIGHT_DIRECTIONAL
+    v_world = world.xyz;
+#endif
+    v_normal = (M_it * vec4(normal, 0.0f)).xyz;
+    v_view = cam_position - world.xyz;
+}
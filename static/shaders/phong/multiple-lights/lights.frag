@@ -22,8 +22,7 @@ struct DirectionalLight {
     vec3 ambient;
     vec3 direction;
 };
-// We allow for only 1 directional light (we could support more but with more cost)
-#define NUM_DIRECTIONAL_LIGHTS 1
+// The number of directional lights (NUM_DIRECTIONAL_LIGHTS) is defined by the scene (we could support more but with more cost)
 uniform DirectionalLight directional_lights[NUM_DIRECTIONAL_LIGHTS];
 
 struct PointLight {
@@ -36,8 +35,7 @@ struct PointLight {
     float attenuation_linear;
     float attenuation_constant;
 };
-// We allow for only 4 point lights (we could support also less or more)
-#define NUM_POINT_LIGHTS 4
+// The number of point lights (NUM_POINT_LIGHTS) is defined by the scene
 uniform PointLight point_lights[NUM_POINT_LIGHTS];
 
 struct SpotLight {
@@ -53,8 +51,7 @@ struct SpotLight {
     float inner_cone;
     float outer_cone;
 };
-// We allow for only 4 spot lights (we could support also less or more)
-#define NUM_SPOT_LIGHTS 4
+// The number of spot lights (NUM_SPOT_LIGHTS) is defined by the scene
 uniform SpotLight spot_lights[NUM_SPOT_LIGHTS];
 
 out vec4 color;
@@ -3,23 +3,36 @@ layout(location=0) in vec3 position;
 layout(location=2) in vec2 texcoord;
 layout(location=3) in vec3 normal;
 
-// This is exactly the same as the one in textured-materials
+// This is the same as the one in textured-materials except that the camera data is read from a uniform block
+// If INSTANCED is defined, the mesh is drawn once for each instance and the matrix and tint of each instance are read from attributes (see common/instancing.glsl)
 
 out vec2 v_texcoord;
 out vec3 v_world;
 out vec3 v_normal;
 out vec3 v_view;
+#ifdef INSTANCED
+out vec3 v_tint;
+#endif
 
 uniform mat4 M;
 uniform mat4 M_it;
-uniform mat4 VP;
-uniform vec3 cam_position;
+
+#include "common/camera.glsl"
+#ifdef INSTANCED
+#include "common/instancing.glsl"
+#endif
 
 void main(){
+#ifdef INSTANCED
+    vec4 world = instanceModel(M) * vec4(position, 1.0f);
+    v_normal = (M_it * vec4(instanceNormal(normal), 0.0f)).xyz;
+    v_tint = instance_tint;
+#else
     vec4 world = M * vec4(position, 1.0f);
+    v_normal = (M_it * vec4(normal, 0.0f)).xyz;
+#endif
     gl_Position = VP * world;
     v_texcoord = texcoord; 
     v_world = world.xyz;
-    v_normal = (M_it * vec4(normal, 0.0f)).xyz;
     v_view = cam_position - world.xyz;
 }
\ No newline at end of file
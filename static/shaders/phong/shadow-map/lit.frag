@@ -0,0 +1,296 @@
+#version 300 es
+precision highp float;
+precision highp sampler2DShadow; // The precision of the shadow map sampler
+
+// This shader is compiled into a variant for each light type (see ShaderVariantCache)
+// The light type is selected by one of the keywords: LIGHT_AMBIENT, LIGHT_ENVIRONMENT, LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT
+// The environment light reads its own block and textures (see common/environment.glsl)
+// If SHADOW is defined, the light casts shadows and the shadows are filtered by one of the SHADOW_FILTER keywords (see common/shadow-filtering.glsl)
+// If SHADOW_ATLAS is also defined, the shadow maps of the light are tiles of the shadow atlas (see ShadowAtlas) and their UV rectangles are in shadow_tiles
+// If SSAO is defined, the ambient passes are multiplied by the screen space ambient occlusion (see common/ssao.glsl)
+// The material model is selected by MATERIAL_PHONG (the default) or MATERIAL_PBR (metallic/roughness Cook-Torrance, see common/pbr.glsl)
+// The maximum number of cascades (MAX_CASCADES) is defined by the scene (see ShadowMappingScene.MAX_CASCADES)
+// If CASCADE_DEBUG is defined, the directional light is tinted by the color of the cascade that shadows each pixel (see common/cascade-colors.glsl)
+// If INSTANCED is defined, the albedo is multiplied by the tint of the instance (see common/instancing.glsl)
+// The light data is read from a uniform block (each light has its own buffer, see ShadowMappingScene.LightSchemas)
+// The shadow matrices and filter settings are always in the block (even without SHADOW) so that the block layout of a light doesn't change when its shadows are toggled
+// Samplers can't be stored in uniform blocks so the shadow maps are regular uniforms
+
+in vec2 v_texcoord;
+in vec3 v_world;
+in vec3 v_normal;
+in vec3 v_view;
+#ifdef INSTANCED
+in vec3 v_tint;
+#endif
+
+out vec4 color;
+
+#include "common/lighting.glsl"
+#include "common/material.glsl"
+#include "common/ssao.glsl"
+#ifdef MATERIAL_PBR
+#include "common/pbr.glsl"
+#endif
+#ifdef SHADOW
+#if defined(LIGHT_POINT) || defined(LIGHT_SPOT)
+#define SHADOW_PERSPECTIVE // The shadow maps of point and spot lights use perspective projections
+#endif
+#if defined(LIGHT_POINT) && !defined(SHADOW_ATLAS)
+#define SHADOW_CUBE // The moments of point lights are stored in a cube map (their depth shadow maps are 6 tiles of the atlas)
+#endif
+#include "common/shadow-filtering.glsl"
+#endif
+#ifdef CASCADE_DEBUG
+#include "common/cascade-colors.glsl"
+#endif
+
+uniform Material material;
+
+#if defined(LIGHT_AMBIENT)
+// We don't support ambient light shadowing
+layout(std140) uniform Light {
+    vec3 skyColor;
+    vec3 groundColor;
+    vec3 skyDirection;
+} light;
+#elif defined(LIGHT_ENVIRONMENT)
+// Like the ambient light, the environment light has no shadows
+#include "common/environment.glsl"
+#elif defined(LIGHT_DIRECTIONAL)
+layout(std140) uniform Light {
+    vec3 color;
+    vec3 direction;
+    mat4 shadowVPs[MAX_CASCADES];
+    vec4 shadow_tiles[MAX_CASCADES]; // The UV rectangle of each cascade in the shadow atlas
+    float cascades[MAX_CASCADES]; // The far distance of each cascade along the view direction of the camera
+    int active_cascades; // The number of active cascades
+    vec3 view_direction; // The normalized direction of the camera (the cascades split the view depth along it)
+    float cascade_blend; // The fraction at the end of each cascade where it is blended with the next cascade
+    float shadow_filter_radius; // The shadow filter settings (see ShadowFilterSettings in common/shadow-filtering.glsl, the light size is the tangent of its angular radius)
+    int shadow_samples;
+    float shadow_light_size;
+    vec2 shadow_depth_range;
+    float shadow_bleed_reduction;
+    vec2 shadow_exponents;
+} light;
+#define SHADOW_MAP_COUNT MAX_CASCADES
+#elif defined(LIGHT_POINT)
+layout(std140) uniform Light {
+    vec3 color;
+    vec3 position;
+    float attenuation_quadratic;
+    float attenuation_linear;
+    float attenuation_constant;
+    mat4 shadowVPs[6]; // The view projection matrix of each cube face (only used when the faces are tiles of the shadow atlas)
+    vec4 shadow_tiles[6]; // The UV rectangle of each cube face in the shadow atlas
+    float shadow_filter_radius; // The shadow filter settings (see ShadowFilterSettings in common/shadow-filtering.glsl)
+    int shadow_samples;
+    float shadow_light_size;
+    vec2 shadow_depth_range;
+    float shadow_bleed_reduction;
+    vec2 shadow_exponents;
+} light;
+#define SHADOW_MAP_COUNT 1 // The cube map stores the distance of the nearest object in each direction (we still use an array to be consistent with other light types)
+#elif defined(LIGHT_SPOT)
+layout(std140) uniform Light {
+    vec3 color;
+    vec3 position;
+    vec3 direction;
+    float attenuation_quadratic;
+    float attenuation_linear;
+    float attenuation_constant;
+    float inner_cone;
+    float outer_cone;
+    mat4 shadowVPs[1];
+    vec4 shadow_tiles[1];
+    float shadow_filter_radius; // The shadow filter settings (see ShadowFilterSettings in common/shadow-filtering.glsl)
+    int shadow_samples;
+    float shadow_light_size;
+    vec2 shadow_depth_range;
+    float shadow_bleed_reduction;
+    vec2 shadow_exponents;
+} light;
+#define SHADOW_MAP_COUNT 1
+#else
+#error The light type is not defined (use one of the keywords LIGHT_AMBIENT, LIGHT_ENVIRONMENT, LIGHT_DIRECTIONAL, LIGHT_POINT or LIGHT_SPOT)
+#endif
+
+#ifdef SHADOW
+#ifdef SHADOW_ATLAS
+uniform ShadowMap shadowAtlas; // Every shadow map of the light is a tile of the atlas
+#define SHADOW_MAP(i) shadowAtlas
+#else
+uniform ShadowMap shadowMaps[SHADOW_MAP_COUNT];
+#define SHADOW_MAP(i) shadowMaps[i]
+#endif
+#endif
+
+#include "common/camera.glsl"
+
+#if defined(LIGHT_DIRECTIONAL) && (defined(SHADOW) || defined(CASCADE_DEBUG))
+// Finds the cascade that covers the pixel (-1 if the pixel is beyond the last cascade)
+// The blend is the weight of the next cascade which goes from 0 to 1 over the blend region at the end of the cascade (the last cascade fades out into no shadow)
+void selectCascade(out int cascade, out float blend){
+    int cascade_count = min(light.active_cascades, MAX_CASCADES); // Make sure we don't loop beyond the array size even if the input is incorrect
+    float depth = dot(v_world - cam_position, light.view_direction);
+    cascade = -1;
+    blend = 0.0f;
+    float start = 0.0f;
+    for(int i = 0; i < cascade_count; i++){ // for each cascade
+        if(depth <= light.cascades[i]){ // if we are within the cascade range
+            cascade = i;
+            float blend_start = mix(light.cascades[i], start, light.cascade_blend);
+            blend = clamp((depth - blend_start) / max(light.cascades[i] - blend_start, 1e-5f), 0.0f, 1.0f);
+            return;
+        }
+        start = light.cascades[i];
+    }
+}
+#endif
+
+#if defined(LIGHT_DIRECTIONAL) && defined(CASCADE_DEBUG)
+// The tint of the cascade that covers the pixel (blended like the shadows, and white beyond the last cascade)
+vec3 cascadeTint(){
+    int cascade;
+    float blend;
+    selectCascade(cascade, blend);
+    if(cascade < 0) return vec3(1.0f);
+    vec3 next = cascade + 1 < min(light.active_cascades, MAX_CASCADES) ? cascadeColor(cascade + 1) : vec3(1.0f);
+    return mix(cascadeColor(cascade), next, blend);
+}
+#endif
+
+#if defined(SHADOW) && !defined(LIGHT_AMBIENT) && !defined(LIGHT_ENVIRONMENT)
+// Returns 1 if the pixel is in the light and 0 if it is in the shadow (values in between are possible due to filtering)
+float computeShadow(){
+    ShadowFilterSettings settings = ShadowFilterSettings(light.shadow_filter_radius, light.shadow_samples, light.shadow_light_size, light.shadow_depth_range, light.shadow_bleed_reduction, light.shadow_exponents, vec4(0.0f, 0.0f, 1.0f, 1.0f));
+    float shadow = 1.0f;
+#if defined(LIGHT_DIRECTIONAL)
+    int cascade;
+    float blend;
+    selectCascade(cascade, blend);
+    if(cascade < 0) return 1.0f; // Beyond the last cascade, there is no shadow
+    int cascade_count = min(light.active_cascades, MAX_CASCADES);
+    // Near the end of a cascade, we also sample the next cascade and blend them to hide the seam where the shadow resolution changes
+    // (we loop over the cascades instead of indexing with "cascade" since the sampler array should be indexed by the loop)
+    shadow = cascade == cascade_count - 1 ? blend : 0.0f; // The last cascade fades out into no shadow
+    for(int i = 0; i < cascade_count; i++){ // for each cascade
+        float weight = i == cascade ? 1.0f - blend : (i == cascade + 1 ? blend : 0.0f);
+        if(weight == 0.0f) continue;
+        vec4 shadowCoord = light.shadowVPs[i] * vec4(v_world, 1.0f); // We calculate the shadow coordinates
+        shadowCoord /= shadowCoord.w; // Go from Homogenous clip space to Normalized device coordinates
+        shadowCoord = 0.5f * shadowCoord + 0.5f; // change range from [-1, 1] to [0, 1]
+        // The first row of the orthographic matrix is scaled by 2 / the width of the cascade so this is the size of the light (the tangent of its angular radius) in the UVs of this cascade
+        settings.light_size = light.shadow_light_size * length(vec3(light.shadowVPs[i][0][0], light.shadowVPs[i][1][0], light.shadowVPs[i][2][0])) / 2.0f;
+#ifdef SHADOW_ATLAS
+        settings.tile = light.shadow_tiles[i];
+#endif
+        shadow += weight * sampleShadow(SHADOW_MAP(i), shadowCoord.xyz, settings); // Sample the shadow map (the z of the coordinate is the depth we compare to)
+    }
+#elif defined(LIGHT_POINT) && defined(SHADOW_ATLAS)
+    // Each face of the cube is a perspective shadow map in the atlas so we pick the face from the major axis of the direction from the light (in the order +x, -x, +y, -y, +z, -z)
+    vec3 fromLight = v_world - light.position;
+    vec3 axis = abs(fromLight);
+    int face = axis.x >= axis.y && axis.x >= axis.z ? (fromLight.x > 0.0f ? 0 : 1) : (axis.y >= axis.z ? (fromLight.y > 0.0f ? 2 : 3) : (fromLight.z > 0.0f ? 4 : 5));
+    vec4 shadowCoord = light.shadowVPs[face] * vec4(v_world, 1.0f);
+    shadowCoord /= shadowCoord.w;
+    shadowCoord = 0.5f * shadowCoord + 0.5f;
+    settings.tile = light.shadow_tiles[face];
+    if(shadowCoord.z < 1.0f) shadow = sampleShadow(shadowAtlas, shadowCoord.xyz, settings); // (beyond the far, nothing is stored so we are lit)
+#elif defined(LIGHT_POINT)
+    // The cube map is read with the direction from the light (the hardware picks the face) and stores the distance divided by the far
+    // So we compare it to our distance from the light (beyond the far, nothing is stored so we are lit)
+    vec3 fromLight = v_world - light.position;
+    float depth = length(fromLight) / light.shadow_depth_range.y;
+    if(depth < 1.0f) shadow = sampleShadow(SHADOW_MAP(0), vec4(fromLight, depth), settings);
+#elif defined(LIGHT_SPOT)
+    vec4 shadowCoord = light.shadowVPs[0] * vec4(v_world, 1.0f); // We calculate the shadow coordinates
+    shadowCoord /= shadowCoord.w; // Go from Homogenous clip space to Normalized device coordinates
+    shadowCoord = 0.5f * shadowCoord + 0.5f; // change range from [-1, 1] to [0, 1]
+#ifdef SHADOW_ATLAS
+    settings.tile = light.shadow_tiles[0];
+#endif
+    shadow = sampleShadow(SHADOW_MAP(0), shadowCoord.xyz, settings); // Sample the shadow map (the z of the coordinate is the depth we compare to)
+#endif
+    return shadow;
+}
+#endif
+
+void main(){
+    SampledMaterial sampled = sampleMaterial(material, v_texcoord);
+#ifdef INSTANCED
+    sampled.albedo *= v_tint;
+#endif
+
+    vec3 n = normalize(v_normal);
+    vec3 v = normalize(v_view);
+
+#ifdef MATERIAL_PBR
+    Surface surface = pbrSurface(sampled.albedo, sampled.specular, sampled.roughness, sampleMetallic(material, v_texcoord));
+#endif
+
+#if defined(LIGHT_AMBIENT) || defined(LIGHT_ENVIRONMENT)
+    // The emissive is added by the ambient passes (so a scene should use either an ambient or an environment light)
+#if defined(LIGHT_AMBIENT)
+    vec3 irradiance = mix(light.groundColor, light.skyColor , 0.5f * dot(n, light.skyDirection) + 0.5f);
+#else
+    vec3 irradiance = environmentIrradiance(n);
+#endif
+#if defined(MATERIAL_PBR) && defined(LIGHT_ENVIRONMENT)
+    // The environment has a reflection for each direction so we can replace the fresnel-only specular of pbrAmbient with the prefiltered reflection
+    vec3 F = fresnelSchlickRoughness(max(dot(n, v), 0.0f), surface.F0, surface.roughness);
+    vec3 ambient = (1.0f - F) * (1.0f - surface.metallic) * surface.albedo * irradiance + environmentSpecular(n, v, surface.F0, surface.roughness);
+#elif defined(MATERIAL_PBR)
+    vec3 ambient = pbrAmbient(n, v, surface, irradiance);
+#elif defined(LIGHT_ENVIRONMENT)
+    // The phong model has no split sum so we just reflect the environment blurred by the roughness and tinted by the specular
+    vec3 ambient = sampled.albedo * irradiance + sampled.specular * environmentRadiance(reflect(-v, n), sampled.roughness);
+#else
+    vec3 ambient = sampled.albedo * irradiance;
+#endif
+    color = vec4(
+        sampled.emissive +
+        sampled.ambient_occlusion * screenSpaceOcclusion() * ambient,
+        1.0f
+    );
+#else
+#if defined(LIGHT_DIRECTIONAL)
+    vec3 l = -light.direction;
+    float attenuation = 1.0f;
+#else
+    vec3 l = light.position - v_world;
+    float d = length(l);
+    l /= d;
+    float attenuation = 1.0f / (light.attenuation_constant +
+                                light.attenuation_linear * d +
+                                light.attenuation_quadratic * d * d);
+#if defined(LIGHT_SPOT)
+    float angle = acos(dot(-l, light.direction));
+    attenuation *= smoothstep(light.outer_cone, light.inner_cone, angle);
+#endif
+#endif
+
+#ifdef SHADOW
+    float shadow = computeShadow(); // If shadow is 1, we are in the light, otherwise, we are in the shadow
+#else
+    float shadow = 1.0f;
+#endif
+
+#ifdef MATERIAL_PBR
+    vec3 reflected = cookTorrance(n, l, v, surface);
+#else
+    vec3 reflected = sampled.albedo*diffuse(n, l) + sampled.specular*specular(n, l, v, sampled.shininess);
+#endif
+
+#if defined(LIGHT_DIRECTIONAL) && defined(CASCADE_DEBUG)
+    reflected *= cascadeTint();
+#endif
+
+    color = vec4(
+        reflected * shadow * light.color * attenuation, // multiply shadow factor with light
+        1.0f
+    );
+    //Notice that Attenuation only affects diffuse and specular term
+#endif
+}
@@ -2,5 +2,37 @@
 precision highp float;
 
 // To build the shadow map, we only need the depth so we do not output any color
+// Except for variance shadow maps (MOMENTS_VSM or MOMENTS_EVSM) which also store the moments of the depth in a color texture (see common/shadow-moments.glsl)
+// Cube shadow maps (SHADOW_CUBE) store the distance from the light divided by the far instead of the depth of the projection
+// Since the distance doesn't depend on the cube face, a direction can be compared to its distance without knowing which face it belongs to
 
-void main(){}
\ No newline at end of file
+#if defined(MOMENTS_VSM) || defined(MOMENTS_EVSM)
+#include "common/shadow-moments.glsl"
+
+out vec4 moments;
+
+uniform vec2 exponents; // The EVSM warp exponents
+#endif
+
+uniform vec2 depth_range; // The near and far of the light projection
+
+#ifdef SHADOW_CUBE
+#define DEPTH_BIAS_UNIT 0.00001f // The constant bias is multiplied by this (it plays the role of the units of polygonOffset)
+
+in vec3 v_world;
+
+uniform vec3 light_position;
+uniform vec2 depth_bias; // The constant and slope scaled bias (polygonOffset doesn't apply to the depth written by the shader so we add it ourselves)
+#endif
+
+void main(){
+    float depth = gl_FragCoord.z;
+#ifdef SHADOW_CUBE
+    depth = distance(v_world, light_position) / depth_range.y;
+    depth += depth_bias.x * DEPTH_BIAS_UNIT + depth_bias.y * max(abs(dFdx(depth)), abs(dFdy(depth)));
+    gl_FragDepth = depth;
+#endif
+#if defined(MOMENTS_VSM) || defined(MOMENTS_EVSM)
+    moments = computeMoments(momentsDepth(depth, depth_range), exponents);
+#endif
+}
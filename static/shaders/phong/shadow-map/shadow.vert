@@ -2,10 +2,28 @@
 layout(location=0) in vec3 position;
 
 // To build the shadow map, we only need the depth so the vertex position is the only thing we need
+// Except for cube shadow maps (SHADOW_CUBE) which store the distance from the light so they also need the world position
+// Instanced meshes (INSTANCED) also read the matrix of each instance (see common/instancing.glsl)
 
 uniform mat4 M;
 uniform mat4 VP;
 
+#ifdef INSTANCED
+#include "common/instancing.glsl"
+#endif
+
+#ifdef SHADOW_CUBE
+out vec3 v_world;
+#endif
+
 void main(){
-    gl_Position = VP * M * vec4(position, 1.0f);;
-}
\ No newline at end of file
+#ifdef INSTANCED
+    vec4 world = instanceModel(M) * vec4(position, 1.0f);
+#else
+    vec4 world = M * vec4(position, 1.0f);
+#endif
+#ifdef SHADOW_CUBE
+    v_world = world.xyz;
+#endif
+    gl_Position = VP * world;
+}
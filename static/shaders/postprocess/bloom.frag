@@ -0,0 +1,70 @@
+#version 300 es
+precision highp float;
+
+// The passes of the bloom effect, selected by one of the keywords:
+// PASS_DOWNSAMPLE: averages a 4x4 block of the source (4 bilinear samples) into one pixel of the next level. With PREFILTER, only the colors above the threshold are kept
+// PASS_UPSAMPLE: blurs a level with a 3x3 tent filter while upsampling it (the result is added to the bigger level using additive blending)
+// PASS_COMPOSITE: adds the glow (the first level upsampled) to the original image
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D source;
+uniform vec2 texel_size; // The size of a texel of the image we are filtering (the source for the downsample and the bloom level otherwise)
+
+#ifdef PREFILTER
+uniform float threshold;
+uniform float knee;
+
+// A soft threshold: the colors fade in quadratically between (threshold - knee) and (threshold + knee)
+vec3 prefilter(vec3 c){
+    float brightness = max(c.r, max(c.g, c.b));
+    float soft = clamp(brightness - threshold + knee, 0.0f, 2.0f * knee);
+    soft = soft * soft / (4.0f * knee);
+    float contribution = max(soft, brightness - threshold) / max(brightness, 1e-4f);
+    return c * contribution;
+}
+#endif
+
+#if defined(PASS_UPSAMPLE) || defined(PASS_COMPOSITE)
+uniform float radius;
+
+vec3 tent(sampler2D image, vec2 uv){
+    vec4 d = texel_size.xyxy * vec4(1.0f, 1.0f, -1.0f, 0.0f) * radius;
+    vec3 sum = texture(image, uv - d.xy).rgb;
+    sum += texture(image, uv - d.wy).rgb * 2.0f;
+    sum += texture(image, uv - d.zy).rgb;
+    sum += texture(image, uv + d.zw).rgb * 2.0f;
+    sum += texture(image, uv).rgb * 4.0f;
+    sum += texture(image, uv + d.xw).rgb * 2.0f;
+    sum += texture(image, uv + d.zy).rgb;
+    sum += texture(image, uv + d.wy).rgb * 2.0f;
+    sum += texture(image, uv + d.xy).rgb;
+    return sum / 16.0f;
+}
+#endif
+
+#ifdef PASS_COMPOSITE
+uniform sampler2D bloom;
+uniform float intensity;
+#endif
+
+void main(){
+#if defined(PASS_DOWNSAMPLE)
+    vec3 c = texture(source, v_screencoord + texel_size * vec2(-1.0f, -1.0f)).rgb;
+    c += texture(source, v_screencoord + texel_size * vec2(1.0f, -1.0f)).rgb;
+    c += texture(source, v_screencoord + texel_size * vec2(-1.0f, 1.0f)).rgb;
+    c += texture(source, v_screencoord + texel_size * vec2(1.0f, 1.0f)).rgb;
+    c *= 0.25f;
+#ifdef PREFILTER
+    c = prefilter(c);
+#endif
+    color = vec4(c, 1.0f);
+#elif defined(PASS_UPSAMPLE)
+    color = vec4(tent(source, v_screencoord), 1.0f);
+#elif defined(PASS_COMPOSITE)
+    vec3 glow = tent(bloom, v_screencoord);
+    color = vec4(texture(source, v_screencoord).rgb + intensity * glow, 1.0f);
+#endif
+}
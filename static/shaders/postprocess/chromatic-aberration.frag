@@ -0,0 +1,21 @@
+#version 300 es
+precision highp float;
+
+// This shifts the red and blue channels in opposite directions away from the center
+// The shift grows with the squared distance from the center, so the middle of the image stays sharp
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D source;
+uniform float intensity; // The shift at the corners (as a fraction of the screen size)
+
+void main(){
+    vec2 direction = v_screencoord - 0.5f;
+    vec2 offset = direction * dot(direction, direction) * 2.0f * intensity; // (the squared distance is 0.5 at the corners)
+    float r = texture(source, v_screencoord + offset).r;
+    float g = texture(source, v_screencoord).g;
+    float b = texture(source, v_screencoord - offset).b;
+    color = vec4(r, g, b, 1.0f);
+}
@@ -0,0 +1,22 @@
+#version 300 es
+precision highp float;
+precision highp sampler3D; // (sampler3D has no default precision)
+
+// This replaces each color with its graded version from a 3D lookup table (the texel at (r, g, b) stores the graded color of (r, g, b))
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D source;
+uniform sampler3D lut;
+uniform float lut_size; // The number of texels along each axis of the table
+uniform float intensity; // Blends between the original (0) and the graded colors (1)
+
+void main(){
+    vec3 c = clamp(texture(source, v_screencoord).rgb, 0.0f, 1.0f);
+    // The centers of the first and last texels store the colors 0 and 1, so we remap the color to the range between them
+    vec3 coord = c * ((lut_size - 1.0f) / lut_size) + 0.5f / lut_size;
+    vec3 graded = texture(lut, coord).rgb;
+    color = vec4(mix(c, graded, intensity), 1.0f);
+}
@@ -0,0 +1,14 @@
+#version 300 es
+precision highp float;
+
+// This draws the source image as is (used when none of the enabled effects can run)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D source;
+
+void main(){
+    color = vec4(texture(source, v_screencoord).rgb, 1.0f);
+}
@@ -0,0 +1,64 @@
+#version 300 es
+precision highp float;
+
+// A single pass depth of field (based on "Bokeh depth of field in a single pass" by Dennis Gustafsson)
+// Each pixel gathers SAMPLES samples placed on a spiral (using the golden angle so they cover the disc evenly)
+// A sample contributes if its own circle of confusion is big enough to reach the pixel, and samples behind the pixel can't be blurrier than the pixel
+// so that the blurry background doesn't leak over the sharp objects in front of it
+// If ORTHOGRAPHIC is defined, the depth is linear (otherwise it is converted from a perspective depth)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D source;
+uniform sampler2D depth;
+uniform vec2 texel_size;
+uniform float near;
+uniform float far;
+uniform float focus_distance; // The distance to the plane in focus
+uniform float focus_range; // The distance from the focus plane at which the blur reaches its maximum
+uniform float max_radius; // The maximum blur radius in pixels
+
+#ifndef SAMPLES
+#define SAMPLES 48
+#endif
+
+const float GOLDEN_ANGLE = 2.39996323f;
+
+// Converts the depth buffer value to the distance along the view direction
+float linearDepth(float d){
+#ifdef ORTHOGRAPHIC
+    return near + d * (far - near);
+#else
+    float z = 2.0f * d - 1.0f;
+    return 2.0f * near * far / (far + near - z * (far - near));
+#endif
+}
+
+// The blur radius (in pixels) of an object at the given distance
+float circleOfConfusion(float z){
+    return clamp(abs(z - focus_distance) / focus_range, 0.0f, 1.0f) * max_radius;
+}
+
+void main(){
+    float centerDepth = linearDepth(texture(depth, v_screencoord).r);
+    float centerRadius = circleOfConfusion(centerDepth);
+
+    vec3 sum = texture(source, v_screencoord).rgb;
+    float total = 1.0f;
+    for(int i = 1; i < SAMPLES; i++){
+        float r = sqrt(float(i) / float(SAMPLES)) * max_radius; // The square root spreads the samples evenly over the area of the disc
+        float theta = float(i) * GOLDEN_ANGLE;
+        vec2 uv = v_screencoord + r * vec2(cos(theta), sin(theta)) * texel_size;
+
+        float sampleDepth = linearDepth(texture(depth, uv).r);
+        float sampleRadius = circleOfConfusion(sampleDepth);
+        if(sampleDepth > centerDepth) sampleRadius = min(sampleRadius, 2.0f * centerRadius);
+        float weight = smoothstep(r - 0.5f, r + 0.5f, sampleRadius);
+
+        sum += texture(source, uv).rgb * weight;
+        total += weight;
+    }
+    color = vec4(sum / total, 1.0f);
+}
@@ -0,0 +1,54 @@
+#version 300 es
+precision highp float;
+
+// FXAA (Fast Approximate Anti-Aliasing) by Timothy Lottes (this is the simple version which samples a 2x2 neighborhood)
+// The luminance gradient of the neighbors gives us the direction of the edge, then we blur along the edge (not across it)
+// We take two blurs: a short one and a longer one, and we use the longer one unless it went past the end of the edge (its luminance is outside the range of the neighbors)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+#include "common/color.glsl"
+
+uniform sampler2D source;
+uniform vec2 texel_size;
+uniform float span_max; // The maximum blur length in pixels
+uniform float reduce_mul; // Shortens the blur in bright areas
+uniform float reduce_min; // The minimum reduction
+
+void main(){
+    vec2 uv = v_screencoord;
+    vec3 rgbNW = texture(source, uv + vec2(-1.0f, -1.0f) * texel_size).rgb;
+    vec3 rgbNE = texture(source, uv + vec2(1.0f, -1.0f) * texel_size).rgb;
+    vec3 rgbSW = texture(source, uv + vec2(-1.0f, 1.0f) * texel_size).rgb;
+    vec3 rgbSE = texture(source, uv + vec2(1.0f, 1.0f) * texel_size).rgb;
+    vec3 rgbM = texture(source, uv).rgb;
+
+    float lumaNW = luminance(rgbNW);
+    float lumaNE = luminance(rgbNE);
+    float lumaSW = luminance(rgbSW);
+    float lumaSE = luminance(rgbSE);
+    float lumaM = luminance(rgbM);
+    float lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+    float lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+
+    // The direction along the edge is perpendicular to the luminance gradient
+    vec2 direction = vec2(
+        -((lumaNW + lumaNE) - (lumaSW + lumaSE)),
+        ((lumaNW + lumaSW) - (lumaNE + lumaSE))
+    );
+    float reduce = max((lumaNW + lumaNE + lumaSW + lumaSE) * (0.25f * reduce_mul), reduce_min);
+    float scale = 1.0f / (min(abs(direction.x), abs(direction.y)) + reduce);
+    direction = clamp(direction * scale, vec2(-span_max), vec2(span_max)) * texel_size;
+
+    vec3 rgbA = 0.5f * (
+        texture(source, uv + direction * (1.0f / 3.0f - 0.5f)).rgb +
+        texture(source, uv + direction * (2.0f / 3.0f - 0.5f)).rgb);
+    vec3 rgbB = rgbA * 0.5f + 0.25f * (
+        texture(source, uv - direction * 0.5f).rgb +
+        texture(source, uv + direction * 0.5f).rgb);
+    float lumaB = luminance(rgbB);
+
+    color = vec4((lumaB < lumaMin || lumaB > lumaMax) ? rgbA : rgbB, 1.0f);
+}
@@ -0,0 +1,21 @@
+#version 300 es
+precision highp float;
+
+// This darkens (or tints) the image towards the corners
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D source;
+uniform float intensity; // How much of the vignette color replaces the image at the corners
+uniform float radius; // The distance from the center where the vignette starts (the edges are at a distance of 1 from the center)
+uniform float smoothness; // The distance over which the vignette fades in
+uniform vec3 vignette_color;
+
+void main(){
+    vec3 c = texture(source, v_screencoord).rgb;
+    float distance = length(2.0f * v_screencoord - 1.0f);
+    float amount = intensity * smoothstep(radius, radius + smoothness, distance);
+    color = vec4(mix(c, vignette_color, clamp(amount, 0.0f, 1.0f)), 1.0f);
+}
@@ -0,0 +1,28 @@
+#version 300 es
+precision highp float;
+
+// This averages the occlusion over a NOISE_SIZE x NOISE_SIZE block of pixels (the size of the noise tile) which cancels out the noise pattern
+// If BLUR is not defined, the occlusion is copied as is (useful to see the noise in the debug view)
+
+in vec2 v_screencoord;
+
+out float visibility;
+
+uniform sampler2D occlusion;
+
+void main(){
+#ifdef BLUR
+    ivec2 center = ivec2(gl_FragCoord.xy);
+    ivec2 size = textureSize(occlusion, 0);
+    float sum = 0.0f;
+    for(int y = 0; y < NOISE_SIZE; y++){
+        for(int x = 0; x < NOISE_SIZE; x++){
+            ivec2 coord = clamp(center + ivec2(x, y) - NOISE_SIZE / 2, ivec2(0), size - 1);
+            sum += texelFetch(occlusion, coord, 0).r;
+        }
+    }
+    visibility = sum / float(NOISE_SIZE * NOISE_SIZE);
+#else
+    visibility = texelFetch(occlusion, ivec2(gl_FragCoord.xy), 0).r;
+#endif
+}
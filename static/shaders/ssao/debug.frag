@@ -0,0 +1,14 @@
+#version 300 es
+precision highp float;
+
+// This shows the ambient occlusion as a grey scale image (white is not occluded)
+
+in vec2 v_screencoord;
+
+out vec4 color;
+
+uniform sampler2D occlusion;
+
+void main(){
+    color = vec4(vec3(texture(occlusion, v_screencoord).r), 1.0f);
+}
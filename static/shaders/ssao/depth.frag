@@ -0,0 +1,6 @@
+#version 300 es
+precision highp float;
+
+// The depth prepass has no color attachments so we do not output any color
+
+void main(){}
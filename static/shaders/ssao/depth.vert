@@ -0,0 +1,20 @@
+#version 300 es
+layout(location=0) in vec3 position;
+
+// The depth prepass of SSAO only needs the depth so the vertex position is the only thing we need
+// Instanced meshes (INSTANCED) also read the matrix of each instance (see common/instancing.glsl)
+
+uniform mat4 M;
+uniform mat4 VP;
+
+#ifdef INSTANCED
+#include "common/instancing.glsl"
+#endif
+
+void main(){
+#ifdef INSTANCED
+    gl_Position = VP * instanceModel(M) * vec4(position, 1.0f);
+#else
+    gl_Position = VP * M * vec4(position, 1.0f);
+#endif
+}
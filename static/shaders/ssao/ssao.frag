@@ -0,0 +1,70 @@
+#version 300 es
+precision highp float;
+
+// This computes the ambient occlusion of each pixel from the depth buffer
+// The view space position is reconstructed from the depth using the inverse projection and the normal from the positions of the neighboring pixels
+// Then we place the kernel (KERNEL_SIZE points in a hemisphere) around the normal, rotated by the noise, and count the points that are behind the depth buffer
+// The output is the visibility (1 means not occluded)
+
+in vec2 v_screencoord;
+
+out float visibility;
+
+uniform sampler2D depth;
+uniform sampler2D noise; // NOISE_SIZE x NOISE_SIZE random directions in the XY plane (tiled over the screen)
+uniform vec3 kernel[KERNEL_SIZE]; // The sample offsets in a unit hemisphere around +Z
+uniform mat4 P;
+uniform mat4 P_inverse;
+uniform float radius; // The radius of the hemisphere in world units
+uniform float bias;
+uniform float power;
+
+// Returns the view space position of the pixel at the given screen coordinates
+vec3 viewPosition(vec2 uv){
+    float d = texture(depth, uv).r;
+    vec4 view = P_inverse * vec4(2.0f * vec3(uv, d) - 1.0f, 1.0f);
+    return view.xyz / view.w;
+}
+
+// The normal is the cross product of the differences to the horizontal and vertical neighbors
+// On each axis, we pick the neighbor with the smaller depth difference so that the normals don't bend along the silhouettes of the objects
+vec3 viewNormal(vec2 uv, vec3 position){
+    vec2 texel = 1.0f / vec2(textureSize(depth, 0));
+    vec3 right = viewPosition(uv + vec2(texel.x, 0.0f)) - position;
+    vec3 left = position - viewPosition(uv - vec2(texel.x, 0.0f));
+    vec3 up = viewPosition(uv + vec2(0.0f, texel.y)) - position;
+    vec3 down = position - viewPosition(uv - vec2(0.0f, texel.y));
+    vec3 dx = abs(right.z) < abs(left.z) ? right : left;
+    vec3 dy = abs(up.z) < abs(down.z) ? up : down;
+    return normalize(cross(dx, dy));
+}
+
+void main(){
+    if(texture(depth, v_screencoord).r >= 1.0f){ // Nothing was drawn here (the sky is never occluded)
+        visibility = 1.0f;
+        return;
+    }
+    vec3 position = viewPosition(v_screencoord);
+    vec3 normal = viewNormal(v_screencoord, position);
+
+    // Build a basis around the normal whose tangent is the random direction (Gram-Schmidt)
+    vec2 noise_scale = vec2(textureSize(depth, 0)) / float(NOISE_SIZE);
+    vec3 random = vec3(2.0f * texture(noise, v_screencoord * noise_scale).xy - 1.0f, 0.0f);
+    vec3 tangent = normalize(random - normal * dot(random, normal));
+    vec3 bitangent = cross(normal, tangent);
+    mat3 TBN = mat3(tangent, bitangent, normal);
+
+    float occlusion = 0.0f;
+    for(int i = 0; i < KERNEL_SIZE; i++){
+        vec3 samplePosition = position + TBN * kernel[i] * radius;
+        // Project the sample to find where it is on the screen then read the depth buffer there
+        vec4 projected = P * vec4(samplePosition, 1.0f);
+        vec2 uv = projected.xy / projected.w * 0.5f + 0.5f;
+        float sceneZ = viewPosition(uv).z;
+        // The view space z is negative in front of the camera so a bigger z is closer to the camera
+        // Occluders far from the pixel (more than the radius) fade out so that the objects in front of a distant background don't darken it
+        float range = smoothstep(0.0f, 1.0f, radius / abs(position.z - sceneZ));
+        occlusion += (sceneZ >= samplePosition.z + bias ? 1.0f : 0.0f) * range;
+    }
+    visibility = pow(1.0f - occlusion / float(KERNEL_SIZE), power);
+}
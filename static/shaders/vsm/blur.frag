@@ -0,0 +1,29 @@
+#version 300 es
+precision highp float;
+precision highp sampler2D; // The moments need the full precision
+
+// A separable gaussian blur of the moments of a variance shadow map (it is drawn twice: along X then along Y)
+// Unlike the depth, the moments can be blurred so this softens the shadows without any extra work while drawing the lights
+
+#define MAX_RADIUS 16
+
+in vec2 v_screencoord;
+
+out vec4 blurred;
+
+uniform sampler2D moments;
+uniform vec2 direction; // One texel along the blur direction (in UVs)
+uniform int radius; // The blur radius in texels (the standard deviation of the gaussian is half of it)
+
+void main(){
+    int r = clamp(radius, 0, MAX_RADIUS);
+    float sigma = max(0.5f * float(r), 0.5f);
+    vec4 sum = vec4(0.0f);
+    float total = 0.0f;
+    for(int i = -r; i <= r; i++){
+        float weight = exp(-float(i * i) / (2.0f * sigma * sigma));
+        sum += weight * texture(moments, v_screencoord + float(i) * direction);
+        total += weight;
+    }
+    blurred = sum / total;
+}